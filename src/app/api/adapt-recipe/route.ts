@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdaptRecipeRequest } from '@/types/recipe';
+import { getVisionProvider } from '@/lib/vision';
+import { MAX_UNAVAILABLE_INGREDIENTS, adaptRecipe } from '@/lib/recipeAdaptation';
+import { checkRateLimit, rateLimitResponse, trackUsage } from '@/lib/rateLimit';
+import { isDietaryConstraint } from '@/utils/ingredientSubstitution';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+export async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request);
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: AdaptRecipeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!body.recipe || typeof body.recipe !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe data required' },
+        { status: 400 }
+      );
+    }
+
+    const constraints = Array.isArray(body.constraints) ? body.constraints : [];
+    const unknown = constraints.filter(constraint => !isDietaryConstraint(constraint));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown dietary constraint: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const unavailableIngredients = Array.isArray(body.unavailableIngredients)
+      ? body.unavailableIngredients
+        .filter((ingredient): ingredient is string => typeof ingredient === 'string')
+        .map(ingredient => ingredient.trim())
+        .filter(Boolean)
+      : [];
+
+    if (unavailableIngredients.length > MAX_UNAVAILABLE_INGREDIENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_UNAVAILABLE_INGREDIENTS} missing ingredients can be listed` },
+        { status: 400 }
+      );
+    }
+
+    if (constraints.length === 0 && unavailableIngredients.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Choose a dietary constraint or an ingredient you do not have' },
+        { status: 400 }
+      );
+    }
+
+    const { recipe, issues, valid } = validateRecipe(body.recipe);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid recipe', issues },
+        { status: 400 }
+      );
+    }
+
+    // The fixture provider cannot suggest substitutes, so the substitution table answers instead
+    const provider = trackUsage(getVisionProvider(), rateLimit.clientId);
+    const adaptation = await adaptRecipe(
+      recipe,
+      [...new Set(constraints)],
+      unavailableIngredients,
+      provider.name !== 'fixture' ? provider : null
+    );
+
+    return NextResponse.json({ success: true, adaptation });
+  } catch (error) {
+    console.error('Recipe adaptation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to adapt recipe. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
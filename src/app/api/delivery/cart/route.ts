@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Ingredient, RecipeValidationIssue } from '@/types/recipe';
+import { BuildCartRequest } from '@/types/delivery';
+import { getDeliveryProvider } from '@/lib/delivery';
+import { MAX_CART_INGREDIENTS, buildCart } from '@/lib/delivery/cart';
+import { validateIngredient } from '@/utils/recipeValidation';
+
+export async function POST(request: NextRequest) {
+  let body: BuildCartRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!Array.isArray(body.ingredients) || body.ingredients.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Ingredients required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.ingredients.length > MAX_CART_INGREDIENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_CART_INGREDIENTS} ingredients can be added at once` },
+        { status: 400 }
+      );
+    }
+
+    if (body.unitSystem !== undefined && body.unitSystem !== 'metric' && body.unitSystem !== 'imperial') {
+      return NextResponse.json(
+        { success: false, error: 'Unit system must be metric or imperial' },
+        { status: 400 }
+      );
+    }
+
+    const issues: RecipeValidationIssue[] = [];
+    const ingredients = body.ingredients
+      .map((ingredient, index) => validateIngredient(ingredient, `ingredients[${index}]`, issues))
+      .filter((ingredient): ingredient is Ingredient => ingredient !== null);
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ingredients', issues },
+        { status: 400 }
+      );
+    }
+
+    const catalog = await getDeliveryProvider().getCatalog();
+    const cart = buildCart(ingredients, catalog, body.unitSystem);
+
+    return NextResponse.json({ success: true, cart });
+  } catch (error) {
+    console.error('Delivery cart error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build the cart. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
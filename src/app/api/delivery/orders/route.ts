@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OrderItem, SubmitOrderRequest } from '@/types/delivery';
+import { DeliveryOrderError, getDeliveryProvider } from '@/lib/delivery';
+import { MAX_CART_INGREDIENTS, MAX_PACKS_PER_LINE } from '@/lib/delivery/cart';
+
+function isOrderItem(value: unknown): value is OrderItem {
+  if (!value || typeof value !== 'object') return false;
+
+  const { sku, packs } = value as Record<string, unknown>;
+  return typeof sku === 'string' && sku.trim() !== '' &&
+    typeof packs === 'number' && Number.isInteger(packs) && packs >= 1 && packs <= MAX_PACKS_PER_LINE;
+}
+
+export async function POST(request: NextRequest) {
+  let body: SubmitOrderRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Choose at least one product to order' },
+        { status: 400 }
+      );
+    }
+
+    if (body.items.length > MAX_CART_INGREDIENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_CART_INGREDIENTS} products can be ordered at once` },
+        { status: 400 }
+      );
+    }
+
+    if (!body.items.every(isOrderItem)) {
+      return NextResponse.json(
+        { success: false, error: `Each item needs a sku and between 1 and ${MAX_PACKS_PER_LINE} packs` },
+        { status: 400 }
+      );
+    }
+
+    const order = await getDeliveryProvider().submitOrder(body.items);
+
+    // A failed order is still a valid answer: the client shows what was out of stock
+    return NextResponse.json({ success: true, order });
+  } catch (error) {
+    if (error instanceof DeliveryOrderError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Delivery order error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to place the order. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ExportRecipeRequest } from '@/types/recipe';
+import { RECIPE_FORMATS, exportRecipe, isRecipeInterchangeFormat } from '@/lib/interchange';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+interface RouteContext {
+  params: Promise<{ format: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { format } = await params;
+    if (!isRecipeInterchangeFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported export format. Use one of: ${Object.keys(RECIPE_FORMATS).join(', ')}, pdf` },
+        { status: 404 }
+      );
+    }
+
+    let body: ExportRecipeRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.recipe || typeof body.recipe !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe data required' },
+        { status: 400 }
+      );
+    }
+
+    const { recipe, issues, valid } = validateRecipe(body.recipe);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid recipe', issues },
+        { status: 400 }
+      );
+    }
+
+    const { content, fileName } = exportRecipe(recipe, format);
+
+    return new NextResponse(Buffer.from(content), {
+      headers: {
+        'Content-Type': RECIPE_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Recipe export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export recipe.' },
+      { status: 500 }
+    );
+  }
+}
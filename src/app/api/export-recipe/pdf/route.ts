@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ExportRecipeRequest } from '@/types/recipe';
+import { renderRecipePdf } from '@/lib/recipePdf';
+import { getRecipeFileName } from '@/utils/recipeExport';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+export async function POST(request: NextRequest) {
+  let body: ExportRecipeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!body.recipe || typeof body.recipe !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe data required' },
+        { status: 400 }
+      );
+    }
+
+    const { recipe, issues, valid } = validateRecipe(body.recipe);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid recipe', issues },
+        { status: 400 }
+      );
+    }
+
+    const pdf = renderRecipePdf(recipe);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getRecipeFileName(recipe, 'pdf')}"`,
+      },
+    });
+  } catch (error) {
+    console.error('PDF export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export recipe as PDF.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedbackRepository } from '@/lib/storage/feedbackRepository';
+import { RecipeRequestError } from '@/lib/recipeGeneration';
+import { parseFeedbackInput, summarizeFeedback } from '@/lib/recipeFeedback';
+
+export async function GET() {
+  try {
+    const repository = getFeedbackRepository();
+    const [generations, feedback] = await Promise.all([repository.listGenerations(), repository.listFeedback()]);
+
+    return NextResponse.json({ success: true, summary: summarizeFeedback(generations, feedback) });
+  } catch (error) {
+    console.error('Feedback summary error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load feedback.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+
+    if (!body || typeof body !== 'object' || typeof body.recipeId !== 'string' || !body.recipeId) {
+      return NextResponse.json(
+        { success: false, error: 'Recipe ID required' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getFeedbackRepository();
+    const generation = await repository.getGeneration(body.recipeId);
+    if (!generation) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown recipe. Feedback can only be given on generated recipes.' },
+        { status: 404 }
+      );
+    }
+
+    const feedback = await repository.addFeedback(parseFeedbackInput(body, generation));
+
+    return NextResponse.json({ success: true, feedback }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RecipeRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Feedback error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save feedback. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
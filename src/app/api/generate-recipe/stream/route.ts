@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecipeRequest, RecipeStreamEvent } from '@/types/recipe';
+import { getVisionProvider } from '@/lib/vision';
+import {
+  RECIPE_MAX_TOKENS,
+  RecipeRequestError,
+  RequestImage,
+  generateRecipePrompt,
+  getRequestImages,
+  parseRecipeWithRepair,
+  sanitizeDishHint
+} from '@/lib/recipeGeneration';
+import { recordGeneration } from '@/lib/recipeFeedback';
+import { checkRateLimit, rateLimitResponse, trackUsage } from '@/lib/rateLimit';
+import { RecipeStreamParser } from '@/lib/recipeStreaming';
+import { RECIPE_CACHE_HEADER, readRecipeCache, recipeCacheKey, writeRecipeCache } from '@/lib/cache';
+import { parseLocale } from '@/lib/i18n';
+import { convertInstructions } from '@/utils/unitConversion';
+import { getProfileUnitSystem, parseMeasurementProfile } from '@/utils/unitUtils';
+
+/**
+ * Streaming variant of /api/generate-recipe. Responds with newline-delimited
+ * JSON events as the recipe is parsed from the model stream, ending with a
+ * "done" event that carries the validated recipe (or an "error" event).
+ */
+export async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request);
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: RecipeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const measurementProfile = parseMeasurementProfile(body.measurementProfile, body.unitSystem);
+  const unitSystem = getProfileUnitSystem(measurementProfile);
+  const dishHint = sanitizeDishHint(body.dishHint);
+  const locale = parseLocale(body.locale);
+
+  let images: RequestImage[];
+  try {
+    images = getRequestImages(body);
+  } catch (error) {
+    if (error instanceof RecipeRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
+
+  const provider = trackUsage(getVisionProvider(), rateLimit.clientId);
+  const cacheKey = recipeCacheKey({ images: images.map(image => image.base64), unitSystem, measurementProfile, dishHint, locale, provider: provider.name });
+  const cache = await readRecipeCache(cacheKey, body.bypassCache === true);
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away; the controller then throws on every call
+  let closed = false;
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RecipeStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        // A cached recipe is sent whole in the "done" event. Only new recipes
+        // are recorded; a cache hit answers the same request again.
+        if (cache.result) {
+          const { recipe, source, issues } = cache.result;
+          const recipeId = cache.result.recipeId
+            ?? await recordGeneration({ recipe, source, issues, images, dishHint, unitSystem, provider: provider.name });
+          send({ type: 'done', recipe, recipeId, source, issues });
+          return;
+        }
+
+        const parser = new RecipeStreamParser();
+
+        for await (const chunk of provider.stream({
+          task: 'generate-recipe',
+          prompt: generateRecipePrompt(measurementProfile, images.length, dishHint, locale),
+          images: images.map(({ base64, mimeType }) => ({ base64, mimeType })),
+          maxTokens: RECIPE_MAX_TOKENS,
+          temperature: 0.3
+        })) {
+          // Stop reading from the model once nobody is listening
+          if (closed) return;
+          parser.push(chunk.text).forEach(send);
+        }
+
+        // Log the raw response for debugging
+        console.log('Vision Provider Raw Response:', parser.text);
+
+        const result = await parseRecipeWithRepair(parser.text, provider);
+        result.recipe = convertInstructions(result.recipe, measurementProfile);
+
+        const { recipe, source, issues } = result;
+        const recipeId = await recordGeneration({ recipe, source, issues, images, dishHint, unitSystem, provider: provider.name });
+        await writeRecipeCache(cacheKey, { ...result, recipeId });
+
+        send({ type: 'done', recipe, recipeId, source, issues });
+      } catch (error) {
+        console.error('Recipe stream error:', error);
+        send({ type: 'error', error: 'Failed to generate recipe. Please try again.' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      [RECIPE_CACHE_HEADER]: cache.status,
+    },
+  });
+}
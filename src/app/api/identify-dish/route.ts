@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IdentifyDishRequest } from '@/types/recipe';
+import { getVisionProvider } from '@/lib/vision';
+import { RecipeRequestError, getRequestImages } from '@/lib/recipeGeneration';
+import { checkRateLimit, rateLimitResponse, trackUsage } from '@/lib/rateLimit';
+import {
+  DEFAULT_DISH_CANDIDATES,
+  MAX_DISH_CANDIDATES,
+  generateIdentifyDishPrompt,
+  parseDishCandidates
+} from '@/lib/dishIdentification';
+
+export async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request);
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: IdentifyDishRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const images = getRequestImages(body);
+    const maxCandidates = Math.min(
+      Math.max(Math.floor(Number(body.maxCandidates) || DEFAULT_DISH_CANDIDATES), 1),
+      MAX_DISH_CANDIDATES
+    );
+
+    const { content } = await trackUsage(getVisionProvider(), rateLimit.clientId).complete({
+      task: 'identify-dish',
+      prompt: generateIdentifyDishPrompt(maxCandidates, images.length),
+      images: images.map(({ base64, mimeType }) => ({ base64, mimeType })),
+      maxTokens: 500,
+      temperature: 0.2
+    });
+
+    // Log the raw response for debugging
+    console.log('Vision Provider Raw Response:', content);
+
+    const candidates = parseDishCandidates(content, maxCandidates);
+    if (candidates.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Could not identify the dish. Please enter its name or try another photo.' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, candidates });
+  } catch (error) {
+    if (error instanceof RecipeRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Dish identification error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to identify dish. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImportRecipeTextRequest } from '@/types/recipe';
+import { getVisionProvider } from '@/lib/vision';
+import { RecipeRequestError } from '@/lib/recipeGeneration';
+import { MAX_RECIPE_TEXT_LENGTH, importRecipeFromText } from '@/lib/recipeTextImport';
+import { checkRateLimit, rateLimitResponse, trackUsage } from '@/lib/rateLimit';
+
+export async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(request);
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: ImportRecipeTextRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+
+    if (!text) {
+      return NextResponse.json(
+        { success: false, error: 'Recipe text required' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_RECIPE_TEXT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Recipe text is too long. Maximum length is ${MAX_RECIPE_TEXT_LENGTH} characters.` },
+        { status: 413 }
+      );
+    }
+
+    // The fixture provider only returns a canned sample, so it never replaces the user's text
+    const provider = trackUsage(getVisionProvider(), rateLimit.clientId);
+    const cleanupProvider = body.cleanup !== false && provider.name !== 'fixture' ? provider : null;
+
+    const { recipe, source, issues } = await importRecipeFromText(text, cleanupProvider);
+
+    return NextResponse.json({ success: true, recipe, source, issues });
+  } catch (error) {
+    if (error instanceof RecipeRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Recipe text import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import recipe. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
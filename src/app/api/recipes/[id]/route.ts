@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SaveRecipeRequest } from '@/types/recipe';
+import { getRecipeRepository } from '@/lib/storage/recipeRepository';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: 'Recipe not found' },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const recipe = await getRecipeRepository().get(id);
+
+    if (!recipe) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    console.error('Recipe load error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load recipe.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  let body: SaveRecipeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!body.recipe || typeof body.recipe !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe data required' },
+        { status: 400 }
+      );
+    }
+
+    const { recipe: validRecipe, issues, valid } = validateRecipe(body.recipe);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid recipe', issues },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await getRecipeRepository().update(id, validRecipe);
+
+    if (!recipe) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    console.error('Recipe update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update recipe. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await getRecipeRepository().delete(id);
+
+    if (!deleted) {
+      return notFound();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Recipe delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete recipe.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Recipe } from '@/types/recipe';
+import { RecipeImportError, importRecipes } from '@/lib/interchange';
+import { getRecipeRepository } from '@/lib/storage/recipeRepository';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe file required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'Recipe file is too large. Maximum size is 10MB.' },
+        { status: 413 }
+      );
+    }
+
+    const imported = importRecipes(file.name, new Uint8Array(await file.arrayBuffer()));
+    const validRecipes: Recipe[] = [];
+    let skipped = 0;
+
+    for (const candidate of imported) {
+      const { recipe, valid } = validateRecipe(candidate);
+      if (valid) {
+        validRecipes.push(recipe);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (validRecipes.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No complete recipes were found in the file', skipped },
+        { status: 422 }
+      );
+    }
+
+    // One read and write of the recipe file for the whole archive
+    const recipes = await getRecipeRepository().createMany(validRecipes);
+
+    return NextResponse.json({ success: true, recipes, skipped }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RecipeImportError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Recipe import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import recipes. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SaveRecipeRequest } from '@/types/recipe';
+import { getRecipeRepository } from '@/lib/storage/recipeRepository';
+import { validateRecipe } from '@/utils/recipeValidation';
+
+export async function GET() {
+  try {
+    const recipes = await getRecipeRepository().list();
+    return NextResponse.json({ success: true, recipes });
+  } catch (error) {
+    console.error('Recipe list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load saved recipes.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: SaveRecipeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+
+    if (!body.recipe || typeof body.recipe !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Recipe data required' },
+        { status: 400 }
+      );
+    }
+
+    const { recipe: validRecipe, issues, valid } = validateRecipe(body.recipe);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid recipe', issues },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await getRecipeRepository().create(validRecipe);
+
+    return NextResponse.json({ success: true, recipe }, { status: 201 });
+  } catch (error) {
+    console.error('Recipe save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save recipe. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
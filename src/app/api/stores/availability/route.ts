@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Ingredient, RecipeValidationIssue } from '@/types/recipe';
+import { StoreAvailabilityRequest } from '@/types/stores';
+import { getStoreInventoryProvider } from '@/lib/stores';
+import { isGeoLocation } from '@/lib/stores/geo';
+import {
+  DEFAULT_SEARCH_RADIUS_KM,
+  MAX_AVAILABILITY_INGREDIENTS,
+  MAX_SEARCH_RADIUS_KM,
+  findStoreAvailability
+} from '@/lib/stores/availability';
+import { validateIngredient } from '@/utils/recipeValidation';
+
+export async function POST(request: NextRequest) {
+  let body: StoreAvailabilityRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!Array.isArray(body.ingredients) || body.ingredients.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Ingredients required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.ingredients.length > MAX_AVAILABILITY_INGREDIENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_AVAILABILITY_INGREDIENTS} ingredients can be checked at once` },
+        { status: 400 }
+      );
+    }
+
+    if (!isGeoLocation(body.location)) {
+      return NextResponse.json(
+        { success: false, error: 'Location must have a latitude and longitude' },
+        { status: 400 }
+      );
+    }
+
+    const radiusKm = body.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM;
+    if (typeof radiusKm !== 'number' || !(radiusKm > 0) || radiusKm > MAX_SEARCH_RADIUS_KM) {
+      return NextResponse.json(
+        { success: false, error: `Search radius must be between 0 and ${MAX_SEARCH_RADIUS_KM} km` },
+        { status: 400 }
+      );
+    }
+
+    const issues: RecipeValidationIssue[] = [];
+    const ingredients = body.ingredients
+      .map((ingredient, index) => validateIngredient(ingredient, `ingredients[${index}]`, issues))
+      .filter((ingredient): ingredient is Ingredient => ingredient !== null);
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ingredients', issues },
+        { status: 400 }
+      );
+    }
+
+    const stores = await findStoreAvailability(ingredients, body.location, radiusKm, getStoreInventoryProvider());
+
+    return NextResponse.json({ success: true, stores });
+  } catch (error) {
+    console.error('Store availability error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check store availability. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FeedbackBucket, FeedbackSummary, FeedbackSummaryResponse } from '@/types/feedback';
+
+function formatRating(bucket: FeedbackBucket): string {
+  return bucket.averageRating !== null ? `${bucket.averageRating.toFixed(1)} ★` : '—';
+}
+
+function formatShare(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '—';
+}
+
+export default function FeedbackSummaryPage() {
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      try {
+        const response = await fetch('/api/feedback');
+        const result: FeedbackSummaryResponse = await response.json();
+
+        if (result.success && result.summary) {
+          setSummary(result.summary);
+        } else {
+          setError(result.error || 'Failed to load feedback');
+        }
+      } catch (err) {
+        setError('Network error. Please check your connection and try again.');
+        console.error('Feedback summary error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Recipe Feedback</h1>
+            <p className="text-gray-600 mt-2">
+              Ratings and reports on generated recipes, by the kind of photos and prompt behind them
+            </p>
+            <Link href="/" className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Generate a new recipe
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="max-w-md mx-auto bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-gray-600">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="text-sm">Loading feedback...</span>
+          </div>
+        ) : summary && (
+          <>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              {[
+                ['Generated', String(summary.overall.generations)],
+                ['Reviewed', String(summary.overall.reviewed)],
+                ['Average rating', formatRating(summary.overall)],
+                ['Wrong dish', formatShare(summary.overall.wrongDish, summary.overall.reviewed)]
+              ].map(([label, value]) => (
+                <div key={label} className="bg-white rounded-lg shadow-sm p-4 text-center">
+                  <div className="text-2xl font-semibold text-gray-900">{value}</div>
+                  <div className="text-xs text-gray-500 mt-1">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {summary.dimensions.map(dimension => (
+              <div key={dimension.key} className="bg-white rounded-lg shadow-sm p-5">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">{dimension.label}</h2>
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="font-medium py-1"></th>
+                      <th className="font-medium py-1 text-right">Recipes</th>
+                      <th className="font-medium py-1 text-right">Reviewed</th>
+                      <th className="font-medium py-1 text-right">Rating</th>
+                      <th className="font-medium py-1 text-right">Low ratings</th>
+                      <th className="font-medium py-1 text-right">Wrong dish</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dimension.buckets.map(bucket => (
+                      <tr key={bucket.key} className="border-t border-gray-100">
+                        <td className="py-1.5">{bucket.label}</td>
+                        <td className="py-1.5 text-right">{bucket.generations}</td>
+                        <td className="py-1.5 text-right">{bucket.reviewed}</td>
+                        <td className="py-1.5 text-right">{formatRating(bucket)}</td>
+                        <td className="py-1.5 text-right">{formatShare(bucket.lowRatings, bucket.ratings)}</td>
+                        <td className="py-1.5 text-right">{formatShare(bucket.wrongDish, bucket.reviewed)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+
+            <div className="bg-white rounded-lg shadow-sm p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Lowest rated recipes</h2>
+              {summary.lowRated.length === 0 ? (
+                <p className="text-sm text-gray-600">No badly rated or misidentified recipes yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {summary.lowRated.map(recipe => (
+                    <li key={recipe.recipeId} className="border-t border-gray-100 pt-3 first:border-0 first:pt-0">
+                      <div className="flex items-baseline justify-between gap-3">
+                        <span className="text-sm font-medium text-gray-900">{recipe.title}</span>
+                        <span className="text-xs text-gray-500">
+                          {recipe.averageRating !== null ? `${recipe.averageRating.toFixed(1)} ★` : ''}
+                          {recipe.wrongDish && <span className="ml-2 text-red-600">wrong dish</span>}
+                        </span>
+                      </div>
+                      {recipe.comments.length > 0 && (
+                        <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                          {recipe.comments.map((comment, index) => (
+                            <li key={index}>{comment}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
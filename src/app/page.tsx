@@ -1,85 +1,318 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import ImageUploadComponent from '@/components/ImageUploadComponent';
+import DishConfirmationComponent from '@/components/DishConfirmationComponent';
+import RecipeTextImportComponent from '@/components/RecipeTextImportComponent';
 import RecipeDisplayComponent from '@/components/RecipeDisplayComponent';
-import { Recipe, RecipeResponse, UnitSystem } from '@/types/recipe';
-import { detectUserUnitSystem } from '@/utils/unitUtils';
+import RecipeAdaptationComponent from '@/components/RecipeAdaptationComponent';
+import RecipeFeedbackComponent from '@/components/RecipeFeedbackComponent';
+import UnitSelector from '@/components/UnitSelector';
+import { DishCandidate, IdentifyDishResponse, ImportRecipeTextResponse, Locale, Recipe, RecipeAdaptation, RecipeResponse, RecipeSource, SavedRecipeResponse, MeasurementProfile } from '@/types/recipe';
+import { detectUserMeasurementProfile, getMeasurementProfile, getProfileUnitSystem } from '@/utils/unitUtils';
+import { applyRecipeStreamEvent, readRecipeStream } from '@/utils/recipeStream';
+import { SUPPORTED_LOCALES, detectUserLocale, getTranslator } from '@/lib/i18n';
 
 export default function Home() {
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [unitSystem, setUnitSystem] = useState<UnitSystem>('imperial');
+  const [measurementProfile, setMeasurementProfile] = useState<MeasurementProfile>(() => getMeasurementProfile('imperial'));
+  const [locale, setLocale] = useState<Locale>('en');
+  const [savedRecipeId, setSavedRecipeId] = useState<string | null>(null);
+  const [recipeSource, setRecipeSource] = useState<RecipeSource | null>(null);
+  // Set for generated recipes only; feedback is about how a photo became a recipe
+  const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [streamEndedEarly, setStreamEndedEarly] = useState(false);
+  const [isIdentifying, setIsIdentifying] = useState(false);
+  const [pendingImages, setPendingImages] = useState<string[] | null>(null);
+  const [dishCandidates, setDishCandidates] = useState<DishCandidate[]>([]);
+  const [inputMode, setInputMode] = useState<'photos' | 'text'>('photos');
+  const [isImportingText, setIsImportingText] = useState(false);
+  const [adaptation, setAdaptation] = useState<RecipeAdaptation | null>(null);
 
-  // Detect user's preferred unit system on mount
+  // Saving, exporting and copying all use the adapted recipe while one is shown
+  const displayedRecipe = adaptation?.recipe ?? recipe;
+  const t = getTranslator(locale);
+
+  // Detect user's preferred unit system and language on mount
   useEffect(() => {
-    setUnitSystem(detectUserUnitSystem());
+    setMeasurementProfile(detectUserMeasurementProfile());
+    setLocale(detectUserLocale());
   }, []);
 
-  const handleImageUpload = async (base64: string) => {
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleImageUpload = async (images: string[]) => {
+    setIsIdentifying(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/identify-dish', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ images }),
+      });
+
+      const result: IdentifyDishResponse = await response.json();
+
+      if (result.success && result.candidates && result.candidates.length > 0) {
+        setPendingImages(images);
+        setDishCandidates(result.candidates);
+        return;
+      }
+
+      // Generating would be refused as well, so show the limit instead
+      if (result.rateLimit) {
+        setError(result.error || t('errors.rateLimited'));
+        return;
+      }
+
+      // Identification is only a helper; generate without a hint when it fails
+      console.error('Dish identification failed:', result.error);
+    } catch (err) {
+      console.error('Dish identification error:', err);
+    } finally {
+      setIsIdentifying(false);
+    }
+
+    await generateRecipe(images);
+  };
+
+  const handleConfirmDish = (dishName?: string) => {
+    const images = pendingImages;
+    setPendingImages(null);
+    setDishCandidates([]);
+    if (images) {
+      generateRecipe(images, dishName);
+    }
+  };
+
+  const handleCancelDish = () => {
+    setPendingImages(null);
+    setDishCandidates([]);
+  };
+
+  const generateRecipe = async (images: string[], dishHint?: string) => {
     setIsGenerating(true);
     setError(null);
     setRecipe(null);
+    setAdaptation(null);
+    setSavedRecipeId(null);
+    setRecipeSource(null);
+    setRecipeId(null);
+    setStreamEndedEarly(false);
+
+    let partialRecipe: Recipe | null = null;
+    let finished = false;
 
     try {
-      const response = await fetch('/api/generate-recipe', {
+      const response = await fetch('/api/generate-recipe/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          imageBase64: base64,
-          unitSystem: unitSystem
+          images,
+          unitSystem: getProfileUnitSystem(measurementProfile),
+          measurementProfile,
+          locale,
+          dishHint
         }),
       });
 
-      const result: RecipeResponse = await response.json();
+      if (!response.ok || !response.body) {
+        const result: RecipeResponse = await response.json();
+        setError(result.error || t('errors.generateFailed'));
+        return;
+      }
+
+      await readRecipeStream(response, event => {
+        if (event.type === 'error') {
+          finished = true;
+          // Keep whatever arrived before the failure instead of discarding it
+          if (partialRecipe) {
+            setStreamEndedEarly(true);
+          } else {
+            setError(event.error);
+          }
+          return;
+        }
+        if (event.type === 'done') {
+          finished = true;
+          setRecipeSource(event.source);
+          setRecipeId(event.recipeId);
+        }
+
+        // Render the recipe as it arrives; "done" replaces it with the validated version
+        partialRecipe = applyRecipeStreamEvent(partialRecipe, event);
+        setRecipe(partialRecipe);
+      });
+
+      if (!finished) {
+        if (partialRecipe) {
+          setStreamEndedEarly(true);
+        } else {
+          setError(t('errors.endedUnexpectedly'));
+        }
+      }
+    } catch (err) {
+      if (partialRecipe) {
+        setStreamEndedEarly(true);
+      } else {
+        setError(t('errors.network'));
+      }
+      console.error('Recipe generation error:', err);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleTextImport = async (text: string, cleanup: boolean) => {
+    setIsImportingText(true);
+    setError(null);
+    setAdaptation(null);
+    setSavedRecipeId(null);
+    setRecipeSource(null);
+    setRecipeId(null);
+    setStreamEndedEarly(false);
+
+    try {
+      const response = await fetch('/api/import-recipe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text, cleanup }),
+      });
+
+      const result: ImportRecipeTextResponse = await response.json();
 
       if (result.success && result.recipe) {
         setRecipe(result.recipe);
       } else {
-        setError(result.error || 'Failed to generate recipe');
+        setError(result.error || t('errors.importFailed'));
       }
     } catch (err) {
-      setError('Network error. Please check your connection and try again.');
-      console.error('Recipe generation error:', err);
+      setError(t('errors.network'));
+      console.error('Recipe text import error:', err);
     } finally {
-      setIsGenerating(false);
+      setIsImportingText(false);
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!displayedRecipe) return;
+
+    // Saving again after the first save updates the existing library entry
+    const response = await fetch(savedRecipeId ? `/api/recipes/${savedRecipeId}` : '/api/recipes', {
+      method: savedRecipeId ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ recipe: displayedRecipe }),
+    });
+
+    const result: SavedRecipeResponse = await response.json();
+
+    if (!result.success || !result.recipe) {
+      throw new Error(result.error || 'Failed to save recipe');
     }
+
+    setSavedRecipeId(result.recipe.id);
   };
 
   const handleNewRecipe = () => {
     setRecipe(null);
+    setAdaptation(null);
     setError(null);
+    setSavedRecipeId(null);
+    setRecipeSource(null);
+    setRecipeId(null);
+    setStreamEndedEarly(false);
   };
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
       {/* Header */}
-      <header className="bg-white shadow-sm">
+      <header className="bg-white shadow-sm print:hidden">
         <div className="max-w-4xl mx-auto px-4 py-6">
           <div className="text-center">
-            <h1 className="text-3xl font-bold text-gray-900">Food Recipe Generator</h1>
+            <h1 className="text-3xl font-bold text-gray-900">{t('home.title')}</h1>
             <p className="text-gray-600 mt-2">
-              Upload a photo of food and get an instant recipe with ingredients and instructions
+              {t('home.subtitle')}
             </p>
+            <div className="mt-3 flex items-center justify-center gap-4 text-sm">
+              <Link href="/recipes" className="font-medium text-blue-600 hover:text-blue-700">
+                {t('home.savedRecipes')}
+              </Link>
+              {/* Also the language the recipe is generated in */}
+              <select
+                value={locale}
+                onChange={event => setLocale(event.target.value as Locale)}
+                aria-label={t('home.language')}
+                className="rounded-md border border-gray-300 bg-white px-2 py-1 text-gray-700"
+              >
+                {SUPPORTED_LOCALES.map(option => (
+                  <option key={option.locale} value={option.locale}>{option.label}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-4 py-8">
+      <main className="max-w-4xl mx-auto px-4 py-8 print:p-0">
         {!recipe ? (
           <div className="space-y-8">
             {/* Upload Section */}
-            <section>
-              <ImageUploadComponent 
-                onImageUpload={handleImageUpload}
-                isUploading={isGenerating}
-                unitSystem={unitSystem}
-                onUnitSystemChange={setUnitSystem}
-              />
+            <section className="space-y-6">
+              {!pendingImages && (
+                <div className="flex justify-center">
+                  <div className="inline-flex rounded-lg border border-gray-300 bg-white p-1">
+                    {([['photos', t('home.fromPhotos')], ['text', t('home.pasteRecipe')]] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setInputMode(mode)}
+                        disabled={isIdentifying || isGenerating || isImportingText}
+                        className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                          inputMode === mode ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {pendingImages ? (
+                <DishConfirmationComponent
+                  candidates={dishCandidates}
+                  onConfirm={handleConfirmDish}
+                  onSkip={() => handleConfirmDish()}
+                  onCancel={handleCancelDish}
+                />
+              ) : inputMode === 'text' ? (
+                <RecipeTextImportComponent
+                  onImport={handleTextImport}
+                  isImporting={isImportingText}
+                />
+              ) : (
+                <ImageUploadComponent 
+                  onImageUpload={handleImageUpload}
+                  isUploading={isIdentifying || isGenerating}
+                  measurementProfile={measurementProfile}
+                  onMeasurementProfileChange={setMeasurementProfile}
+                  locale={locale}
+                />
+              )}
             </section>
 
             {/* Error Display */}
@@ -99,15 +332,15 @@ export default function Home() {
             {/* How it works */}
             <section className="max-w-2xl mx-auto">
               <div className="bg-white rounded-lg shadow-sm p-6">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4">How it works</h2>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('home.howItWorks')}</h2>
                 <div className="space-y-4">
                   <div className="flex items-start gap-3">
                     <div className="flex-shrink-0 w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
                       <span className="text-sm font-semibold text-blue-600">1</span>
                     </div>
                     <div>
-                      <h3 className="font-medium text-gray-900">Upload your food image</h3>
-                      <p className="text-sm text-gray-600">Take a photo or upload an image of any dish and choose your preferred units</p>
+                      <h3 className="font-medium text-gray-900">{t('home.step1Title')}</h3>
+                      <p className="text-sm text-gray-600">{t('home.step1Text')}</p>
                     </div>
                   </div>
                   <div className="flex items-start gap-3">
@@ -115,8 +348,8 @@ export default function Home() {
                       <span className="text-sm font-semibold text-blue-600">2</span>
                     </div>
                     <div>
-                      <h3 className="font-medium text-gray-900">AI analyzes the image</h3>
-                      <p className="text-sm text-gray-600">Our AI identifies the dish and its components</p>
+                      <h3 className="font-medium text-gray-900">{t('home.step2Title')}</h3>
+                      <p className="text-sm text-gray-600">{t('home.step2Text')}</p>
                     </div>
                   </div>
                   <div className="flex items-start gap-3">
@@ -124,8 +357,8 @@ export default function Home() {
                       <span className="text-sm font-semibold text-blue-600">3</span>
                     </div>
                     <div>
-                      <h3 className="font-medium text-gray-900">Get your recipe</h3>
-                      <p className="text-sm text-gray-600">Receive complete ingredients list and cooking instructions in your preferred units</p>
+                      <h3 className="font-medium text-gray-900">{t('home.step3Title')}</h3>
+                      <p className="text-sm text-gray-600">{t('home.step3Text')}</p>
                     </div>
                   </div>
                 </div>
@@ -134,16 +367,67 @@ export default function Home() {
           </div>
         ) : (
           <div className="space-y-6">
+            {streamEndedEarly && (
+              <div className="w-full max-w-2xl mx-auto bg-yellow-50 border border-yellow-200 rounded-lg p-4 print:hidden">
+                <p className="text-sm text-yellow-700">
+                  {t('home.endedEarly')}
+                </p>
+              </div>
+            )}
+
+            {recipeSource === 'text-fallback' && (
+              <div className="w-full max-w-2xl mx-auto bg-yellow-50 border border-yellow-200 rounded-lg p-4 print:hidden">
+                <p className="text-sm text-yellow-700">
+                  {t('home.textFallback')}
+                </p>
+              </div>
+            )}
+
+            {/* Units can be switched without generating the recipe again */}
+            <div className="w-full max-w-2xl mx-auto print:hidden">
+              <UnitSelector
+                profile={measurementProfile}
+                onProfileChange={setMeasurementProfile}
+                locale={locale}
+              />
+            </div>
+
+            {!isGenerating && (
+              <RecipeAdaptationComponent
+                recipe={recipe}
+                adaptation={adaptation}
+                onAdaptationChange={setAdaptation}
+              />
+            )}
+
             {/* Recipe Display */}
-            <RecipeDisplayComponent recipe={recipe} />
+            <RecipeDisplayComponent
+              recipe={adaptation?.recipe ?? recipe}
+              measurementProfile={measurementProfile}
+              isStreaming={isGenerating}
+              onSaveRecipe={handleSaveRecipe}
+              isSaved={savedRecipeId !== null}
+              substitutions={adaptation?.substitutions}
+              instructionChanges={adaptation?.instructionChanges}
+              locale={locale}
+            />
+
+            {recipeId && !isGenerating && (
+              <RecipeFeedbackComponent
+                key={recipeId}
+                recipeId={recipeId}
+                instructions={recipe.instructions}
+              />
+            )}
             
             {/* Try Another Button */}
-            <div className="text-center">
+            <div className="text-center print:hidden">
               <button
                 onClick={handleNewRecipe}
-                className="bg-gray-600 text-white px-6 py-2 rounded-md hover:bg-gray-700 transition-colors"
+                disabled={isGenerating}
+                className="bg-gray-600 text-white px-6 py-2 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Generate Another Recipe
+                {t('home.generateAnother')}
               </button>
             </div>
           </div>
@@ -151,10 +435,10 @@ export default function Home() {
       </main>
 
       {/* Footer */}
-      <footer className="bg-white border-t mt-12">
+      <footer className="bg-white border-t mt-12 print:hidden">
         <div className="max-w-4xl mx-auto px-4 py-6">
           <p className="text-center text-sm text-gray-500">
-            Powered by OpenAI GPT-4 Vision • Upload food images to generate recipes instantly
+            {t('home.footer')}
           </p>
         </div>
       </footer>
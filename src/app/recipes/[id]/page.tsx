@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import RecipeDisplayComponent from '@/components/RecipeDisplayComponent';
+import UnitSelector from '@/components/UnitSelector';
+import { MeasurementProfile, SavedRecipe, SavedRecipeResponse } from '@/types/recipe';
+import { detectUserMeasurementProfile, getMeasurementProfile, getProfileUnitSystem } from '@/utils/unitUtils';
+
+export default function SavedRecipePage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [recipe, setRecipe] = useState<SavedRecipe | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [measurementProfile, setMeasurementProfile] = useState<MeasurementProfile>(() => getMeasurementProfile('imperial'));
+
+  useEffect(() => {
+    const loadRecipe = async () => {
+      try {
+        const response = await fetch(`/api/recipes/${id}`);
+        const result: SavedRecipeResponse = await response.json();
+
+        if (result.success && result.recipe) {
+          setRecipe(result.recipe);
+          // Keep the recipe's unit system, in the cook's own flavor of it when it matches
+          const unitSystem = result.recipe.unitSystem || 'imperial';
+          const detected = detectUserMeasurementProfile();
+          setMeasurementProfile(getProfileUnitSystem(detected) === unitSystem ? detected : getMeasurementProfile(unitSystem));
+        } else {
+          setError(result.error || 'Failed to load recipe');
+        }
+      } catch (err) {
+        setError('Network error. Please check your connection and try again.');
+        console.error('Recipe load error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecipe();
+  }, [id]);
+
+  const handleSaveRecipe = async () => {
+    if (!recipe) return;
+
+    const response = await fetch(`/api/recipes/${recipe.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ recipe }),
+    });
+
+    const result: SavedRecipeResponse = await response.json();
+
+    if (!result.success || !result.recipe) {
+      throw new Error(result.error || 'Failed to update recipe');
+    }
+
+    setRecipe(result.recipe);
+  };
+
+  const handleDeleteRecipe = async () => {
+    try {
+      const response = await fetch(`/api/recipes/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Delete failed with status ${response.status}`);
+      }
+      router.push('/recipes');
+    } catch (err) {
+      setError('Failed to delete recipe. Please try again.');
+      console.error('Recipe delete error:', err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6 print:p-0">
+        <Link href="/recipes" className="inline-block text-sm font-medium text-blue-600 hover:text-blue-700 print:hidden">
+          ← Back to saved recipes
+        </Link>
+
+        {error && (
+          <div className="max-w-md mx-auto bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 text-gray-600">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="text-sm">Loading recipe...</span>
+          </div>
+        )}
+
+        {recipe && (
+          <>
+            <div className="w-full max-w-2xl mx-auto print:hidden">
+              <UnitSelector
+                profile={measurementProfile}
+                onProfileChange={setMeasurementProfile}
+              />
+            </div>
+            <RecipeDisplayComponent
+              recipe={recipe}
+              measurementProfile={measurementProfile}
+              onSaveRecipe={handleSaveRecipe}
+              isSaved
+            />
+            <div className="text-center print:hidden">
+              <button
+                onClick={handleDeleteRecipe}
+                className="text-red-600 border border-red-200 px-6 py-2 rounded-md hover:bg-red-50 transition-colors"
+              >
+                Delete Recipe
+              </button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
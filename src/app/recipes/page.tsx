@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ImportRecipesResponse, SavedRecipe, SavedRecipeListResponse } from '@/types/recipe';
+
+export default function RecipeLibraryPage() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRecipes = async () => {
+      try {
+        const response = await fetch('/api/recipes');
+        const result: SavedRecipeListResponse = await response.json();
+
+        if (result.success && result.recipes) {
+          setRecipes(result.recipes);
+        } else {
+          setError(result.error || 'Failed to load saved recipes');
+        }
+      } catch (err) {
+        setError('Network error. Please check your connection and try again.');
+        console.error('Recipe library error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecipes();
+  }, []);
+
+  const deleteRecipe = async (id: string) => {
+    try {
+      const response = await fetch(`/api/recipes/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Delete failed with status ${response.status}`);
+      }
+      setRecipes(current => current.filter(recipe => recipe.id !== id));
+    } catch (err) {
+      setError('Failed to delete recipe. Please try again.');
+      console.error('Recipe delete error:', err);
+    }
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setImportMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/recipes/import', {
+        method: 'POST',
+        body: formData,
+      });
+      const result: ImportRecipesResponse = await response.json();
+
+      if (!result.success || !result.recipes) {
+        setError(result.error || 'Failed to import recipes');
+        return;
+      }
+
+      const imported = result.recipes;
+      setRecipes(current => [...imported, ...current]);
+      setImportMessage(
+        `Imported ${imported.length} ${imported.length === 1 ? 'recipe' : 'recipes'}` +
+        (result.skipped ? ` (${result.skipped} incomplete ${result.skipped === 1 ? 'recipe was' : 'recipes were'} skipped)` : '')
+      );
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Recipe import error:', err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">My Saved Recipes</h1>
+            <p className="text-gray-600 mt-2">
+              Recipes you have saved from your food photos
+            </p>
+            <Link href="/" className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Generate a new recipe
+            </Link>
+            <Link href="/shopping-list" className="inline-block mt-3 ml-6 text-sm font-medium text-blue-600 hover:text-blue-700">
+              Shopping List →
+            </Link>
+            <Link href="/feedback" className="inline-block mt-3 ml-6 text-sm font-medium text-blue-600 hover:text-blue-700">
+              Feedback →
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {/* Import */}
+        <div className="max-w-md mx-auto mb-6 text-center">
+          <label className={`inline-block py-2 px-4 rounded-md text-sm font-medium border border-blue-600 text-blue-600 transition-colors ${
+            isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-blue-50'
+          }`}>
+            {isImporting ? 'Importing...' : 'Import Recipes'}
+            <input
+              type="file"
+              accept=".jsonld,.json,.html,.htm,.cook,.paprikarecipes,.paprikarecipe"
+              onChange={importFile}
+              disabled={isImporting}
+              className="hidden"
+            />
+          </label>
+          <p className="text-xs text-gray-500 mt-2">
+            schema.org JSON-LD (or a recipe web page), Cooklang and Paprika files
+          </p>
+          {importMessage && (
+            <p className="text-sm text-green-600 mt-2">{importMessage}</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="max-w-md mx-auto mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-gray-600">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="text-sm">Loading recipes...</span>
+          </div>
+        ) : recipes.length === 0 ? (
+          <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+            <p className="text-gray-600">You have not saved any recipes yet.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {recipes.map(recipe => (
+              <div key={recipe.id} className="bg-white rounded-lg shadow-sm p-5 flex flex-col">
+                <h2 className="text-lg font-semibold text-gray-900">{recipe.title}</h2>
+                {recipe.description && (
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2">{recipe.description}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-2">
+                  {recipe.ingredients.length} ingredients • Saved {new Date(recipe.updatedAt).toLocaleDateString()}
+                </p>
+                <div className="flex gap-3 mt-4">
+                  <Link
+                    href={`/recipes/${recipe.id}`}
+                    className="flex-1 text-center bg-blue-600 text-white py-2 px-4 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    View
+                  </Link>
+                  <button
+                    onClick={() => deleteRecipe(recipe.id)}
+                    className="py-2 px-4 rounded-md text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
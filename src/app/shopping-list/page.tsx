@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { MeasurementProfile, SavedRecipe, SavedRecipeListResponse } from '@/types/recipe';
+import UnitSelector from '@/components/UnitSelector';
+import { detectUserMeasurementProfile, getMeasurementProfile } from '@/utils/unitUtils';
+import { downloadFile } from '@/utils/download';
+import {
+  buildShoppingList,
+  formatShoppingItem,
+  formatShoppingListCsv,
+  formatShoppingListText,
+  groupShoppingList
+} from '@/utils/shoppingList';
+
+// The list is rebuilt from these on every visit, so a half-done shop survives a reload
+const SELECTED_RECIPES_KEY = 'shoppingList.recipeIds';
+const CHECKED_ITEMS_KEY = 'shoppingList.checkedItems';
+
+function loadStoredSet(key: string): Set<string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '[]');
+    return new Set(Array.isArray(stored) ? stored.filter(value => typeof value === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function storeSet(key: string, values: Set<string>) {
+  try {
+    localStorage.setItem(key, JSON.stringify([...values]));
+  } catch (err) {
+    console.error('Shopping list storage error:', err);
+  }
+}
+
+export default function ShoppingListPage() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
+  const [measurementProfile, setMeasurementProfile] = useState<MeasurementProfile>(() => getMeasurementProfile('imperial'));
+
+  useEffect(() => {
+    setMeasurementProfile(detectUserMeasurementProfile());
+    setSelectedIds(loadStoredSet(SELECTED_RECIPES_KEY));
+    setCheckedItems(loadStoredSet(CHECKED_ITEMS_KEY));
+
+    const loadRecipes = async () => {
+      try {
+        const response = await fetch('/api/recipes');
+        const result: SavedRecipeListResponse = await response.json();
+
+        if (result.success && result.recipes) {
+          setRecipes(result.recipes);
+        } else {
+          setError(result.error || 'Failed to load saved recipes');
+        }
+      } catch (err) {
+        setError('Network error. Please check your connection and try again.');
+        console.error('Shopping list error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecipes();
+  }, []);
+
+  const sections = useMemo(() => {
+    const selected = recipes.filter(recipe => selectedIds.has(recipe.id));
+    return groupShoppingList(buildShoppingList(selected, measurementProfile));
+  }, [recipes, selectedIds, measurementProfile]);
+
+  const itemCount = sections.reduce((count, section) => count + section.items.length, 0);
+  const checkedCount = sections.reduce(
+    (count, section) => count + section.items.filter(item => checkedItems.has(item.key)).length,
+    0
+  );
+
+  const toggleRecipe = (id: string) => {
+    const newSelected = new Set(selectedIds);
+    if (newSelected.has(id)) {
+      newSelected.delete(id);
+    } else {
+      newSelected.add(id);
+    }
+    setSelectedIds(newSelected);
+    storeSet(SELECTED_RECIPES_KEY, newSelected);
+  };
+
+  const toggleItem = (key: string) => {
+    const newChecked = new Set(checkedItems);
+    if (newChecked.has(key)) {
+      newChecked.delete(key);
+    } else {
+      newChecked.add(key);
+    }
+    setCheckedItems(newChecked);
+    storeSet(CHECKED_ITEMS_KEY, newChecked);
+  };
+
+  const clearChecked = () => {
+    setCheckedItems(new Set());
+    storeSet(CHECKED_ITEMS_KEY, new Set());
+  };
+
+  const downloadText = () => {
+    const text = formatShoppingListText(sections, checkedItems);
+    downloadFile(new Blob([text], { type: 'text/plain' }), 'shopping-list.txt');
+  };
+
+  const downloadCsv = () => {
+    const csv = formatShoppingListCsv(sections, checkedItems);
+    downloadFile(new Blob([csv], { type: 'text/csv' }), 'shopping-list.csv');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Shopping List</h1>
+            <p className="text-gray-600 mt-2">
+              Everything you need for the recipes you pick, in one list
+            </p>
+            <Link href="/recipes" className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-700">
+              ← Back to saved recipes
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {error && (
+          <div className="max-w-md mx-auto mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-gray-600">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="text-sm">Loading recipes...</span>
+          </div>
+        ) : recipes.length === 0 ? (
+          <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+            <p className="text-gray-600">Save some recipes first, then pick them here.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            {/* Recipe selection */}
+            <div className="space-y-6">
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Recipes</h2>
+                <ul className="space-y-2">
+                  {recipes.map(recipe => (
+                    <li key={recipe.id}>
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(recipe.id)}
+                          onChange={() => toggleRecipe(recipe.id)}
+                          className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <span className="text-sm text-gray-700">{recipe.title}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <UnitSelector profile={measurementProfile} onProfileChange={setMeasurementProfile} />
+              </div>
+            </div>
+
+            {/* Merged list */}
+            <div className="md:col-span-2 bg-white rounded-lg shadow-sm p-5">
+              {itemCount === 0 ? (
+                <p className="text-gray-600 text-center">Pick one or more recipes to build your list.</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <p className="text-sm text-gray-500">
+                      {checkedCount} of {itemCount} items checked off
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={downloadText}
+                        className="py-1.5 px-3 rounded-md text-sm font-medium border border-blue-600 text-blue-600 hover:bg-blue-50 transition-colors"
+                      >
+                        Download Text
+                      </button>
+                      <button
+                        onClick={downloadCsv}
+                        className="py-1.5 px-3 rounded-md text-sm font-medium border border-blue-600 text-blue-600 hover:bg-blue-50 transition-colors"
+                      >
+                        Download CSV
+                      </button>
+                      {checkedCount > 0 && (
+                        <button
+                          onClick={clearChecked}
+                          className="py-1.5 px-3 rounded-md text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-50 transition-colors"
+                        >
+                          Clear checked
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {sections.map(section => (
+                    <div key={section.aisle} className="mb-5 last:mb-0">
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                        {section.label}
+                      </h3>
+                      <ul className="space-y-2">
+                        {section.items.map(item => (
+                          <li key={item.key} className="flex items-start gap-3">
+                            <input
+                              type="checkbox"
+                              checked={checkedItems.has(item.key)}
+                              onChange={() => toggleItem(item.key)}
+                              className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                            />
+                            <div className={checkedItems.has(item.key) ? 'line-through text-gray-400' : 'text-gray-700'}>
+                              {formatShoppingItem(item)}
+                              {item.recipeTitles.length > 1 && (
+                                <span className="block text-xs text-gray-400">
+                                  {item.recipeTitles.join(', ')}
+                                </span>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,478 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Locale, Recipe } from '@/types/recipe';
+import { findStepDurations, formatCountdown, formatDurationText } from '@/utils/durationUtils';
+import { formatTemperature } from '@/utils/recipeSteps';
+import { CookModeCommand, parseVoiceCommand, SPEECH_RECOGNITION_LANGUAGES } from '@/utils/cookMode';
+
+interface CookModeComponentProps {
+  recipe: Recipe;
+  initialStep?: number;
+  onClose: () => void;
+  // Language of the recipe, which voice commands are listened for in
+  locale?: Locale;
+}
+
+interface CookTimer {
+  id: number;
+  step: number;
+  label: string;
+  // Epoch milliseconds the timer goes off; null while paused
+  endsAt: number | null;
+  // Seconds left when paused
+  remaining: number;
+  finished: boolean;
+}
+
+// The Web Speech API is not in the DOM typings and only some browsers have it
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+function timeLeft(timer: CookTimer, now: number): number {
+  return timer.endsAt === null ? timer.remaining : Math.max(0, (timer.endsAt - now) / 1000);
+}
+
+/**
+ * Beep, vibrate and, when the page is in the background, notify
+ */
+function raiseTimerAlert(label: string) {
+  const AudioContextClass = window.AudioContext
+    || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (AudioContextClass) {
+    const context = new AudioContextClass();
+    [0, 0.4, 0.8].forEach(offset => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.25);
+    });
+    setTimeout(() => context.close(), 1500);
+  }
+
+  navigator.vibrate?.([300, 150, 300]);
+
+  if (document.visibilityState === 'hidden' && 'Notification' in window && Notification.permission === 'granted') {
+    new Notification('Timer done', { body: label });
+  }
+}
+
+export default function CookModeComponent({ recipe, initialStep = 0, onClose, locale = 'en' }: CookModeComponentProps) {
+  const stepCount = recipe.instructions.length;
+  const [step, setStep] = useState(Math.min(Math.max(initialStep, 0), Math.max(stepCount - 1, 0)));
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [isScreenKeptOn, setIsScreenKeptOn] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [heard, setHeard] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const commandRef = useRef<(command: CookModeCommand) => void>(() => {});
+  const nextTimerId = useRef(1);
+
+  const instruction = recipe.instructions[step] ?? '';
+  const details = recipe.stepDetails?.[step];
+  // Times written in the step first; otherwise the step's structured duration
+  const textDurations = findStepDurations(instruction);
+  const durations = textDurations.length === 0 && details?.duration
+    ? [{ text: formatDurationText(details.duration), seconds: details.duration * 60 }]
+    : textDurations;
+  const isLastStep = step >= stepCount - 1;
+  const canListen = getSpeechRecognition() !== null;
+
+  // Full screen where the browser allows it; the overlay covers the page either way
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  // Keep the screen awake; the lock is dropped whenever the tab is hidden, so take it again
+  useEffect(() => {
+    let sentinel: WakeLockSentinel | null = null;
+    let active = true;
+
+    const requestWakeLock = async () => {
+      if (!('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
+      try {
+        sentinel = await navigator.wakeLock.request('screen');
+        if (!active) {
+          sentinel.release();
+          return;
+        }
+        setIsScreenKeptOn(true);
+        sentinel.addEventListener('release', () => setIsScreenKeptOn(false));
+      } catch (err) {
+        console.error('Wake lock error:', err);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') requestWakeLock();
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      active = false;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release();
+    };
+  }, []);
+
+  // Tick only while a timer is counting down
+  const hasRunningTimer = timers.some(timer => timer.endsAt !== null && !timer.finished);
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  useEffect(() => {
+    const done = timers.filter(timer => !timer.finished && timer.endsAt !== null && timer.endsAt <= now);
+    if (done.length === 0) return;
+
+    done.forEach(timer => raiseTimerAlert(`Step ${timer.step + 1}: ${timer.label}`));
+    setTimers(current => current.map(timer => done.some(entry => entry.id === timer.id) ? { ...timer, finished: true } : timer));
+  }, [now, timers]);
+
+  const readAloud = useCallback((text: string) => {
+    if (!('speechSynthesis' in window)) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = SPEECH_RECOGNITION_LANGUAGES[locale];
+    window.speechSynthesis.speak(utterance);
+  }, [locale]);
+
+  const startTimer = (label: string, seconds: number) => {
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers(current => [
+      ...current,
+      { id: nextTimerId.current++, step, label, endsAt: startedAt + seconds * 1000, remaining: seconds, finished: false }
+    ]);
+  };
+
+  const togglePause = (id: number) => {
+    const current = Date.now();
+    setNow(current);
+    setTimers(timers.map(timer => {
+      if (timer.id !== id) return timer;
+      return timer.endsAt === null
+        ? { ...timer, endsAt: current + timer.remaining * 1000 }
+        : { ...timer, endsAt: null, remaining: timeLeft(timer, current) };
+    }));
+  };
+
+  const removeTimer = (id: number) => {
+    setTimers(timers.filter(timer => timer.id !== id));
+  };
+
+  const close = () => {
+    if (timers.some(timer => !timer.finished) && !window.confirm('Timers are still running. Leave cook mode and stop them?')) return;
+    onClose();
+  };
+
+  const goToStep = (target: number) => {
+    setStep(Math.min(Math.max(target, 0), stepCount - 1));
+  };
+
+  // Handlers change every render; keyboard and voice listeners call the latest one
+  commandRef.current = (command: CookModeCommand) => {
+    switch (command) {
+      case 'next':
+        if (isLastStep) close(); else goToStep(step + 1);
+        break;
+      case 'previous':
+        goToStep(step - 1);
+        break;
+      case 'repeat':
+        readAloud(instruction);
+        break;
+      case 'timer':
+        if (durations.length > 0) startTimer(durations[0].text, durations[0].seconds);
+        break;
+      case 'exit':
+        close();
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+      const commands: Record<string, CookModeCommand> = {
+        ArrowRight: 'next',
+        ArrowDown: 'next',
+        PageDown: 'next',
+        ' ': 'next',
+        ArrowLeft: 'previous',
+        ArrowUp: 'previous',
+        PageUp: 'previous',
+        r: 'repeat',
+        t: 'timer',
+        Escape: 'exit'
+      };
+      const command = commands[event.key];
+      if (command) {
+        event.preventDefault();
+        commandRef.current(command);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Stop listening when cook mode closes
+  useEffect(() => () => {
+    const recognition = recognitionRef.current;
+    recognitionRef.current = null;
+    recognition?.stop();
+  }, []);
+
+  const toggleListening = () => {
+    if (recognitionRef.current) {
+      const recognition = recognitionRef.current;
+      recognitionRef.current = null;
+      recognition.stop();
+      setIsListening(false);
+      return;
+    }
+
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = SPEECH_RECOGNITION_LANGUAGES[locale];
+    recognition.onresult = event => {
+      const result = event.results[event.resultIndex];
+      const transcript = result?.[0]?.transcript ?? '';
+      const command = parseVoiceCommand(transcript, locale);
+      setHeard(transcript.trim());
+      if (command) commandRef.current(command);
+    };
+    recognition.onerror = event => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        recognitionRef.current = null;
+        setIsListening(false);
+        setVoiceError('Microphone access was denied. Use the buttons or the keyboard instead.');
+      }
+    };
+    // Browsers end recognition after a pause; keep going until the cook turns it off
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) {
+        try {
+          recognition.start();
+        } catch {
+          recognitionRef.current = null;
+          setIsListening(false);
+        }
+      }
+    };
+
+    try {
+      recognition.start();
+      recognitionRef.current = recognition;
+      setIsListening(true);
+      setVoiceError(null);
+    } catch (err) {
+      setVoiceError('Voice commands could not be started.');
+      console.error('Speech recognition error:', err);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cook mode: ${recipe.title}`}
+      className="fixed inset-0 z-50 flex flex-col bg-white print:hidden"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 border-b border-gray-200 px-4 py-3">
+        <div className="min-w-0">
+          <h2 className="truncate text-lg font-semibold text-gray-900">{recipe.title}</h2>
+          <p className="text-sm text-gray-500">
+            Step {step + 1} of {stepCount}
+            <span className="ml-3 text-xs">{isScreenKeptOn ? 'Screen stays on' : 'Screen may turn off'}</span>
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 gap-2">
+          <button
+            onClick={() => setShowIngredients(!showIngredients)}
+            className={`py-2 px-3 rounded-md text-sm font-medium border transition-colors ${
+              showIngredients ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            Ingredients
+          </button>
+          {canListen && (
+            <button
+              onClick={toggleListening}
+              aria-pressed={isListening}
+              className={`py-2 px-3 rounded-md text-sm font-medium border transition-colors ${
+                isListening ? 'bg-red-50 border-red-300 text-red-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {isListening ? 'Listening...' : 'Voice'}
+            </button>
+          )}
+          <button
+            onClick={close}
+            className="py-2 px-3 rounded-md text-sm font-medium bg-gray-800 text-white hover:bg-gray-900 transition-colors"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+
+      {/* Progress */}
+      <div className="h-1.5 bg-gray-100">
+        <div
+          className="h-full bg-blue-600 transition-all"
+          style={{ width: `${stepCount > 0 ? ((step + 1) / stepCount) * 100 : 0}%` }}
+        ></div>
+      </div>
+
+      {/* Current step */}
+      <div className="flex-1 overflow-y-auto px-6 py-8">
+        <div className="mx-auto max-w-3xl">
+          {showIngredients && (
+            <ul className="mb-8 grid gap-1 rounded-lg bg-gray-50 p-4 text-base text-gray-700 sm:grid-cols-2">
+              {recipe.ingredients.map((ingredient, index) => (
+                <li key={index}>
+                  <span className="font-medium">{ingredient.quantity} {ingredient.unit}</span> {ingredient.name}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-2xl leading-relaxed text-gray-900 sm:text-4xl sm:leading-snug">{instruction}</p>
+
+          {(details?.temperature || details?.equipment) && (
+            <p className="mt-4 text-lg text-gray-500">
+              {[details.temperature && formatTemperature(details.temperature), ...(details.equipment ?? [])]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          )}
+
+          {durations.length > 0 && (
+            <div className="mt-8 flex flex-wrap gap-3">
+              {durations.map((duration, index) => (
+                <button
+                  key={index}
+                  onClick={() => startTimer(duration.text, duration.seconds)}
+                  className="py-3 px-5 rounded-full text-lg font-medium bg-amber-100 text-amber-900 hover:bg-amber-200 transition-colors"
+                >
+                  Start {duration.text} timer
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="mt-10 text-sm text-gray-400">
+            Keys: → next, ← back, T timer, R read aloud, Esc exit
+            {canListen && ' · Say "next", "back", "repeat", "start timer" or "exit"'}
+          </p>
+          {heard && isListening && (
+            <p className="mt-1 text-sm text-gray-500">Heard: “{heard}”</p>
+          )}
+          {voiceError && (
+            <p className="mt-1 text-sm text-red-600">{voiceError}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Timers run on while moving between steps */}
+      {timers.length > 0 && (
+        <div className="border-t border-gray-200 bg-gray-50 px-4 py-3">
+          <ul className="mx-auto flex max-w-3xl flex-wrap gap-3">
+            {timers.map(timer => (
+              <li
+                key={timer.id}
+                className={`flex items-center gap-3 rounded-lg border px-3 py-2 ${
+                  timer.finished ? 'animate-pulse border-red-300 bg-red-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <div>
+                  <div className={`font-mono text-2xl ${timer.finished ? 'text-red-700' : 'text-gray-900'}`}>
+                    {timer.finished ? 'Done!' : formatCountdown(timeLeft(timer, now))}
+                  </div>
+                  <div className="text-xs text-gray-500">Step {timer.step + 1} · {timer.label}</div>
+                </div>
+                {!timer.finished && (
+                  <button
+                    onClick={() => togglePause(timer.id)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {timer.endsAt === null ? 'Resume' : 'Pause'}
+                  </button>
+                )}
+                <button
+                  onClick={() => removeTimer(timer.id)}
+                  className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                  {timer.finished ? 'Dismiss' : 'Cancel'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Navigation */}
+      <div className="grid grid-cols-2 gap-3 border-t border-gray-200 p-4">
+        <button
+          onClick={() => goToStep(step - 1)}
+          disabled={step === 0}
+          className="h-20 rounded-lg text-xl font-semibold border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          ← Back
+        </button>
+        <button
+          onClick={() => isLastStep ? close() : goToStep(step + 1)}
+          className="h-20 rounded-lg text-xl font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          {isLastStep ? 'Finish' : 'Next →'}
+        </button>
+      </div>
+    </div>
+  );
+}
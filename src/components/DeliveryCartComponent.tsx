@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Ingredient, UnitSystem } from '@/types/recipe';
+import { BuildCartResponse, DeliveryCart, DeliveryOrder, PackSize, SubmitOrderResponse } from '@/types/delivery';
+
+interface DeliveryCartComponentProps {
+  ingredients: Ingredient[];
+  unitSystem?: UnitSystem;
+}
+
+function formatPackSize(size: PackSize): string {
+  if (size.unit) return `${size.quantity} ${size.unit}`;
+  return size.quantity === 1 ? 'each' : `pack of ${size.quantity}`;
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export default function DeliveryCartComponent({ ingredients, unitSystem }: DeliveryCartComponentProps) {
+  const [cart, setCart] = useState<DeliveryCart | null>(null);
+  const [deselectedSkus, setDeselectedSkus] = useState<Set<string>>(new Set());
+  const [order, setOrder] = useState<DeliveryOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A cart is built for one set of amounts; start over when they change
+  useEffect(() => {
+    setCart(null);
+    setOrder(null);
+    setError(null);
+  }, [ingredients]);
+
+  const buildCart = async () => {
+    setIsLoading(true);
+    setError(null);
+    setOrder(null);
+
+    try {
+      const response = await fetch('/api/delivery/cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ingredients, unitSystem }),
+      });
+      const result: BuildCartResponse = await response.json();
+
+      if (result.success && result.cart) {
+        setCart(result.cart);
+        setDeselectedSkus(new Set());
+      } else {
+        setError(result.error || 'Failed to build the cart');
+      }
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Delivery cart error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleLine = (sku: string) => {
+    const newDeselected = new Set(deselectedSkus);
+    if (newDeselected.has(sku)) {
+      newDeselected.delete(sku);
+    } else {
+      newDeselected.add(sku);
+    }
+    setDeselectedSkus(newDeselected);
+  };
+
+  const selectedLines = cart ? cart.lines.filter(line => !deselectedSkus.has(line.sku)) : [];
+  const selectedTotal = selectedLines.reduce((sum, line) => sum + line.packs * line.unitPrice, 0);
+
+  const placeOrder = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/delivery/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: selectedLines.map(line => ({ sku: line.sku, packs: line.packs })) }),
+      });
+      const result: SubmitOrderResponse = await response.json();
+
+      if (result.success && result.order) {
+        setOrder(result.order);
+      } else {
+        setError(result.error || 'Failed to place the order');
+      }
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Delivery order error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 print:hidden">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Grocery delivery</h2>
+        {!order?.orderId && (
+          <button
+            onClick={buildCart}
+            disabled={isLoading}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading && !cart ? 'Building cart...' : cart ? 'Rebuild cart' : 'Order for delivery'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-2">{error}</p>
+      )}
+
+      {order ? (
+        <div className={`rounded-md border p-3 text-sm ${
+          order.status === 'confirmed' ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {order.status === 'confirmed' ? (
+            <>
+              <p className="font-medium">
+                Order {order.orderId} confirmed • {formatPrice(order.total)}
+              </p>
+              {order.estimatedDelivery && (
+                <p className="text-xs mt-1">
+                  Arriving around {new Date(order.estimatedDelivery).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="font-medium">{order.message || 'The order could not be placed.'}</p>
+          )}
+          {order.substitutions.length > 0 && (
+            <ul className="text-xs mt-2 space-y-0.5">
+              {order.substitutions.map(substitution => (
+                <li key={substitution.sku}>
+                  Substituted: {substitution.productName} → {substitution.replacementName}
+                </li>
+              ))}
+            </ul>
+          )}
+          {order.outOfStock.length > 0 && (
+            <p className="text-xs mt-2">
+              Out of stock: {order.outOfStock.map(line => line.productName).join(', ')}
+            </p>
+          )}
+        </div>
+      ) : cart && (
+        <>
+          <p className="text-xs text-gray-500 mb-2">Untick anything you already have.</p>
+          <ul className="divide-y divide-gray-100 border-y border-gray-100">
+            {cart.lines.map(line => (
+              <li key={line.sku} className="py-2">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!deselectedSkus.has(line.sku)}
+                    onChange={() => toggleLine(line.sku)}
+                    className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className={`flex-1 text-sm ${deselectedSkus.has(line.sku) ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+                    {line.packs} × {line.productName} ({formatPackSize(line.size)})
+                    <span className="block text-xs text-gray-500">
+                      For {line.neededFor.join(', ')}
+                    </span>
+                  </span>
+                  <span className="text-sm text-gray-700">{formatPrice(line.packs * line.unitPrice)}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          {cart.unmatched.length > 0 && (
+            <p className="text-xs text-gray-600 mt-2">
+              Not available for delivery: {cart.unmatched.join(', ')}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-sm font-medium text-gray-900">Total {formatPrice(selectedTotal)}</span>
+            <button
+              onClick={placeOrder}
+              disabled={isLoading || selectedLines.length === 0}
+              className="py-2 px-4 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? 'Placing order...' : 'Place Order'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DishCandidate } from '@/types/recipe';
+
+interface DishConfirmationComponentProps {
+  candidates: DishCandidate[];
+  onConfirm: (dishName: string) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+export default function DishConfirmationComponent({
+  candidates,
+  onConfirm,
+  onSkip,
+  onCancel
+}: DishConfirmationComponentProps) {
+  const [selected, setSelected] = useState<string>(candidates[0]?.name || '');
+  const [customName, setCustomName] = useState('');
+  const [useCustomName, setUseCustomName] = useState(candidates.length === 0);
+
+  const dishName = useCustomName ? customName.trim() : selected;
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Is this the right dish?</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Confirm or correct the dish before the full recipe is generated.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {candidates.map(candidate => (
+          <label
+            key={candidate.name}
+            className={`block rounded-lg border p-3 cursor-pointer transition-colors ${
+              !useCustomName && selected === candidate.name
+                ? 'border-blue-500 bg-blue-50'
+                : 'border-gray-300 hover:border-blue-300'
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              <input
+                type="radio"
+                name="dish-candidate"
+                className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                checked={!useCustomName && selected === candidate.name}
+                onChange={() => {
+                  setSelected(candidate.name);
+                  setUseCustomName(false);
+                }}
+              />
+              <div className="flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900">{candidate.name}</span>
+                  <span className="text-xs text-gray-500">{Math.round(candidate.confidence * 100)}%</span>
+                </div>
+                <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${Math.round(candidate.confidence * 100)}%` }}
+                  ></div>
+                </div>
+                {candidate.components.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Visible: {candidate.components.join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          </label>
+        ))}
+
+        <label
+          className={`block rounded-lg border p-3 cursor-pointer transition-colors ${
+            useCustomName ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-300'
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <input
+              type="radio"
+              name="dish-candidate"
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+              checked={useCustomName}
+              onChange={() => setUseCustomName(true)}
+            />
+            <input
+              type="text"
+              value={customName}
+              onChange={event => {
+                setCustomName(event.target.value);
+                setUseCustomName(true);
+              }}
+              placeholder="Something else? Type the dish name"
+              maxLength={100}
+              className="flex-1 text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </label>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onConfirm(dishName)}
+          disabled={!dishName}
+          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Generate Recipe
+        </button>
+        <button
+          onClick={onSkip}
+          className="py-2 px-4 rounded-md font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors"
+        >
+          Skip
+        </button>
+      </div>
+      <button
+        onClick={onCancel}
+        className="w-full text-sm text-gray-500 hover:text-gray-700"
+      >
+        Choose different photos
+      </button>
+    </div>
+  );
+}
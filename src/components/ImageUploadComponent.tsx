@@ -1,79 +1,134 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import Image from 'next/image';
-import { useDropzone } from 'react-dropzone';
-import { validateImageFile, compressImage } from '@/utils/imageUtils';
-import { UnitSystem } from '@/types/recipe';
+import { useDropzone, FileRejection } from 'react-dropzone';
+import { validateImageFile, compressImage, MAX_IMAGES_PER_RECIPE } from '@/utils/imageUtils';
+import { Locale, MeasurementProfile } from '@/types/recipe';
+import { MAX_IMAGE_BYTES } from '@/utils/imageValidation';
+import { getTranslator } from '@/lib/i18n';
 import UnitSelector from '@/components/UnitSelector';
 
 interface ImageUploadComponentProps {
-  onImageUpload: (base64: string) => void;
+  onImageUpload: (images: string[]) => void;
   isUploading?: boolean;
-  unitSystem: UnitSystem;
-  onUnitSystemChange: (unit: UnitSystem) => void;
+  measurementProfile: MeasurementProfile;
+  onMeasurementProfileChange: (profile: MeasurementProfile) => void;
+  locale?: Locale;
+}
+
+interface SelectedImage {
+  id: string;
+  file: File;
+  previewUrl: string;
 }
 
 export default function ImageUploadComponent({ 
   onImageUpload, 
   isUploading = false,
-  unitSystem,
-  onUnitSystemChange
+  measurementProfile,
+  onMeasurementProfileChange,
+  locale = 'en'
 }: ImageUploadComponentProps) {
-  const [preview, setPreview] = useState<string | null>(null);
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const [images, setImages] = useState<SelectedImage[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const imagesRef = useRef<SelectedImage[]>([]);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+  const remainingSlots = MAX_IMAGES_PER_RECIPE - images.length;
 
+  // Release preview URLs when the component goes away
+  useEffect(() => {
+    imagesRef.current = images;
+  }, [images]);
+  useEffect(() => () => {
+    imagesRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl));
+  }, []);
+
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
     // Clear previous error
     setError(null);
 
-    // Validate file
-    const validation = validateImageFile(file);
-    if (!validation.valid) {
-      setError(validation.error || 'Invalid file');
+    if (fileRejections.some(rejection => rejection.errors.some(e => e.code === 'too-many-files'))) {
+      setError(t('upload.tooMany', { max: MAX_IMAGES_PER_RECIPE }));
       return;
     }
 
-    try {
-      // Create preview
-      const previewUrl = URL.createObjectURL(file);
-      setPreview(previewUrl);
-
-      // Compress and convert to base64
-      const base64 = await compressImage(file);
-      onImageUpload(base64);
-    } catch (err) {
-      setError('Failed to process image. Please try again.');
-      console.error('Image processing error:', err);
+    const added: SelectedImage[] = [];
+    for (const file of acceptedFiles) {
+      // Validate each file on its own so one bad photo does not block the rest
+      const validation = await validateImageFile(file);
+      if (!validation.valid) {
+        setError(`${file.name}: ${validation.error || t('upload.invalidFile')}`);
+        continue;
+      }
+      added.push({
+        id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        file,
+        previewUrl: URL.createObjectURL(file)
+      });
     }
-  }, [onImageUpload]);
+
+    setImages(current => {
+      const room = MAX_IMAGES_PER_RECIPE - current.length;
+      added.slice(room).forEach(image => URL.revokeObjectURL(image.previewUrl));
+      return [...current, ...added.slice(0, room)];
+    });
+  }, [t]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.webp']
     },
-    maxFiles: 1,
-    disabled: isUploading
+    maxFiles: Math.max(remainingSlots, 1),
+    multiple: true,
+    disabled: isUploading || remainingSlots <= 0
   });
 
-  const clearImage = () => {
-    setPreview(null);
+  const removeImage = (id: string) => {
+    setImages(current => {
+      const removed = current.find(image => image.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return current.filter(image => image.id !== id);
+    });
     setError(null);
   };
 
+  const moveImage = (index: number, direction: -1 | 1) => {
+    setImages(current => {
+      const target = index + direction;
+      if (target < 0 || target >= current.length) return current;
+
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const generateRecipe = async () => {
+    if (images.length === 0) return;
+
+    try {
+      // Compress and convert to base64, keeping the user's order
+      const base64Images = await Promise.all(images.map(image => compressImage(image.file)));
+      onImageUpload(base64Images);
+    } catch (err) {
+      setError(t('upload.processFailed'));
+      console.error('Image processing error:', err);
+    }
+  };
+
   return (
     <div className="w-full max-w-md mx-auto space-y-6">
       {/* Unit System Selector */}
       <UnitSelector 
-        selectedUnit={unitSystem}
-        onUnitChange={onUnitSystemChange}
+        profile={measurementProfile}
+        onProfileChange={onMeasurementProfileChange}
+        locale={locale}
       />
       
-      {!preview ? (
+      {remainingSlots > 0 && (
         <div
           {...getRootProps()}
           className={`
@@ -105,58 +160,87 @@ export default function ImageUploadComponent({
             </div>
             <div>
               <p className="text-lg font-medium text-gray-900">
-                {isDragActive ? 'Drop your food image here' : 'Upload a food image'}
+                {isDragActive
+                  ? t('upload.dropHere')
+                  : images.length > 0 ? t('upload.addAnother') : t('upload.prompt')}
               </p>
               <p className="text-sm text-gray-500 mt-1">
-                Drag and drop or click to select
+                {t('upload.dragOrClick')}
               </p>
               <p className="text-xs text-gray-400 mt-2">
-                Supports JPEG, PNG, WebP (max 10MB)
+                {t('upload.limits', { max: MAX_IMAGES_PER_RECIPE, size: MAX_IMAGE_BYTES / (1024 * 1024) })}
               </p>
             </div>
           </div>
-          {isUploading && (
-            <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center rounded-lg">
-              <div className="flex items-center space-x-2">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-                <span className="text-sm text-gray-600">Processing...</span>
-              </div>
-            </div>
-          )}
         </div>
-      ) : (
+      )}
+
+      {images.length > 0 && (
         <div className="space-y-4">
-          <div className="relative rounded-lg overflow-hidden">
-            <Image
-              src={preview}
-              alt="Uploaded food"
-              width={400}
-              height={256}
-              className="w-full h-64 object-cover"
-              unoptimized
-            />
-            {!isUploading && (
-              <button
-                onClick={clearImage}
-                className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1 hover:bg-red-600 transition-colors"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            )}
-            {isUploading && (
-              <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-                <div className="flex items-center space-x-2 text-white">
-                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
-                  <span className="text-sm">Generating recipe...</span>
-                </div>
+          {/* Thumbnail strip, in the order the images are sent */}
+          <div className="grid grid-cols-4 gap-2">
+            {images.map((image, index) => (
+              <div key={image.id} className="relative rounded-lg overflow-hidden border border-gray-200">
+                <Image
+                  src={image.previewUrl}
+                  alt={t('upload.photoAlt', { number: index + 1 })}
+                  width={96}
+                  height={96}
+                  className="w-full h-24 object-cover"
+                  unoptimized
+                />
+                <span className="absolute top-1 left-1 bg-black bg-opacity-60 text-white text-xs rounded px-1">
+                  {index + 1}
+                </span>
+                {!isUploading && (
+                  <>
+                    <button
+                      onClick={() => removeImage(image.id)}
+                      aria-label={t('upload.remove', { number: index + 1 })}
+                      className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-0.5 hover:bg-red-600 transition-colors"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                    <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                      <button
+                        onClick={() => moveImage(index, -1)}
+                        disabled={index === 0}
+                        aria-label={t('upload.moveLeft', { number: index + 1 })}
+                        className="bg-white bg-opacity-80 text-gray-700 rounded px-1 text-xs disabled:opacity-0"
+                      >
+                        ←
+                      </button>
+                      <button
+                        onClick={() => moveImage(index, 1)}
+                        disabled={index === images.length - 1}
+                        aria-label={t('upload.moveRight', { number: index + 1 })}
+                        className="bg-white bg-opacity-80 text-gray-700 rounded px-1 text-xs disabled:opacity-0"
+                      >
+                        →
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
-            )}
+            ))}
           </div>
-          <p className="text-sm text-gray-600 text-center">
-            Image uploaded successfully
-          </p>
+
+          <button
+            onClick={generateRecipe}
+            disabled={isUploading}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUploading ? (
+              <span className="flex items-center justify-center gap-2">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                {t('upload.generating')}
+              </span>
+            ) : (
+              t('upload.generate', { count: images.length })
+            )}
+          </button>
         </div>
       )}
 
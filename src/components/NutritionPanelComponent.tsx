@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Recipe } from '@/types/recipe';
+import { NutritionFacts } from '@/types/nutrition';
+import { estimateNutrition } from '@/utils/nutrition';
+
+interface NutritionPanelComponentProps {
+  recipe: Recipe;
+}
+
+const NUTRIENT_ROWS: { key: keyof NutritionFacts; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'carbohydrates', label: 'Carbs', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' }
+];
+
+function formatAmount(value: number, unit: string): string {
+  if (unit === 'kcal' || value >= 10) return String(Math.round(value));
+  return String(Math.round(value * 10) / 10);
+}
+
+export default function NutritionPanelComponent({ recipe }: NutritionPanelComponentProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const nutrition = useMemo(() => estimateNutrition(recipe), [recipe]);
+
+  const unmatched = nutrition.ingredients.filter(entry => entry.status === 'unmatched');
+  const unmeasured = nutrition.ingredients.filter(entry => entry.status === 'unmeasured');
+  const countedCount = nutrition.ingredients.length - unmatched.length - unmeasured.length;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Nutrition</h2>
+        <span className="text-xs text-gray-500">
+          {nutrition.servings ? 'Estimated per serving' : 'Estimated for the whole recipe'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 text-center">
+        {NUTRIENT_ROWS.map(({ key, label, unit }) => (
+          <div key={key} className="rounded-md bg-gray-50 py-2 print:bg-white print:border print:border-gray-200">
+            <div className="text-base font-semibold text-gray-900">
+              {formatAmount(nutrition.perServing[key], unit)}
+              <span className="text-xs font-normal text-gray-500 ml-0.5">{unit}</span>
+            </div>
+            <div className="text-xs text-gray-500">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {(unmatched.length > 0 || unmeasured.length > 0) && (
+        <div className="mt-3 rounded-md bg-yellow-50 border border-yellow-200 p-3 text-xs text-yellow-800">
+          <p className="font-medium">
+            Based on {countedCount} of {nutrition.ingredients.length} ingredients, so the real values may be higher.
+          </p>
+          {unmatched.length > 0 && (
+            <p className="mt-1">
+              Not in the nutrient table: {unmatched.map(entry => entry.ingredient.name).join(', ')}
+            </p>
+          )}
+          {unmeasured.length > 0 && (
+            <p className="mt-1">
+              Amount could not be weighed: {unmeasured
+                .map(({ ingredient }) => [ingredient.quantity, ingredient.unit, ingredient.name].filter(Boolean).join(' '))
+                .join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowDetails(current => !current)}
+        className="mt-2 text-xs text-blue-600 hover:text-blue-700 print:hidden"
+      >
+        {showDetails ? 'Hide ingredient breakdown' : 'Show ingredient breakdown'}
+      </button>
+      {showDetails && (
+        <table className="mt-2 w-full text-xs text-gray-600 print:hidden">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium py-1">Ingredient</th>
+              <th className="font-medium py-1">Matched as</th>
+              <th className="font-medium py-1 text-right">Weight</th>
+              <th className="font-medium py-1 text-right">kcal</th>
+            </tr>
+          </thead>
+          <tbody>
+            {nutrition.ingredients.map((entry, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                <td className="py-1">{entry.ingredient.name}</td>
+                <td className="py-1">{entry.foodName ?? '—'}</td>
+                <td className="py-1 text-right">{entry.grams !== undefined ? `${formatAmount(entry.grams, 'g')} g` : '—'}</td>
+                <td className="py-1 text-right">{entry.nutrition ? formatAmount(entry.nutrition.calories, 'kcal') : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AdaptRecipeResponse, DietaryConstraint, Recipe, RecipeAdaptation } from '@/types/recipe';
+import { DIETARY_CONSTRAINTS } from '@/utils/ingredientSubstitution';
+
+interface RecipeAdaptationComponentProps {
+  // The recipe as generated; adaptations always start from it
+  recipe: Recipe;
+  adaptation: RecipeAdaptation | null;
+  onAdaptationChange: (adaptation: RecipeAdaptation | null) => void;
+  disabled?: boolean;
+}
+
+export default function RecipeAdaptationComponent({
+  recipe,
+  adaptation,
+  onAdaptationChange,
+  disabled = false
+}: RecipeAdaptationComponentProps) {
+  const [constraints, setConstraints] = useState<Set<DietaryConstraint>>(new Set());
+  const [unavailableText, setUnavailableText] = useState('');
+  const [isAdapting, setIsAdapting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unavailableIngredients = unavailableText
+    .split(',')
+    .map(ingredient => ingredient.trim())
+    .filter(Boolean);
+
+  const toggleConstraint = (constraint: DietaryConstraint) => {
+    const newConstraints = new Set(constraints);
+    if (newConstraints.has(constraint)) {
+      newConstraints.delete(constraint);
+    } else {
+      newConstraints.add(constraint);
+    }
+    setConstraints(newConstraints);
+  };
+
+  const adaptRecipe = async () => {
+    setIsAdapting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/adapt-recipe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          recipe,
+          constraints: [...constraints],
+          unavailableIngredients
+        }),
+      });
+
+      const result: AdaptRecipeResponse = await response.json();
+
+      if (result.success && result.adaptation) {
+        onAdaptationChange(result.adaptation);
+      } else {
+        setError(result.error || 'Failed to adapt recipe');
+      }
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Recipe adaptation error:', err);
+    } finally {
+      setIsAdapting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-4 space-y-3 print:hidden">
+      <h2 className="text-sm font-semibold text-gray-900">Adapt this recipe</h2>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(DIETARY_CONSTRAINTS) as DietaryConstraint[]).map(constraint => (
+          <button
+            key={constraint}
+            onClick={() => toggleConstraint(constraint)}
+            disabled={disabled || isAdapting}
+            aria-pressed={constraints.has(constraint)}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              constraints.has(constraint)
+                ? 'bg-green-600 border-green-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {DIETARY_CONSTRAINTS[constraint]}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label htmlFor="unavailable-ingredients" className="block text-sm text-gray-700 mb-1">
+          I don&apos;t have...
+        </label>
+        <input
+          id="unavailable-ingredients"
+          type="text"
+          value={unavailableText}
+          onChange={event => setUnavailableText(event.target.value)}
+          placeholder="buttermilk, shallots"
+          disabled={disabled || isAdapting}
+          className="w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={adaptRecipe}
+          disabled={disabled || isAdapting || (constraints.size === 0 && unavailableIngredients.length === 0)}
+          className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isAdapting ? 'Finding substitutes...' : 'Adapt Recipe'}
+        </button>
+        {adaptation && (
+          <button
+            onClick={() => onAdaptationChange(null)}
+            disabled={isAdapting}
+            className="py-2 px-4 rounded-md text-sm border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Show Original
+          </button>
+        )}
+      </div>
+
+      {adaptation && adaptation.substitutions.length === 0 && (
+        <p className="text-sm text-gray-600">No changes were needed.</p>
+      )}
+      {adaptation?.notes.map((note, index) => (
+        <p key={index} className="text-sm text-yellow-700">{note}</p>
+      ))}
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,84 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Recipe } from '@/types/recipe';
+import React, { useState, useMemo, useEffect } from 'react';
+import { IngredientSubstitution, InstructionChange, Locale, MeasurementProfile, Recipe, RecipeInterchangeFormat } from '@/types/recipe';
+import { convertRecipe } from '@/utils/unitConversion';
+import { weighDryIngredients } from '@/utils/nutrition';
+import { getProfileUnitSystem } from '@/utils/unitUtils';
+import { scaleRecipe } from '@/utils/recipeScaling';
+import { formatTemperature, getRecipeSteps } from '@/utils/recipeSteps';
+import { formatRecipeMarkdown, formatRecipeText, getRecipeFileName } from '@/utils/recipeExport';
+import { downloadFile } from '@/utils/download';
+import NutritionPanelComponent from '@/components/NutritionPanelComponent';
+import WhereToBuyComponent from '@/components/WhereToBuyComponent';
+import DeliveryCartComponent from '@/components/DeliveryCartComponent';
+import CookModeComponent from '@/components/CookModeComponent';
+import { getTranslator, localizeNumbers } from '@/lib/i18n';
 
 interface RecipeDisplayComponentProps {
   recipe: Recipe;
+  // When set, quantities are converted to these units for display and copying
+  measurementProfile?: MeasurementProfile;
   onCopyRecipe?: () => void;
+  onSaveRecipe?: () => Promise<void>;
+  isSaved?: boolean;
+  // True while the recipe is still arriving from a stream
+  isStreaming?: boolean;
+  // Changes from adapting the recipe, shown as badges on the affected lines
+  substitutions?: IngredientSubstitution[];
+  instructionChanges?: InstructionChange[];
+  // Language of the interface; the recipe text is shown as written
+  locale?: Locale;
 }
 
+type ServerExportFormat = 'pdf' | RecipeInterchangeFormat;
+
+// Formats other recipe apps can import
+const INTERCHANGE_EXPORTS: { format: RecipeInterchangeFormat; label: string; extension: string }[] = [
+  { format: 'json-ld', label: 'JSON-LD', extension: 'jsonld' },
+  { format: 'cooklang', label: 'Cooklang', extension: 'cook' },
+  { format: 'paprika', label: 'Paprika', extension: 'paprikarecipes' }
+];
+
 export default function RecipeDisplayComponent({ 
-  recipe, 
-  onCopyRecipe 
+  recipe: originalRecipe, 
+  measurementProfile,
+  onCopyRecipe,
+  onSaveRecipe,
+  isSaved = false,
+  isStreaming = false,
+  substitutions = [],
+  instructionChanges = [],
+  locale = 'en'
 }: RecipeDisplayComponentProps) {
+  const t = getTranslator(locale);
   const [checkedIngredients, setCheckedIngredients] = useState<Set<number>>(new Set());
   const [checkedInstructions, setCheckedInstructions] = useState<Set<number>>(new Set());
   const [copySuccess, setCopySuccess] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<ServerExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [servings, setServings] = useState(originalRecipe.servings);
+  const [isCookMode, setIsCookMode] = useState(false);
+
+  // Start from the recipe's own serving count whenever a different recipe is
+  // shown, even one with the same count as the last
+  useEffect(() => {
+    setServings(originalRecipe.servings);
+  }, [originalRecipe]);
+
+  // Scale first so the converted units are picked for the scaled amounts
+  const recipe = useMemo(() => {
+    const scaled = servings ? scaleRecipe(originalRecipe, servings) : originalRecipe;
+    return measurementProfile ? weighDryIngredients(convertRecipe(scaled, measurementProfile), measurementProfile) : scaled;
+  }, [originalRecipe, servings, measurementProfile]);
+
+  const removedIngredients = substitutions.filter(substitution => !substitution.replacement);
+
+  const changeServings = (delta: number) => {
+    setServings(current => Math.max(1, (current || 1) + delta));
+  };
 
   const toggleIngredient = (index: number) => {
     const newChecked = new Set(checkedIngredients);
@@ -36,36 +100,9 @@ export default function RecipeDisplayComponent({
     setCheckedInstructions(newChecked);
   };
 
-  const formatRecipeText = () => {
-    let text = `${recipe.title}\n\n`;
-    
-    if (recipe.description) {
-      text += `${recipe.description}\n\n`;
-    }
-
-    if (recipe.servings || recipe.cookingTime) {
-      text += 'DETAILS:\n';
-      if (recipe.servings) text += `Servings: ${recipe.servings}\n`;
-      if (recipe.cookingTime) text += `Cooking Time: ${recipe.cookingTime} minutes\n`;
-      text += '\n';
-    }
-
-    text += 'INGREDIENTS:\n';
-    recipe.ingredients.forEach(ingredient => {
-      text += `• ${ingredient.quantity} ${ingredient.unit} ${ingredient.name}\n`;
-    });
-
-    text += '\nINSTRUCTIONS:\n';
-    recipe.instructions.forEach((instruction, index) => {
-      text += `${index + 1}. ${instruction}\n`;
-    });
-
-    return text;
-  };
-
   const copyToClipboard = async () => {
     try {
-      const recipeText = formatRecipeText();
+      const recipeText = formatRecipeText(recipe);
       await navigator.clipboard.writeText(recipeText);
       setCopySuccess(true);
       onCopyRecipe?.();
@@ -77,24 +114,97 @@ export default function RecipeDisplayComponent({
     }
   };
 
+  const downloadMarkdown = () => {
+    const markdown = formatRecipeMarkdown(recipe);
+    downloadFile(new Blob([markdown], { type: 'text/markdown' }), getRecipeFileName(recipe, 'md'));
+  };
+
+  // PDF and interchange files are rendered on the server from the recipe as currently displayed
+  const downloadExport = async (format: ServerExportFormat, extension: string) => {
+    setExportingFormat(format);
+    setExportError(null);
+    try {
+      const response = await fetch(`/api/export-recipe/${format}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ recipe }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Export failed with status ${response.status}`);
+      }
+
+      downloadFile(await response.blob(), getRecipeFileName(recipe, extension));
+    } catch (err) {
+      setExportError(t('recipe.exportFailed'));
+      console.error(`Failed to export recipe as ${format}:`, err);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const saveRecipe = async () => {
+    if (!onSaveRecipe) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSaveRecipe();
+    } catch (err) {
+      setSaveError(t('recipe.saveFailed'));
+      console.error('Failed to save recipe:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
-    <div className="w-full max-w-2xl mx-auto bg-white rounded-lg shadow-lg p-6">
+    <div className="recipe-print w-full max-w-2xl mx-auto bg-white rounded-lg shadow-lg p-6 print:shadow-none print:p-0">
       {/* Header */}
       <div className="border-b border-gray-200 pb-4 mb-6">
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">{recipe.title}</h1>
+        {recipe.title ? (
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{recipe.title}</h1>
+        ) : (
+          <div className="h-8 w-2/3 bg-gray-200 rounded animate-pulse mb-2"></div>
+        )}
         {recipe.description && (
           <p className="text-gray-600 text-sm leading-relaxed">{recipe.description}</p>
         )}
         
         {/* Recipe details */}
-        {(recipe.servings || recipe.cookingTime || recipe.unitSystem) && (
+        {(recipe.servings || recipe.cookingTime || recipe.difficulty || recipe.unitSystem) && (
           <div className="flex gap-4 mt-3 text-sm text-gray-500 flex-wrap">
             {recipe.servings && (
               <div className="flex items-center gap-1">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                 </svg>
-                <span>{recipe.servings} servings</span>
+                <button
+                  onClick={() => changeServings(-1)}
+                  disabled={recipe.servings <= 1}
+                  aria-label={t('recipe.decreaseServings')}
+                  className="print:hidden w-6 h-6 rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  −
+                </button>
+                <span>{t('recipe.servings', { count: recipe.servings })}</span>
+                <button
+                  onClick={() => changeServings(1)}
+                  aria-label={t('recipe.increaseServings')}
+                  className="print:hidden w-6 h-6 rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100"
+                >
+                  +
+                </button>
+                {recipe.servings !== originalRecipe.servings && (
+                  <button
+                    onClick={() => setServings(originalRecipe.servings)}
+                    className="print:hidden text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    {t('recipe.resetServings', { count: originalRecipe.servings ?? 0 })}
+                  </button>
+                )}
               </div>
             )}
             {recipe.cookingTime && (
@@ -102,15 +212,28 @@ export default function RecipeDisplayComponent({
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span>{recipe.cookingTime} minutes</span>
+                <span>
+                  {recipe.prepTime && `${t('recipe.prepTime', { minutes: recipe.prepTime })} · `}
+                  {recipe.cookTime && `${t('recipe.cookTime', { minutes: recipe.cookTime })} · `}
+                  {t(recipe.prepTime || recipe.cookTime ? 'recipe.totalTime' : 'recipe.minutes', { minutes: recipe.cookingTime })}
+                </span>
               </div>
             )}
+            {recipe.difficulty && (
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                recipe.difficulty === 'easy'
+                  ? 'bg-green-50 text-green-700'
+                  : recipe.difficulty === 'medium' ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700'
+              }`}>
+                {t(`recipe.difficulty.${recipe.difficulty}`)}
+              </span>
+            )}
             {recipe.unitSystem && (
               <div className="flex items-center gap-1">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16l-3-3m3 3l3-3" />
                 </svg>
-                <span>{recipe.unitSystem === 'metric' ? 'Metric units' : 'Imperial units'}</span>
+                <span>{t(recipe.unitSystem === 'metric' ? 'recipe.metricUnits' : 'recipe.imperialUnits')}</span>
               </div>
             )}
           </div>
@@ -119,84 +242,244 @@ export default function RecipeDisplayComponent({
 
       {/* Ingredients */}
       <div className="mb-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-3">Ingredients</h2>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">{t('recipe.ingredients')}</h2>
         <div className="space-y-2">
-          {recipe.ingredients.map((ingredient, index) => (
-            <label key={index} className="flex items-center gap-3 cursor-pointer group">
-              <input
-                type="checkbox"
-                checked={checkedIngredients.has(index)}
-                onChange={() => toggleIngredient(index)}
-                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
-              />
-              <span className={`text-sm ${
-                checkedIngredients.has(index) 
-                  ? 'line-through text-gray-400' 
-                  : 'text-gray-700 group-hover:text-gray-900'
-              }`}>
-                {ingredient.quantity} {ingredient.unit} {ingredient.name}
+          {recipe.ingredients.map((ingredient, index) => {
+            const substitution = substitutions.find(candidate => candidate.ingredientIndex === index);
+            return (
+              <label key={index} className="flex items-center gap-3 cursor-pointer group">
+                <input
+                  type="checkbox"
+                  checked={checkedIngredients.has(index)}
+                  onChange={() => toggleIngredient(index)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 print:hidden"
+                />
+                <span className={`text-sm ${
+                  checkedIngredients.has(index) 
+                    ? 'line-through text-gray-400' 
+                    : 'text-gray-700 group-hover:text-gray-900'
+                }`}>
+                  {localizeNumbers(ingredient.quantity, locale)} {ingredient.unit} {ingredient.name}
+                </span>
+                {substitution?.replacement && (
+                  <span className="text-xs rounded-full bg-green-50 border border-green-200 text-green-700 px-2 py-0.5">
+                    {t('recipe.swapped')} <span className="line-through">{substitution.original.name}</span> {t('recipe.swappedFor')} {substitution.replacement.name}
+                  </span>
+                )}
+              </label>
+            );
+          })}
+          {removedIngredients.map((substitution, index) => (
+            <div key={`removed-${index}`} className="flex items-center gap-3 pl-7 print:pl-0">
+              <span className="text-sm line-through text-gray-400">
+                {localizeNumbers(substitution.original.quantity, locale)} {substitution.original.unit} {substitution.original.name}
+              </span>
+              <span className="text-xs rounded-full bg-red-50 border border-red-200 text-red-700 px-2 py-0.5">
+                {t('recipe.leftOut')}
               </span>
-            </label>
+            </div>
           ))}
+          {isStreaming && recipe.instructions.length === 0 && (
+            <div className="h-4 w-1/2 bg-gray-200 rounded animate-pulse"></div>
+          )}
         </div>
       </div>
 
+      {/* Equipment */}
+      {recipe.equipment && recipe.equipment.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">{t('recipe.equipment')}</h2>
+          <ul className="flex flex-wrap gap-2">
+            {recipe.equipment.map(item => (
+              <li key={item} className="text-sm rounded-md bg-gray-100 text-gray-700 px-2 py-1">{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="mb-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-3">Instructions</h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-900">{t('recipe.instructions')}</h2>
+          {!isStreaming && recipe.instructions.length > 0 && (
+            <button
+              onClick={() => setIsCookMode(true)}
+              className="print:hidden py-1.5 px-3 rounded-md text-sm font-medium bg-amber-100 text-amber-900 hover:bg-amber-200 transition-colors"
+            >
+              {t('recipe.cookMode')}
+            </button>
+          )}
+        </div>
         <div className="space-y-3">
-          {recipe.instructions.map((instruction, index) => (
-            <label key={index} className="flex gap-3 cursor-pointer group">
-              <input
-                type="checkbox"
-                checked={checkedInstructions.has(index)}
-                onChange={() => toggleInstruction(index)}
-                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 mt-0.5 flex-shrink-0"
-              />
-              <div className="flex-1">
-                <span className="text-sm font-medium text-blue-600 mr-2">
-                  Step {index + 1}
-                </span>
-                <span className={`text-sm leading-relaxed ${
-                  checkedInstructions.has(index)
-                    ? 'line-through text-gray-400'
-                    : 'text-gray-700 group-hover:text-gray-900'
-                }`}>
-                  {instruction}
-                </span>
-              </div>
-            </label>
-          ))}
+          {getRecipeSteps(recipe).map((step, index) => {
+            const change = instructionChanges.find(candidate => candidate.index === index);
+            return (
+              <label key={index} className="flex gap-3 cursor-pointer group">
+                <input
+                  type="checkbox"
+                  checked={checkedInstructions.has(index)}
+                  onChange={() => toggleInstruction(index)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 mt-0.5 flex-shrink-0 print:hidden"
+                />
+                <div className="flex-1">
+                  <span className="text-sm font-medium text-blue-600 mr-2">
+                    {t('recipe.step', { number: index + 1 })}
+                  </span>
+                  <span className={`text-sm leading-relaxed ${
+                    checkedInstructions.has(index)
+                      ? 'line-through text-gray-400'
+                      : 'text-gray-700 group-hover:text-gray-900'
+                  }`}>
+                    {step.text}
+                  </span>
+                  {(step.duration || step.temperature || step.equipment) && (
+                    <span className="flex flex-wrap gap-1.5 mt-1 text-xs text-gray-500">
+                      {step.duration && (
+                        <span className="rounded-full bg-gray-100 px-2 py-0.5">{t('recipe.stepMinutes', { minutes: step.duration })}</span>
+                      )}
+                      {step.temperature && (
+                        <span className="rounded-full bg-orange-50 text-orange-700 px-2 py-0.5">{formatTemperature(step.temperature)}</span>
+                      )}
+                      {step.equipment?.map(item => (
+                        <span key={item} className="rounded-full bg-gray-100 px-2 py-0.5">{item}</span>
+                      ))}
+                    </span>
+                  )}
+                  {change && (
+                    <span className="block mt-1 text-xs text-gray-400">
+                      <span className="rounded-full bg-green-50 border border-green-200 text-green-700 px-2 py-0.5 mr-2">{t('recipe.updated')}</span>
+                      <span className="line-through">{change.original}</span>
+                    </span>
+                  )}
+                </div>
+              </label>
+            );
+          })}
+          {isStreaming && (
+            <div className="h-4 w-3/4 bg-gray-200 rounded animate-pulse"></div>
+          )}
         </div>
       </div>
 
-      {/* Copy Button */}
-      <div className="border-t border-gray-200 pt-4">
-        <button
-          onClick={copyToClipboard}
-          className={`w-full py-2 px-4 rounded-md font-medium transition-colors ${
-            copySuccess
-              ? 'bg-green-500 text-white'
-              : 'bg-blue-600 text-white hover:bg-blue-700'
-          }`}
-        >
-          {copySuccess ? (
-            <span className="flex items-center justify-center gap-2">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-              Recipe Copied!
-            </span>
-          ) : (
-            <span className="flex items-center justify-center gap-2">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-              </svg>
-              Copy Recipe
-            </span>
+      {/* Estimated from the recipe as shown, so it follows the servings and units */}
+      {!isStreaming && recipe.ingredients.length > 0 && (
+        <NutritionPanelComponent recipe={recipe} />
+      )}
+
+      {/* Stock does not depend on amounts, so servings changes keep the results */}
+      {!isStreaming && originalRecipe.ingredients.length > 0 && (
+        <WhereToBuyComponent ingredients={originalRecipe.ingredients} />
+      )}
+
+      {/* Packs are rounded up from the scaled amounts */}
+      {!isStreaming && recipe.ingredients.length > 0 && (
+        <DeliveryCartComponent ingredients={recipe.ingredients} unitSystem={measurementProfile && getProfileUnitSystem(measurementProfile)} />
+      )}
+
+      {isStreaming ? (
+        <div className="border-t border-gray-200 pt-4 flex items-center justify-center gap-2">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <span className="text-sm text-gray-600">{t('recipe.generating')}</span>
+        </div>
+      ) : (
+        <>
+          {/* Actions */}
+          <div className="border-t border-gray-200 pt-4 flex gap-3 print:hidden">
+            {onSaveRecipe && (
+              <button
+                onClick={saveRecipe}
+                disabled={isSaving}
+                className={`flex-1 py-2 px-4 rounded-md font-medium transition-colors ${
+                  isSaved
+                    ? 'bg-green-500 text-white'
+                    : 'bg-white text-blue-600 border border-blue-600 hover:bg-blue-50'
+                } ${isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                  {isSaving ? t('recipe.saving') : isSaved ? t('recipe.saved') : t('recipe.save')}
+                </span>
+              </button>
+            )}
+            <button
+              onClick={copyToClipboard}
+              className={`flex-1 py-2 px-4 rounded-md font-medium transition-colors ${
+                copySuccess
+                  ? 'bg-green-500 text-white'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {copySuccess ? (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  {t('recipe.copied')}
+                </span>
+              ) : (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                  {t('recipe.copy')}
+                </span>
+              )}
+            </button>
+          </div>
+          <div className="mt-3 flex gap-3 text-sm print:hidden">
+            <button
+              onClick={downloadMarkdown}
+              className="flex-1 py-2 px-3 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              {t('recipe.downloadMarkdown')}
+            </button>
+            <button
+              onClick={() => downloadExport('pdf', 'pdf')}
+              disabled={exportingFormat !== null}
+              className="flex-1 py-2 px-3 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exportingFormat === 'pdf' ? t('recipe.preparingPdf') : t('recipe.downloadPdf')}
+            </button>
+            <button
+              onClick={() => window.print()}
+              className="flex-1 py-2 px-3 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              {t('recipe.print')}
+            </button>
+          </div>
+          <div className="mt-3 flex items-center justify-center gap-3 text-xs text-gray-500 print:hidden">
+            <span>{t('recipe.exportFor')}</span>
+            {INTERCHANGE_EXPORTS.map(({ format, label, extension }) => (
+              <button
+                key={format}
+                onClick={() => downloadExport(format, extension)}
+                disabled={exportingFormat !== null}
+                className="text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exportingFormat === format ? t('recipe.exporting') : label}
+              </button>
+            ))}
+          </div>
+          {saveError && (
+            <p className="mt-2 text-sm text-red-600 text-center print:hidden">{saveError}</p>
           )}
-        </button>
-      </div>
+          {exportError && (
+            <p className="mt-2 text-sm text-red-600 text-center print:hidden">{exportError}</p>
+          )}
+        </>
+      )}
+
+      {/* Opens at the first step not ticked off yet */}
+      {isCookMode && (
+        <CookModeComponent
+          recipe={recipe}
+          initialStep={recipe.instructions.findIndex((_, index) => !checkedInstructions.has(index))}
+          onClose={() => setIsCookMode(false)}
+          locale={locale}
+        />
+      )}
     </div>
   );
 }
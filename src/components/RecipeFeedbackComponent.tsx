@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RecipeFeedbackResponse, StepComment } from '@/types/feedback';
+
+interface RecipeFeedbackComponentProps {
+  recipeId: string;
+  instructions: string[];
+}
+
+export default function RecipeFeedbackComponent({ recipeId, instructions }: RecipeFeedbackComponentProps) {
+  const [rating, setRating] = useState<number | null>(null);
+  const [wrongDish, setWrongDish] = useState(false);
+  const [correctDish, setCorrectDish] = useState('');
+  const [stepComments, setStepComments] = useState<Record<number, string>>({});
+  const [commentingStep, setCommentingStep] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filledStepComments: StepComment[] = Object.entries(stepComments)
+    .map(([step, text]) => ({ step: Number(step), comment: text.trim() }))
+    .filter(entry => entry.comment);
+  const hasFeedback = rating !== null || wrongDish || filledStepComments.length > 0 || comment.trim() !== '';
+
+  const submitFeedback = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          recipeId,
+          rating: rating ?? undefined,
+          wrongDish,
+          correctDish: wrongDish ? correctDish : undefined,
+          stepComments: filledStepComments,
+          comment
+        }),
+      });
+      const result: RecipeFeedbackResponse = await response.json();
+
+      if (result.success) {
+        setIsSubmitted(true);
+      } else {
+        setError(result.error || 'Failed to send feedback');
+      }
+    } catch (err) {
+      setError('Network error. Please check your connection and try again.');
+      console.error('Feedback error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="w-full max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-4 text-center print:hidden">
+        <p className="text-sm text-green-700">Thanks! Your feedback helps us generate better recipes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6 print:hidden">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">How did this recipe turn out?</h2>
+
+      <div className="flex items-center gap-1 mb-4" role="radiogroup" aria-label="Rating">
+        {[1, 2, 3, 4, 5].map(stars => (
+          <button
+            key={stars}
+            role="radio"
+            aria-checked={rating === stars}
+            aria-label={`${stars} ${stars === 1 ? 'star' : 'stars'}`}
+            onClick={() => setRating(rating === stars ? null : stars)}
+            className={`text-2xl leading-none transition-colors ${
+              rating !== null && stars <= rating ? 'text-yellow-400' : 'text-gray-300 hover:text-yellow-300'
+            }`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+        <input
+          type="checkbox"
+          checked={wrongDish}
+          onChange={event => setWrongDish(event.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        This is not the dish in my photo
+      </label>
+      {wrongDish && (
+        <input
+          type="text"
+          value={correctDish}
+          onChange={event => setCorrectDish(event.target.value)}
+          maxLength={100}
+          placeholder="What was it? (optional)"
+          className="w-full mb-2 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+      )}
+
+      {instructions.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm font-medium text-gray-700 mb-1">Comment on a step</p>
+          <ol className="space-y-1">
+            {instructions.map((instruction, index) => (
+              <li key={index} className="text-sm">
+                <button
+                  onClick={() => setCommentingStep(commentingStep === index ? null : index)}
+                  className="text-left text-gray-600 hover:text-blue-700"
+                >
+                  <span className="font-medium">Step {index + 1}</span>
+                  {stepComments[index]?.trim() && <span className="ml-2 text-xs text-blue-600">commented</span>}
+                  <span className="block text-xs text-gray-400 line-clamp-1">{instruction}</span>
+                </button>
+                {commentingStep === index && (
+                  <textarea
+                    value={stepComments[index] ?? ''}
+                    onChange={event => setStepComments(current => ({ ...current, [index]: event.target.value }))}
+                    maxLength={1000}
+                    rows={2}
+                    placeholder="What went wrong in this step?"
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <textarea
+        value={comment}
+        onChange={event => setComment(event.target.value)}
+        maxLength={1000}
+        rows={2}
+        placeholder="Anything else? (optional)"
+        className="mt-3 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+
+      <button
+        onClick={submitFeedback}
+        disabled={!hasFeedback || isSubmitting}
+        className="mt-3 py-2 px-4 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSubmitting ? 'Sending...' : 'Send Feedback'}
+      </button>
+    </div>
+  );
+}
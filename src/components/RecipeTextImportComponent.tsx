@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface RecipeTextImportComponentProps {
+  onImport: (text: string, cleanup: boolean) => void;
+  isImporting?: boolean;
+}
+
+const PLACEHOLDER = `Grandma's Pancakes
+Serves 4
+
+Ingredients
+- 2 cups flour
+- 2 eggs
+- 1 1/2 cups milk
+
+Instructions
+1. Whisk everything into a smooth batter.
+2. Fry ladlefuls in a hot buttered pan until golden.`;
+
+export default function RecipeTextImportComponent({
+  onImport,
+  isImporting = false
+}: RecipeTextImportComponentProps) {
+  const [text, setText] = useState('');
+  const [cleanup, setCleanup] = useState(true);
+
+  return (
+    <div className="w-full max-w-md mx-auto space-y-4">
+      <div>
+        <label htmlFor="recipe-text" className="block text-sm font-medium text-gray-700 mb-2">
+          Paste a recipe
+        </label>
+        <textarea
+          id="recipe-text"
+          value={text}
+          onChange={event => setText(event.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={12}
+          disabled={isImporting}
+          className="w-full rounded-lg border border-gray-300 p-3 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Blog posts, family notes or anything with ingredients and steps
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={cleanup}
+          onChange={event => setCleanup(event.target.checked)}
+          disabled={isImporting}
+          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+        />
+        Tidy up with AI when available
+      </label>
+
+      <button
+        onClick={() => onImport(text, cleanup)}
+        disabled={isImporting || !text.trim()}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isImporting ? (
+          <span className="flex items-center justify-center gap-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            Importing recipe...
+          </span>
+        ) : (
+          'Import Recipe'
+        )}
+      </button>
+    </div>
+  );
+}
@@ -1,52 +1,103 @@
 'use client';
 
-import React from 'react';
-import { UnitSystem } from '@/types/recipe';
-import { UNIT_SYSTEMS } from '@/utils/unitUtils';
+import React, { useState } from 'react';
+import { Locale, MeasurementCategory, MeasurementProfile } from '@/types/recipe';
+import { findMeasurementPreset, MEASUREMENT_CHOICES, MEASUREMENT_PRESETS } from '@/utils/unitUtils';
+import { getTranslator, MessageKey } from '@/lib/i18n';
 
 interface UnitSelectorProps {
-  selectedUnit: UnitSystem;
-  onUnitChange: (unit: UnitSystem) => void;
+  profile: MeasurementProfile;
+  onProfileChange: (profile: MeasurementProfile) => void;
   className?: string;
+  locale?: Locale;
 }
 
-export default function UnitSelector({ selectedUnit, onUnitChange, className = '' }: UnitSelectorProps) {
+const CATEGORIES = Object.keys(MEASUREMENT_CHOICES) as MeasurementCategory[];
+
+export default function UnitSelector({ profile, onProfileChange, className = '', locale = 'en' }: UnitSelectorProps) {
+  const t = getTranslator(locale);
+  const selectedPreset = findMeasurementPreset(profile);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const handleChoiceChange = (category: MeasurementCategory, choice: string) => {
+    onProfileChange({ ...profile, [category]: choice });
+  };
+
   return (
     <div className={`space-y-3 ${className}`}>
       <label className="block text-sm font-medium text-gray-700">
-        Preferred Units
+        {t('units.preferred')}
       </label>
       <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-        {UNIT_SYSTEMS.map((system) => (
+        {MEASUREMENT_PRESETS.map((preset) => (
           <div
-            key={system.system}
+            key={preset.id}
             className={`relative rounded-lg border p-4 cursor-pointer hover:border-blue-300 transition-colors ${
-              selectedUnit === system.system
+              selectedPreset === preset.id
                 ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-500'
                 : 'border-gray-300 bg-white'
             }`}
-            onClick={() => onUnitChange(system.system)}
+            onClick={() => onProfileChange(preset.profile)}
           >
             <div className="flex items-center">
               <input
                 type="radio"
                 className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                checked={selectedUnit === system.system}
-                onChange={() => onUnitChange(system.system)}
-                aria-describedby={`${system.system}-description`}
+                checked={selectedPreset === preset.id}
+                onChange={() => onProfileChange(preset.profile)}
+                aria-describedby={`${preset.id}-description`}
               />
               <div className="ml-3">
                 <label className="block text-sm font-medium text-gray-900 cursor-pointer">
-                  {system.label}
+                  {t(`units.preset.${preset.id}.label`)}
                 </label>
-                <p id={`${system.system}-description`} className="text-xs text-gray-500 mt-1">
-                  {system.description}
+                <p id={`${preset.id}-description`} className="text-xs text-gray-500 mt-1">
+                  {t(`units.preset.${preset.id}.description`)}
                 </p>
               </div>
             </div>
           </div>
         ))}
       </div>
+
+      <button
+        type="button"
+        onClick={() => setShowDetails(!showDetails)}
+        aria-expanded={showDetails}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        {selectedPreset ? t('units.customize') : t('units.custom')}
+      </button>
+
+      {showDetails && (
+        <div className="grid grid-cols-1 gap-3 rounded-lg border border-gray-200 bg-gray-50 p-4 sm:grid-cols-2">
+          {CATEGORIES.map((category) => (
+            <label key={category} className="block text-sm text-gray-700">
+              <span className="block font-medium mb-1">{t(`units.category.${category}`)}</span>
+              <select
+                value={profile[category]}
+                onChange={(e) => handleChoiceChange(category, e.target.value)}
+                className="w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900"
+              >
+                {MEASUREMENT_CHOICES[category].map((choice) => (
+                  <option key={choice} value={choice}>
+                    {t(`units.choice.${category}.${choice}` as MessageKey)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-gray-700 sm:col-span-2">
+            <input
+              type="checkbox"
+              checked={profile.weighDryIngredients}
+              onChange={(e) => onProfileChange({ ...profile, weighDryIngredients: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('units.weighDry')}
+          </label>
+        </div>
+      )}
     </div>
   );
 }
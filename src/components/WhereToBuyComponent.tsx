@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Ingredient } from '@/types/recipe';
+import { GeoLocation, StoreAvailability, StoreAvailabilityResponse } from '@/types/stores';
+
+interface WhereToBuyComponentProps {
+  ingredients: Ingredient[];
+}
+
+function getCurrentLocation(): Promise<GeoLocation> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location is not available in this browser.'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => reject(new Error('Allow location access to find stores near you.')),
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
+
+export default function WhereToBuyComponent({ ingredients }: WhereToBuyComponentProps) {
+  const [stores, setStores] = useState<StoreAvailability[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedStore, setExpandedStore] = useState<string | null>(null);
+
+  // Results belong to the ingredients they were looked up for
+  useEffect(() => {
+    setStores(null);
+    setError(null);
+  }, [ingredients]);
+
+  const findStores = async () => {
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const location = await getCurrentLocation();
+      const response = await fetch('/api/stores/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ingredients, location }),
+      });
+      const result: StoreAvailabilityResponse = await response.json();
+
+      if (result.success && result.stores) {
+        setStores(result.stores);
+      } else {
+        setError(result.error || 'Failed to check stores');
+      }
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to check stores');
+      console.error('Store availability error:', err);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 print:hidden">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Where to buy</h2>
+        <button
+          onClick={findStores}
+          disabled={isSearching}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSearching ? 'Checking stores...' : stores ? 'Check again' : 'Find stores near me'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {stores && stores.length === 0 && (
+        <p className="text-sm text-gray-600">No stores we know of are near you yet.</p>
+      )}
+
+      {stores && stores.length > 0 && (
+        <ul className="space-y-2">
+          {stores.map(availability => {
+            const total = availability.inStock.length + availability.missing.length;
+            const isExpanded = expandedStore === availability.store.id;
+
+            return (
+              <li key={availability.store.id} className="rounded-md border border-gray-200 p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{availability.store.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {availability.store.address} • {availability.distanceKm} km away
+                    </p>
+                  </div>
+                  <span className={`shrink-0 text-xs font-medium px-2 py-0.5 rounded-full ${
+                    availability.missing.length === 0 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {availability.inStock.length} of {total} in stock
+                  </span>
+                </div>
+
+                {availability.missing.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-600">
+                    Missing: {availability.missing.join(', ')}
+                  </p>
+                )}
+
+                {availability.inStock.length > 0 && (
+                  <button
+                    onClick={() => setExpandedStore(isExpanded ? null : availability.store.id)}
+                    className="mt-1 text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    {isExpanded ? 'Hide products' : 'Show products'}
+                  </button>
+                )}
+                {isExpanded && (
+                  <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                    {availability.inStock.map(match => (
+                      <li key={match.ingredient} className="flex justify-between gap-3">
+                        <span>{match.ingredient} → {match.product}</span>
+                        {match.price !== undefined && <span>${match.price.toFixed(2)}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RecipeCacheEntry, RecipeCacheStore } from '@/lib/cache/types';
+import { getDataDirectory, readJsonFile, writeJsonFile } from '@/lib/storage/jsonFileStore';
+
+/**
+ * Cache kept as one JSON file per entry in the data directory, so it survives
+ * restarts. A file's modification time is its last use; the least recently
+ * used files are removed when there are more than maxEntries.
+ */
+export class FileRecipeCacheStore implements RecipeCacheStore {
+  readonly name = 'file';
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly directoryName = 'recipe-cache'
+  ) {}
+
+  async get(key: string): Promise<RecipeCacheEntry | null> {
+    const entry = await readJsonFile<RecipeCacheEntry | null>(this.fileName(key), null);
+    if (!entry) return null;
+
+    const filePath = path.join(getDataDirectory(), this.fileName(key));
+    if (entry.expiresAt <= Date.now()) {
+      await fs.rm(filePath, { force: true });
+      return null;
+    }
+
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return entry;
+  }
+
+  async set(entry: RecipeCacheEntry): Promise<void> {
+    await writeJsonFile(this.fileName(entry.key), entry);
+    await this.evict();
+  }
+
+  private fileName(key: string): string {
+    return path.join(this.directoryName, `${key}.json`);
+  }
+
+  private async evict(): Promise<void> {
+    const directory = path.join(getDataDirectory(), this.directoryName);
+    const fileNames = (await fs.readdir(directory)).filter(fileName => fileName.endsWith('.json'));
+    if (fileNames.length <= this.maxEntries) return;
+
+    const files = await Promise.all(fileNames.map(async fileName => {
+      const filePath = path.join(directory, fileName);
+      const stats = await fs.stat(filePath).catch(() => null);
+      return { filePath, lastUsed: stats?.mtimeMs ?? 0 };
+    }));
+
+    files.sort((a, b) => a.lastUsed - b.lastUsed);
+    await Promise.all(files
+      .slice(0, files.length - this.maxEntries)
+      .map(file => fs.rm(file.filePath, { force: true })));
+  }
+}
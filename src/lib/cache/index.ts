@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { Locale, MeasurementProfile, UnitSystem } from '@/types/recipe';
+import { RECIPE_PROMPT_VERSION, RecipeGenerationResult } from '@/lib/recipeGeneration';
+import { FileRecipeCacheStore } from '@/lib/cache/fileStore';
+import { MemoryRecipeCacheStore } from '@/lib/cache/memoryStore';
+import { RecipeCacheStore } from '@/lib/cache/types';
+
+export type RecipeCacheStoreName = 'memory' | 'file' | 'off';
+
+// Reported in the X-Recipe-Cache response header
+export type RecipeCacheStatus = 'HIT' | 'MISS' | 'BYPASS' | 'OFF';
+
+export const RECIPE_CACHE_HEADER = 'X-Recipe-Cache';
+
+export interface RecipeCacheConfig {
+  store: RecipeCacheStoreName;
+  ttlHours: number;
+  maxEntries: number;
+}
+
+export interface RecipeCacheKeyInput {
+  images: string[];
+  unitSystem: UnitSystem;
+  measurementProfile?: MeasurementProfile;
+  dishHint?: string;
+  locale?: Locale;
+  // Vision provider name, so recipes from different models are kept apart
+  provider: string;
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read cache settings from the environment (RECIPE_CACHE, RECIPE_CACHE_TTL_HOURS,
+ * RECIPE_CACHE_MAX_ENTRIES). The in-memory store is used by default.
+ */
+export function getRecipeCacheConfig(): RecipeCacheConfig {
+  const requested = process.env.RECIPE_CACHE;
+
+  let store: RecipeCacheStoreName = 'memory';
+  if (requested === 'memory' || requested === 'file' || requested === 'off') {
+    store = requested;
+  } else if (requested) {
+    console.warn(`Unknown RECIPE_CACHE "${requested}", using the memory cache`);
+  }
+
+  return {
+    store,
+    ttlHours: positiveNumber(process.env.RECIPE_CACHE_TTL_HOURS, 24),
+    maxEntries: Math.floor(positiveNumber(process.env.RECIPE_CACHE_MAX_ENTRIES, 200))
+  };
+}
+
+/**
+ * Decoded bytes of a base64 image, so data URL prefixes and line breaks do
+ * not change the cache key
+ */
+function normalizeImage(image: string): Buffer {
+  return Buffer.from(image.replace(/^data:[^,]*,/, '').replace(/\s+/g, ''), 'base64');
+}
+
+/**
+ * Hash of everything that decides the generated recipe: the image bytes in
+ * order, unit system and measurement profile, dish hint, language, prompt
+ * version and provider
+ */
+export function recipeCacheKey({ images, unitSystem, measurementProfile, dishHint, locale = 'en', provider }: RecipeCacheKeyInput): string {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify({
+    version: RECIPE_PROMPT_VERSION,
+    provider,
+    unitSystem,
+    measurementProfile: measurementProfile ?? null,
+    dishHint: dishHint ?? null,
+    locale
+  }));
+  images.forEach(image => {
+    hash.update('\0');
+    hash.update(createHash('sha256').update(normalizeImage(image)).digest());
+  });
+  return hash.digest('hex');
+}
+
+let cachedStore: RecipeCacheStore | null | undefined;
+
+/**
+ * Shared cache store selected through configuration, or null when caching is off
+ */
+export function getRecipeCacheStore(): RecipeCacheStore | null {
+  if (cachedStore === undefined) {
+    const config = getRecipeCacheConfig();
+    cachedStore = config.store === 'off'
+      ? null
+      : config.store === 'file'
+        ? new FileRecipeCacheStore(config.maxEntries)
+        : new MemoryRecipeCacheStore(config.maxEntries);
+    console.log(`Using ${cachedStore?.name ?? 'no'} recipe cache`);
+  }
+  return cachedStore;
+}
+
+/**
+ * Look up a generated recipe. A failing store is logged and treated as a miss.
+ */
+export async function readRecipeCache(
+  key: string,
+  bypass = false,
+  store: RecipeCacheStore | null = getRecipeCacheStore()
+): Promise<{ status: RecipeCacheStatus; result: RecipeGenerationResult | null }> {
+  if (!store) return { status: 'OFF', result: null };
+  if (bypass) return { status: 'BYPASS', result: null };
+
+  try {
+    const entry = await store.get(key);
+    if (entry) return { status: 'HIT', result: entry.result };
+  } catch (error) {
+    console.error('Recipe cache read failed:', error);
+  }
+  return { status: 'MISS', result: null };
+}
+
+/**
+ * Remember a generated recipe. Recipes pieced together from plain text are not
+ * cached, so the next request gets another chance at a proper answer.
+ */
+export async function writeRecipeCache(
+  key: string,
+  result: RecipeGenerationResult,
+  store: RecipeCacheStore | null = getRecipeCacheStore(),
+  ttlHours = getRecipeCacheConfig().ttlHours
+): Promise<void> {
+  if (!store || result.source === 'text-fallback') return;
+
+  const now = Date.now();
+  try {
+    await store.set({ key, result, createdAt: now, expiresAt: now + ttlHours * 60 * 60 * 1000 });
+  } catch (error) {
+    console.error('Recipe cache write failed:', error);
+  }
+}
+
+export type { RecipeCacheEntry, RecipeCacheStore } from '@/lib/cache/types';
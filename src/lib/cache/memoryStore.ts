@@ -0,0 +1,35 @@
+import { RecipeCacheEntry, RecipeCacheStore } from '@/lib/cache/types';
+
+/**
+ * In-process LRU cache. Map keeps insertion order, so re-inserting an entry on
+ * every hit leaves the least recently used one first.
+ */
+export class MemoryRecipeCacheStore implements RecipeCacheStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, RecipeCacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<RecipeCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, entry);
+    // Callers get their own copy, so changing the recipe cannot change the cache
+    return structuredClone(entry);
+  }
+
+  async set(entry: RecipeCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, structuredClone(entry));
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { RecipeGenerationResult } from '@/lib/recipeGeneration';
+
+export interface RecipeCacheEntry {
+  key: string;
+  result: RecipeGenerationResult;
+  // Epoch milliseconds
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Storage for generated recipes, keyed by a hash of the request. Stores drop
+ * expired entries and evict the least recently used ones beyond their limit.
+ */
+export interface RecipeCacheStore {
+  readonly name: string;
+  get(key: string): Promise<RecipeCacheEntry | null>;
+  set(entry: RecipeCacheEntry): Promise<void>;
+}
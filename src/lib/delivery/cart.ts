@@ -0,0 +1,137 @@
+import { Ingredient, UnitSystem } from '@/types/recipe';
+import { CartLine, DeliveryCart, DeliveryProduct, PackSize } from '@/types/delivery';
+import { ShoppingListItem } from '@/types/shopping';
+import { findNutrientFood } from '@/utils/nutrition';
+import { matchProduct } from '@/utils/productMatching';
+import { buildShoppingList, formatShoppingItem, shoppingKey } from '@/utils/shoppingList';
+import { findUnit, parseMeasurement, toBaseQuantity } from '@/utils/unitConversion';
+
+export const MAX_CART_INGREDIENTS = 100;
+export const MAX_PACKS_PER_LINE = 99;
+
+// How much of an ingredient a recipe needs: grams, milliliters and counted
+// pieces by unit word ("" for plain counts like "2 eggs")
+interface NeededAmount {
+  mass: number;
+  volume: number;
+  counts: Map<string, number>;
+}
+
+function singularUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace(/(?:es|s)$/, '');
+}
+
+function addNeeded(needed: NeededAmount, ingredient: Ingredient) {
+  const measurement = parseMeasurement(ingredient.quantity, ingredient.unit);
+  if (!measurement.quantity) return;
+
+  // Buy for the top of a range
+  const amount = measurement.quantity.max ?? measurement.quantity.min;
+  const base = toBaseQuantity(measurement);
+
+  if (base && base.dimension !== 'count') {
+    needed[base.dimension] += base.quantity.max ?? base.quantity.min;
+  } else {
+    const unit = singularUnit(measurement.unitText);
+    needed.counts.set(unit, (needed.counts.get(unit) ?? 0) + amount);
+  }
+}
+
+/**
+ * Number of packs that cover the needed amount. Mass and volume convert
+ * through the food's density when the pack is sold the other way; an amount
+ * that cannot be compared to the pack ("to taste", "3 cloves" of a garlic
+ * head) takes one pack.
+ */
+export function packsNeeded(needed: NeededAmount, size: PackSize, ingredientName: string): number {
+  const unit = size.unit ? findUnit(size.unit) : null;
+  let required = 0;
+  let packAmount = size.quantity;
+
+  if (unit && unit.dimension !== 'count') {
+    packAmount = size.quantity * unit.toBase;
+    required = needed[unit.dimension];
+
+    const density = findNutrientFood(ingredientName)?.density;
+    if (density) {
+      required += unit.dimension === 'mass' ? needed.volume * density : needed.mass / density;
+    }
+  } else {
+    required = needed.counts.get(singularUnit(size.unit)) ?? 0;
+  }
+
+  if (required <= 0 || packAmount <= 0) return 1;
+  // Tolerate rounding in converted amounts: 500.0000001 g still fits a 500 g pack
+  return Math.max(1, Math.ceil(required / packAmount - 1e-6));
+}
+
+/**
+ * Pick the product size for a need: the cheapest way to cover it, and the
+ * fewest leftovers among equally priced options
+ */
+function choosePack(needed: NeededAmount, sizes: DeliveryProduct[], ingredientName: string) {
+  return sizes
+    .map(product => {
+      const packs = packsNeeded(needed, product.size, ingredientName);
+      return { product, packs, cost: packs * product.price, bought: packs * product.size.quantity };
+    })
+    .sort((a, b) => a.cost - b.cost || a.bought - b.bought)[0];
+}
+
+/**
+ * Turn a recipe's ingredients into a delivery cart. Each ingredient is
+ * matched to a catalog product and rounded up to whole packs ("150 g cheese"
+ * becomes one 200 g pack); ingredients with no product are listed as unmatched.
+ */
+export function buildCart(ingredients: Ingredient[], catalog: DeliveryProduct[], unitSystem: UnitSystem = 'metric'): DeliveryCart {
+  // The shopping list merges repeated ingredients and drops water
+  const items = buildShoppingList([{ title: '', ingredients, instructions: [] }], unitSystem);
+  const lines: CartLine[] = [];
+  const unmatched: string[] = [];
+
+  // Ingredients that buy the same product share a line ("eggs" and "egg yolks")
+  const groups = new Map<string, { product: DeliveryProduct; items: ShoppingListItem[] }>();
+  items.forEach(item => {
+    const product = matchProduct(item.name, catalog);
+    if (!product) {
+      unmatched.push(item.name);
+      return;
+    }
+
+    const group = groups.get(product.name);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(product.name, { product, items: [item] });
+    }
+  });
+
+  groups.forEach(({ product, items: groupItems }) => {
+    const keys = new Set(groupItems.map(item => item.key));
+    const needed: NeededAmount = { mass: 0, volume: 0, counts: new Map() };
+    ingredients
+      .filter(ingredient => keys.has(shoppingKey(ingredient.name)))
+      .forEach(ingredient => addNeeded(needed, ingredient));
+
+    const sizes = catalog.filter(candidate => candidate.name === product.name);
+    const { product: pack, packs } = choosePack(needed, sizes, groupItems[0].name);
+
+    lines.push({
+      sku: pack.sku,
+      productName: pack.name,
+      size: pack.size,
+      packs: Math.min(MAX_PACKS_PER_LINE, packs),
+      unitPrice: pack.price,
+      neededFor: groupItems.map(formatShoppingItem)
+    });
+  });
+
+  return { lines, unmatched, total: cartTotal(lines) };
+}
+
+/**
+ * Price of the given lines, rounded to cents
+ */
+export function cartTotal(lines: { packs: number; unitPrice: number }[]): number {
+  return Math.round(lines.reduce((sum, line) => sum + line.packs * line.unitPrice, 0) * 100) / 100;
+}
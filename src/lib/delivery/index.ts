@@ -0,0 +1,19 @@
+import { MockDeliveryProvider } from '@/lib/delivery/mockProvider';
+import { DeliveryProvider } from '@/lib/delivery/types';
+
+let cachedProvider: DeliveryProvider | null = null;
+
+/**
+ * Shared delivery provider. Only the local mock exists so far; a real
+ * service plugs in here behind the same interface.
+ */
+export function getDeliveryProvider(): DeliveryProvider {
+  if (!cachedProvider) {
+    cachedProvider = new MockDeliveryProvider();
+    console.log(`Using ${cachedProvider.name} delivery provider`);
+  }
+  return cachedProvider;
+}
+
+export { DeliveryOrderError } from '@/lib/delivery/types';
+export type { DeliveryProvider } from '@/lib/delivery/types';
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { DeliveryOrder, DeliveryProduct, OrderItem, OrderLine, OrderSubstitution } from '@/types/delivery';
+import { DeliveryOrderError, DeliveryProvider } from '@/lib/delivery/types';
+import { cartTotal } from '@/lib/delivery/cart';
+import sampleCatalog from '@/data/deliveryCatalog.json';
+
+interface MockProduct extends DeliveryProduct {
+  outOfStock?: boolean;
+  // Sent instead when this product is out of stock
+  substituteSku?: string;
+}
+
+const MOCK_PRODUCTS = sampleCatalog.products as MockProduct[];
+
+// Simulated time from order to doorstep
+const DELIVERY_LEAD_TIME_MS = 2 * 60 * 60 * 1000;
+
+function toOrderLine(product: DeliveryProduct, packs: number): OrderLine {
+  return { sku: product.sku, productName: product.name, size: product.size, packs, unitPrice: product.price };
+}
+
+/**
+ * Delivery provider that confirms orders locally. Products flagged as out of
+ * stock in the sample catalog are swapped for their substitute when they have
+ * one and dropped otherwise; an order where nothing is left fails.
+ */
+export class MockDeliveryProvider implements DeliveryProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly products: MockProduct[] = MOCK_PRODUCTS) {}
+
+  async getCatalog(): Promise<DeliveryProduct[]> {
+    return this.products.map(({ sku, name, aliases, size, price }) => ({ sku, name, aliases, size, price }));
+  }
+
+  async submitOrder(items: OrderItem[]): Promise<DeliveryOrder> {
+    const lines: OrderLine[] = [];
+    const substitutions: OrderSubstitution[] = [];
+    const outOfStock: OrderLine[] = [];
+
+    items.forEach(item => {
+      const product = this.products.find(candidate => candidate.sku === item.sku);
+      if (!product) {
+        throw new DeliveryOrderError(`Unknown product: ${item.sku}`);
+      }
+
+      if (!product.outOfStock) {
+        lines.push(toOrderLine(product, item.packs));
+        return;
+      }
+
+      const substitute = this.products.find(candidate => candidate.sku === product.substituteSku && !candidate.outOfStock);
+      if (substitute) {
+        lines.push(toOrderLine(substitute, item.packs));
+        substitutions.push({
+          sku: product.sku,
+          productName: product.name,
+          replacementSku: substitute.sku,
+          replacementName: substitute.name
+        });
+      } else {
+        outOfStock.push(toOrderLine(product, item.packs));
+      }
+    });
+
+    if (lines.length === 0) {
+      return {
+        status: 'failed',
+        lines,
+        substitutions,
+        outOfStock,
+        total: 0,
+        message: 'None of the products are in stock, so no order was placed.'
+      };
+    }
+
+    return {
+      status: 'confirmed',
+      orderId: `MOCK-${randomUUID().slice(0, 8).toUpperCase()}`,
+      lines,
+      substitutions,
+      outOfStock,
+      total: cartTotal(lines),
+      estimatedDelivery: new Date(Date.now() + DELIVERY_LEAD_TIME_MS).toISOString()
+    };
+  }
+}
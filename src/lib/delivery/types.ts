@@ -0,0 +1,20 @@
+import { DeliveryOrder, DeliveryProduct, OrderItem } from '@/types/delivery';
+
+/**
+ * A grocery delivery service that sells products and takes orders
+ */
+export interface DeliveryProvider {
+  readonly name: string;
+  getCatalog(): Promise<DeliveryProduct[]>;
+  submitOrder(items: OrderItem[]): Promise<DeliveryOrder>;
+}
+
+/**
+ * An order the provider refused as invalid (unknown products, bad pack counts)
+ */
+export class DeliveryOrderError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'DeliveryOrderError';
+  }
+}
@@ -0,0 +1,69 @@
+import { DishCandidate } from '@/types/recipe';
+import { extractJsonFromResponse } from '@/lib/recipeGeneration';
+
+export const DEFAULT_DISH_CANDIDATES = 3;
+export const MAX_DISH_CANDIDATES = 5;
+
+export function generateIdentifyDishPrompt(maxCandidates: number, imageCount = 1): string {
+  return `
+Identify the dish shown in ${imageCount > 1 ? `these ${imageCount} photos (all of the same dish)` : 'this food image'}.
+IMPORTANT: Respond ONLY with a valid JSON object. Do not include any markdown formatting, explanations, or other text.
+
+List up to ${maxCandidates} candidate dishes, most likely first, in this format:
+{
+  "candidates": [
+    {
+      "name": "Name of the dish",
+      "confidence": 0.8,
+      "components": ["visible component", "another visible component"]
+    }
+  ]
+}
+
+"confidence" is a number between 0 and 1; the confidences of all candidates should add up to at most 1.
+"components" lists the parts of the dish you can actually see (e.g. "fried egg", "corn tortilla", "salsa verde").
+Response must be valid JSON only.
+`;
+}
+
+function toCandidate(value: unknown): DishCandidate | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const candidate = value as Record<string, unknown>;
+  const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+  if (!name) return null;
+
+  let confidence = typeof candidate.confidence === 'number' ? candidate.confidence : Number(candidate.confidence);
+  if (!Number.isFinite(confidence) || confidence < 0) {
+    confidence = 0;
+  } else if (confidence > 1) {
+    // Some models answer in percent
+    confidence = Math.min(confidence / 100, 1);
+  }
+
+  const components = Array.isArray(candidate.components)
+    ? candidate.components
+      .filter((component): component is string => typeof component === 'string' && component.trim().length > 0)
+      .map(component => component.trim())
+    : [];
+
+  return { name, confidence, components };
+}
+
+/**
+ * Read dish candidates from model output, most confident first
+ */
+export function parseDishCandidates(content: string, maxCandidates: number): DishCandidate[] {
+  const json = extractJsonFromResponse(content);
+  const list = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' ? (json as Record<string, unknown>).candidates : null;
+
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map(toCandidate)
+    .filter((candidate): candidate is DishCandidate => candidate !== null)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxCandidates);
+}
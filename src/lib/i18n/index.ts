@@ -0,0 +1,99 @@
+import { Locale } from '@/types/recipe';
+import { en, MessageKey } from '@/lib/i18n/messages/en';
+import { es } from '@/lib/i18n/messages/es';
+import { fr } from '@/lib/i18n/messages/fr';
+
+export type { MessageKey };
+
+export interface LocaleOption {
+  locale: Locale;
+  // Name of the language in that language, for the language picker
+  label: string;
+  // English name, used in prompts
+  language: string;
+}
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { locale: 'en', label: 'English', language: 'English' },
+  { locale: 'es', label: 'Español', language: 'Spanish' },
+  { locale: 'fr', label: 'Français', language: 'French' }
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, fr };
+
+export type TranslationParams = Record<string, string | number>;
+
+function supportedLocale(tag: string): Locale | null {
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(option => option.locale === language)?.locale ?? null;
+}
+
+/**
+ * Supported locale for a language tag ("es-MX" -> "es"), English otherwise
+ */
+export function parseLocale(value: unknown): Locale {
+  return typeof value === 'string' ? supportedLocale(value) ?? 'en' : 'en';
+}
+
+/**
+ * First supported language in the browser's language settings
+ */
+export function detectUserLocale(): Locale {
+  if (typeof navigator === 'undefined') return 'en';
+
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const locale = language && supportedLocale(language);
+    if (locale) return locale;
+  }
+  return 'en';
+}
+
+/**
+ * English name of a locale's language ("es" -> "Spanish")
+ */
+export function getLanguageName(locale: Locale): string {
+  return SUPPORTED_LOCALES.find(option => option.locale === locale)?.language ?? 'English';
+}
+
+/**
+ * A number with the locale's decimal and grouping separators (1.5 -> "1,5" in French)
+ */
+export function formatNumber(value: number, locale: Locale, maximumFractionDigits = 2): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+}
+
+/**
+ * Rewrite the decimals in free text ("1.5 kg", "0.25") for the locale. Whole
+ * numbers and fractions read the same everywhere and are left alone.
+ */
+export function localizeNumbers(text: string, locale: Locale): string {
+  if (locale === 'en') return text;
+  return text.replace(/\d+\.\d+/g, number => formatNumber(Number(number), locale));
+}
+
+/**
+ * Look up a message and fill in its placeholders. Numbers are formatted for the
+ * locale, and a "count" that the locale treats as singular picks the "_one" form.
+ */
+export function translate(locale: Locale, key: MessageKey, params: TranslationParams = {}): string {
+  const catalog = CATALOGS[locale] ?? en;
+
+  let message = catalog[key];
+  if (typeof params.count === 'number' && new Intl.PluralRules(locale).select(params.count) === 'one') {
+    message = catalog[`${key}_one` as MessageKey] ?? message;
+  }
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+}
+
+/**
+ * translate() bound to one locale, for components
+ */
+export function getTranslator(locale: Locale): (key: MessageKey, params?: TranslationParams) => string {
+  return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,120 @@
+// English strings; the other catalogs must translate every key.
+// "{name}" placeholders are filled in by translate(); keys ending in "_one"
+// are used instead of the plain key when the count is one.
+export const en = {
+  'home.title': 'Food Recipe Generator',
+  'home.subtitle': 'Upload a photo of food and get an instant recipe with ingredients and instructions',
+  'home.savedRecipes': 'My Saved Recipes →',
+  'home.language': 'Language',
+  'home.fromPhotos': 'From Photos',
+  'home.pasteRecipe': 'Paste a Recipe',
+  'home.howItWorks': 'How it works',
+  'home.step1Title': 'Upload your food photos',
+  'home.step1Text': 'Take a photo or upload a few images of any dish (add a cross-section if it has a filling) and choose your preferred units',
+  'home.step2Title': 'AI analyzes the image',
+  'home.step2Text': 'Our AI identifies the dish and its components, and you confirm or correct its best guesses',
+  'home.step3Title': 'Get your recipe',
+  'home.step3Text': 'Receive complete ingredients list and cooking instructions in your preferred units',
+  'home.endedEarly': 'Recipe generation ended early, so this recipe may be incomplete. You can keep it or generate another one.',
+  'home.textFallback': 'The AI response could not be read as a structured recipe, so this recipe was extracted from its text and may be incomplete.',
+  'home.generateAnother': 'Generate Another Recipe',
+  'home.footer': 'Powered by OpenAI GPT-4 Vision • Upload food images to generate recipes instantly',
+
+  'errors.network': 'Network error. Please check your connection and try again.',
+  'errors.rateLimited': 'Too many requests. Please try again later.',
+  'errors.generateFailed': 'Failed to generate recipe',
+  'errors.endedUnexpectedly': 'Recipe generation ended unexpectedly. Please try again.',
+  'errors.importFailed': 'Failed to import recipe',
+
+  'upload.tooMany': 'You can upload up to {max} photos of the same dish',
+  'upload.invalidFile': 'Invalid file',
+  'upload.processFailed': 'Failed to process image. Please try again.',
+  'upload.dropHere': 'Drop your food images here',
+  'upload.addAnother': 'Add another photo of this dish',
+  'upload.prompt': 'Upload food images',
+  'upload.dragOrClick': 'Drag and drop or click to select',
+  'upload.limits': 'Up to {max} photos of the same dish • JPEG, PNG, WebP (max {size}MB each)',
+  'upload.photoAlt': 'Food photo {number}',
+  'upload.remove': 'Remove photo {number}',
+  'upload.moveLeft': 'Move photo {number} left',
+  'upload.moveRight': 'Move photo {number} right',
+  'upload.generating': 'Generating recipe...',
+  'upload.generate': 'Generate Recipe from {count} Photos',
+  'upload.generate_one': 'Generate Recipe from {count} Photo',
+
+  'units.preferred': 'Preferred Units',
+  'units.preset.us.label': 'US',
+  'units.preset.us.description': 'Ounces, cups, spoons, Fahrenheit, inches',
+  'units.preset.metric.label': 'Metric',
+  'units.preset.metric.description': 'Grams, milliliters, spoons, Celsius, centimeters',
+  'units.preset.uk.label': 'UK',
+  'units.preset.uk.description': 'Grams, milliliters, gas marks, dry ingredients weighed',
+  'units.preset.uk-imperial.label': 'UK imperial',
+  'units.preset.uk-imperial.description': 'Ounces, UK pints, gas marks, inches',
+  'units.preset.australia.label': 'Australia',
+  'units.preset.australia.description': 'Grams, 250 ml metric cups, spoons, Celsius',
+  'units.preset.weighed.label': 'Weighed',
+  'units.preset.weighed.description': 'Grams for dry ingredients, spoons for small amounts',
+  'units.customize': 'Customize units',
+  'units.custom': 'Custom units',
+  'units.category.weight': 'Weight',
+  'units.category.volume': 'Volume',
+  'units.category.smallVolume': 'Small amounts',
+  'units.category.temperature': 'Temperature',
+  'units.category.length': 'Length',
+  'units.choice.weight.grams': 'Grams',
+  'units.choice.weight.ounces': 'Ounces',
+  'units.choice.volume.milliliters': 'Milliliters',
+  'units.choice.volume.metric-cups': 'Metric cups (250 ml)',
+  'units.choice.volume.us-cups': 'US cups',
+  'units.choice.volume.uk-pints': 'UK pints',
+  'units.choice.smallVolume.spoons': 'Spoons',
+  'units.choice.smallVolume.milliliters': 'Milliliters',
+  'units.choice.temperature.celsius': 'Celsius',
+  'units.choice.temperature.fahrenheit': 'Fahrenheit',
+  'units.choice.temperature.gas-mark': 'Gas mark',
+  'units.choice.length.centimeters': 'Centimeters',
+  'units.choice.length.inches': 'Inches',
+  'units.weighDry': 'Weigh dry ingredients (flour, sugar, rice)',
+
+  'recipe.servings': '{count} servings',
+  'recipe.servings_one': '{count} serving',
+  'recipe.decreaseServings': 'Decrease servings',
+  'recipe.increaseServings': 'Increase servings',
+  'recipe.resetServings': '(reset to {count})',
+  'recipe.prepTime': 'Prep {minutes} min',
+  'recipe.cookTime': 'Cook {minutes} min',
+  'recipe.totalTime': 'Total {minutes} minutes',
+  'recipe.minutes': '{minutes} minutes',
+  'recipe.stepMinutes': '{minutes} min',
+  'recipe.difficulty.easy': 'Easy',
+  'recipe.difficulty.medium': 'Medium',
+  'recipe.difficulty.hard': 'Hard',
+  'recipe.metricUnits': 'Metric units',
+  'recipe.imperialUnits': 'Imperial units',
+  'recipe.ingredients': 'Ingredients',
+  'recipe.swapped': 'swapped',
+  'recipe.swappedFor': 'for',
+  'recipe.leftOut': 'left out',
+  'recipe.equipment': 'Equipment',
+  'recipe.instructions': 'Instructions',
+  'recipe.cookMode': 'Cook Mode',
+  'recipe.step': 'Step {number}',
+  'recipe.updated': 'updated',
+  'recipe.generating': 'Generating recipe...',
+  'recipe.save': 'Save Recipe',
+  'recipe.saving': 'Saving...',
+  'recipe.saved': 'Saved',
+  'recipe.copy': 'Copy Recipe',
+  'recipe.copied': 'Recipe Copied!',
+  'recipe.downloadMarkdown': 'Download Markdown',
+  'recipe.downloadPdf': 'Download PDF',
+  'recipe.preparingPdf': 'Preparing PDF...',
+  'recipe.print': 'Print',
+  'recipe.exportFor': 'Export for other apps:',
+  'recipe.exporting': 'Exporting...',
+  'recipe.exportFailed': 'Failed to export recipe. Please try again.',
+  'recipe.saveFailed': 'Failed to save recipe. Please try again.'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,117 @@
+import { MessageKey } from '@/lib/i18n/messages/en';
+
+export const es: Record<MessageKey, string> = {
+  'home.title': 'Generador de Recetas',
+  'home.subtitle': 'Sube una foto de un plato y obtén al instante una receta con ingredientes e instrucciones',
+  'home.savedRecipes': 'Mis recetas guardadas →',
+  'home.language': 'Idioma',
+  'home.fromPhotos': 'Desde fotos',
+  'home.pasteRecipe': 'Pegar una receta',
+  'home.howItWorks': 'Cómo funciona',
+  'home.step1Title': 'Sube las fotos del plato',
+  'home.step1Text': 'Haz una foto o sube varias imágenes de cualquier plato (añade un corte si tiene relleno) y elige tus unidades',
+  'home.step2Title': 'La IA analiza la imagen',
+  'home.step2Text': 'Nuestra IA identifica el plato y sus componentes, y tú confirmas o corriges su propuesta',
+  'home.step3Title': 'Obtén tu receta',
+  'home.step3Text': 'Recibe la lista completa de ingredientes y las instrucciones en tus unidades preferidas',
+  'home.endedEarly': 'La generación de la receta terminó antes de tiempo, así que puede estar incompleta. Puedes conservarla o generar otra.',
+  'home.textFallback': 'La respuesta de la IA no se pudo leer como receta estructurada, así que esta receta se extrajo de su texto y puede estar incompleta.',
+  'home.generateAnother': 'Generar otra receta',
+  'home.footer': 'Con tecnología de OpenAI GPT-4 Vision • Sube fotos de comida para generar recetas al instante',
+
+  'errors.network': 'Error de red. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.rateLimited': 'Demasiadas solicitudes. Inténtalo de nuevo más tarde.',
+  'errors.generateFailed': 'No se pudo generar la receta',
+  'errors.endedUnexpectedly': 'La generación de la receta terminó de forma inesperada. Inténtalo de nuevo.',
+  'errors.importFailed': 'No se pudo importar la receta',
+
+  'upload.tooMany': 'Puedes subir hasta {max} fotos del mismo plato',
+  'upload.invalidFile': 'Archivo no válido',
+  'upload.processFailed': 'No se pudo procesar la imagen. Inténtalo de nuevo.',
+  'upload.dropHere': 'Suelta aquí tus fotos',
+  'upload.addAnother': 'Añade otra foto de este plato',
+  'upload.prompt': 'Sube fotos de comida',
+  'upload.dragOrClick': 'Arrastra y suelta o haz clic para seleccionar',
+  'upload.limits': 'Hasta {max} fotos del mismo plato • JPEG, PNG, WebP (máx. {size} MB cada una)',
+  'upload.photoAlt': 'Foto de comida {number}',
+  'upload.remove': 'Quitar la foto {number}',
+  'upload.moveLeft': 'Mover la foto {number} a la izquierda',
+  'upload.moveRight': 'Mover la foto {number} a la derecha',
+  'upload.generating': 'Generando receta...',
+  'upload.generate': 'Generar receta a partir de {count} fotos',
+  'upload.generate_one': 'Generar receta a partir de {count} foto',
+
+  'units.preferred': 'Unidades preferidas',
+  'units.preset.us.label': 'EE. UU.',
+  'units.preset.us.description': 'Onzas, tazas, cucharas, Fahrenheit, pulgadas',
+  'units.preset.metric.label': 'Métrico',
+  'units.preset.metric.description': 'Gramos, mililitros, cucharas, Celsius, centímetros',
+  'units.preset.uk.label': 'Reino Unido',
+  'units.preset.uk.description': 'Gramos, mililitros, marcas de gas, ingredientes secos pesados',
+  'units.preset.uk-imperial.label': 'Imperial británico',
+  'units.preset.uk-imperial.description': 'Onzas, pintas británicas, marcas de gas, pulgadas',
+  'units.preset.australia.label': 'Australia',
+  'units.preset.australia.description': 'Gramos, tazas métricas de 250 ml, cucharas, Celsius',
+  'units.preset.weighed.label': 'Al peso',
+  'units.preset.weighed.description': 'Gramos para los ingredientes secos, cucharas para cantidades pequeñas',
+  'units.customize': 'Personalizar unidades',
+  'units.custom': 'Unidades personalizadas',
+  'units.category.weight': 'Peso',
+  'units.category.volume': 'Volumen',
+  'units.category.smallVolume': 'Cantidades pequeñas',
+  'units.category.temperature': 'Temperatura',
+  'units.category.length': 'Longitud',
+  'units.choice.weight.grams': 'Gramos',
+  'units.choice.weight.ounces': 'Onzas',
+  'units.choice.volume.milliliters': 'Mililitros',
+  'units.choice.volume.metric-cups': 'Tazas métricas (250 ml)',
+  'units.choice.volume.us-cups': 'Tazas de EE. UU.',
+  'units.choice.volume.uk-pints': 'Pintas británicas',
+  'units.choice.smallVolume.spoons': 'Cucharas',
+  'units.choice.smallVolume.milliliters': 'Mililitros',
+  'units.choice.temperature.celsius': 'Celsius',
+  'units.choice.temperature.fahrenheit': 'Fahrenheit',
+  'units.choice.temperature.gas-mark': 'Marca de gas',
+  'units.choice.length.centimeters': 'Centímetros',
+  'units.choice.length.inches': 'Pulgadas',
+  'units.weighDry': 'Pesar los ingredientes secos (harina, azúcar, arroz)',
+
+  'recipe.servings': '{count} raciones',
+  'recipe.servings_one': '{count} ración',
+  'recipe.decreaseServings': 'Menos raciones',
+  'recipe.increaseServings': 'Más raciones',
+  'recipe.resetServings': '(volver a {count})',
+  'recipe.prepTime': 'Preparación {minutes} min',
+  'recipe.cookTime': 'Cocción {minutes} min',
+  'recipe.totalTime': 'Total {minutes} minutos',
+  'recipe.minutes': '{minutes} minutos',
+  'recipe.stepMinutes': '{minutes} min',
+  'recipe.difficulty.easy': 'Fácil',
+  'recipe.difficulty.medium': 'Media',
+  'recipe.difficulty.hard': 'Difícil',
+  'recipe.metricUnits': 'Unidades métricas',
+  'recipe.imperialUnits': 'Unidades imperiales',
+  'recipe.ingredients': 'Ingredientes',
+  'recipe.swapped': 'cambiado',
+  'recipe.swappedFor': 'por',
+  'recipe.leftOut': 'omitido',
+  'recipe.equipment': 'Utensilios',
+  'recipe.instructions': 'Instrucciones',
+  'recipe.cookMode': 'Modo cocina',
+  'recipe.step': 'Paso {number}',
+  'recipe.updated': 'actualizado',
+  'recipe.generating': 'Generando receta...',
+  'recipe.save': 'Guardar receta',
+  'recipe.saving': 'Guardando...',
+  'recipe.saved': 'Guardada',
+  'recipe.copy': 'Copiar receta',
+  'recipe.copied': '¡Receta copiada!',
+  'recipe.downloadMarkdown': 'Descargar Markdown',
+  'recipe.downloadPdf': 'Descargar PDF',
+  'recipe.preparingPdf': 'Preparando PDF...',
+  'recipe.print': 'Imprimir',
+  'recipe.exportFor': 'Exportar para otras apps:',
+  'recipe.exporting': 'Exportando...',
+  'recipe.exportFailed': 'No se pudo exportar la receta. Inténtalo de nuevo.',
+  'recipe.saveFailed': 'No se pudo guardar la receta. Inténtalo de nuevo.'
+};
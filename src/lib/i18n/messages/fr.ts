@@ -0,0 +1,117 @@
+import { MessageKey } from '@/lib/i18n/messages/en';
+
+export const fr: Record<MessageKey, string> = {
+  'home.title': 'Générateur de recettes',
+  'home.subtitle': 'Envoyez une photo d’un plat et obtenez aussitôt une recette avec ses ingrédients et ses étapes',
+  'home.savedRecipes': 'Mes recettes enregistrées →',
+  'home.language': 'Langue',
+  'home.fromPhotos': 'À partir de photos',
+  'home.pasteRecipe': 'Coller une recette',
+  'home.howItWorks': 'Comment ça marche',
+  'home.step1Title': 'Envoyez vos photos',
+  'home.step1Text': 'Prenez une photo ou envoyez quelques images d’un plat (ajoutez une vue en coupe s’il est garni) et choisissez vos unités',
+  'home.step2Title': 'L’IA analyse l’image',
+  'home.step2Text': 'Notre IA identifie le plat et ses composants, puis vous confirmez ou corrigez ses propositions',
+  'home.step3Title': 'Recevez votre recette',
+  'home.step3Text': 'Obtenez la liste complète des ingrédients et les étapes dans vos unités préférées',
+  'home.endedEarly': 'La génération s’est arrêtée trop tôt, la recette est peut-être incomplète. Vous pouvez la garder ou en générer une autre.',
+  'home.textFallback': 'La réponse de l’IA n’a pas pu être lue comme une recette structurée. Cette recette a été extraite de son texte et peut être incomplète.',
+  'home.generateAnother': 'Générer une autre recette',
+  'home.footer': 'Propulsé par OpenAI GPT-4 Vision • Envoyez des photos de plats pour générer des recettes instantanément',
+
+  'errors.network': 'Erreur réseau. Vérifiez votre connexion et réessayez.',
+  'errors.rateLimited': 'Trop de requêtes. Réessayez plus tard.',
+  'errors.generateFailed': 'Impossible de générer la recette',
+  'errors.endedUnexpectedly': 'La génération de la recette s’est arrêtée de façon inattendue. Réessayez.',
+  'errors.importFailed': 'Impossible d’importer la recette',
+
+  'upload.tooMany': 'Vous pouvez envoyer jusqu’à {max} photos du même plat',
+  'upload.invalidFile': 'Fichier non valide',
+  'upload.processFailed': 'Impossible de traiter l’image. Réessayez.',
+  'upload.dropHere': 'Déposez vos photos ici',
+  'upload.addAnother': 'Ajouter une autre photo de ce plat',
+  'upload.prompt': 'Envoyer des photos de plats',
+  'upload.dragOrClick': 'Glissez-déposez ou cliquez pour choisir',
+  'upload.limits': 'Jusqu’à {max} photos du même plat • JPEG, PNG, WebP ({size} Mo max. chacune)',
+  'upload.photoAlt': 'Photo du plat {number}',
+  'upload.remove': 'Retirer la photo {number}',
+  'upload.moveLeft': 'Déplacer la photo {number} vers la gauche',
+  'upload.moveRight': 'Déplacer la photo {number} vers la droite',
+  'upload.generating': 'Génération de la recette...',
+  'upload.generate': 'Générer la recette à partir de {count} photos',
+  'upload.generate_one': 'Générer la recette à partir de {count} photo',
+
+  'units.preferred': 'Unités préférées',
+  'units.preset.us.label': 'États-Unis',
+  'units.preset.us.description': 'Onces, tasses, cuillères, Fahrenheit, pouces',
+  'units.preset.metric.label': 'Métrique',
+  'units.preset.metric.description': 'Grammes, millilitres, cuillères, Celsius, centimètres',
+  'units.preset.uk.label': 'Royaume-Uni',
+  'units.preset.uk.description': 'Grammes, millilitres, thermostats gaz, ingrédients secs pesés',
+  'units.preset.uk-imperial.label': 'Impérial britannique',
+  'units.preset.uk-imperial.description': 'Onces, pintes britanniques, thermostats gaz, pouces',
+  'units.preset.australia.label': 'Australie',
+  'units.preset.australia.description': 'Grammes, tasses métriques de 250 ml, cuillères, Celsius',
+  'units.preset.weighed.label': 'Au poids',
+  'units.preset.weighed.description': 'Grammes pour les ingrédients secs, cuillères pour les petites quantités',
+  'units.customize': 'Personnaliser les unités',
+  'units.custom': 'Unités personnalisées',
+  'units.category.weight': 'Poids',
+  'units.category.volume': 'Volume',
+  'units.category.smallVolume': 'Petites quantités',
+  'units.category.temperature': 'Température',
+  'units.category.length': 'Longueur',
+  'units.choice.weight.grams': 'Grammes',
+  'units.choice.weight.ounces': 'Onces',
+  'units.choice.volume.milliliters': 'Millilitres',
+  'units.choice.volume.metric-cups': 'Tasses métriques (250 ml)',
+  'units.choice.volume.us-cups': 'Tasses américaines',
+  'units.choice.volume.uk-pints': 'Pintes britanniques',
+  'units.choice.smallVolume.spoons': 'Cuillères',
+  'units.choice.smallVolume.milliliters': 'Millilitres',
+  'units.choice.temperature.celsius': 'Celsius',
+  'units.choice.temperature.fahrenheit': 'Fahrenheit',
+  'units.choice.temperature.gas-mark': 'Thermostat gaz',
+  'units.choice.length.centimeters': 'Centimètres',
+  'units.choice.length.inches': 'Pouces',
+  'units.weighDry': 'Peser les ingrédients secs (farine, sucre, riz)',
+
+  'recipe.servings': '{count} portions',
+  'recipe.servings_one': '{count} portion',
+  'recipe.decreaseServings': 'Moins de portions',
+  'recipe.increaseServings': 'Plus de portions',
+  'recipe.resetServings': '(revenir à {count})',
+  'recipe.prepTime': 'Préparation {minutes} min',
+  'recipe.cookTime': 'Cuisson {minutes} min',
+  'recipe.totalTime': 'Total {minutes} minutes',
+  'recipe.minutes': '{minutes} minutes',
+  'recipe.stepMinutes': '{minutes} min',
+  'recipe.difficulty.easy': 'Facile',
+  'recipe.difficulty.medium': 'Moyen',
+  'recipe.difficulty.hard': 'Difficile',
+  'recipe.metricUnits': 'Unités métriques',
+  'recipe.imperialUnits': 'Unités impériales',
+  'recipe.ingredients': 'Ingrédients',
+  'recipe.swapped': 'remplacé',
+  'recipe.swappedFor': 'par',
+  'recipe.leftOut': 'retiré',
+  'recipe.equipment': 'Matériel',
+  'recipe.instructions': 'Préparation',
+  'recipe.cookMode': 'Mode cuisine',
+  'recipe.step': 'Étape {number}',
+  'recipe.updated': 'modifié',
+  'recipe.generating': 'Génération de la recette...',
+  'recipe.save': 'Enregistrer la recette',
+  'recipe.saving': 'Enregistrement...',
+  'recipe.saved': 'Enregistrée',
+  'recipe.copy': 'Copier la recette',
+  'recipe.copied': 'Recette copiée !',
+  'recipe.downloadMarkdown': 'Télécharger en Markdown',
+  'recipe.downloadPdf': 'Télécharger en PDF',
+  'recipe.preparingPdf': 'Préparation du PDF...',
+  'recipe.print': 'Imprimer',
+  'recipe.exportFor': 'Exporter vers d’autres applis :',
+  'recipe.exporting': 'Export...',
+  'recipe.exportFailed': 'Impossible d’exporter la recette. Réessayez.',
+  'recipe.saveFailed': 'Impossible d’enregistrer la recette. Réessayez.'
+};
@@ -0,0 +1,162 @@
+import { Ingredient, Recipe } from '@/types/recipe';
+import { formatDurationText, parseDurationText } from '@/utils/durationUtils';
+
+// @name, @multi word name{quantity%unit}, with an optional (note) after it
+const INGREDIENT_PATTERN = /@([^@#~{}\s]+(?:[ \t]+[^@#~{}\s]+)*?)\{([^}]*)\}(?:\(([^)]*)\))?|@([^@#~{}\s.,;:!?()]+)(?:\(([^)]*)\))?/g;
+const COOKWARE_PATTERN = /#([^@#~{}\s]+(?:[ \t]+[^@#~{}\s]+)*?)\{[^}]*\}|#([^@#~{}\s.,;:!?()]+)/g;
+const TIMER_PATTERN = /~([^@#~{}]*)\{([^}]*)\}/g;
+
+// A paragraph that only lists ingredients, with no actual instruction text
+const INGREDIENT_LIST_PATTERN = /^(?:ingredients:?)?[\s,.;:]*(?:and[\s,.;:]*)?$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatReference(ingredient: Ingredient): string {
+  const amount = [ingredient.quantity, ingredient.unit].filter(Boolean).join('%');
+  return `@${ingredient.name}{${amount}}`;
+}
+
+function parseAmount(amount: string): { quantity: string; unit: string } {
+  const [quantity, ...unit] = amount.split('%');
+  return { quantity: quantity.trim(), unit: unit.join('%').trim() };
+}
+
+/**
+ * Convert a recipe into Cooklang text. Each ingredient is marked up at its
+ * first mention in the instructions; ingredients the instructions never
+ * mention are listed in an opening paragraph.
+ */
+export function toCooklang(recipe: Recipe): string {
+  const steps = [...recipe.instructions];
+  const unmatched: Ingredient[] = [];
+
+  recipe.ingredients.forEach(ingredient => {
+    const name = ingredient.name.replace(/[@#~{}]/g, '').trim();
+    if (!name) return;
+
+    const cleaned = { ...ingredient, name };
+    const pattern = new RegExp(`(^|[^\\w@])${escapeRegExp(name)}(?![\\w{])`, 'i');
+    const index = steps.findIndex(step => pattern.test(step));
+
+    if (index === -1) {
+      unmatched.push(cleaned);
+    } else {
+      steps[index] = steps[index].replace(pattern, (_match, prefix: string) => `${prefix}${formatReference(cleaned)}`);
+    }
+  });
+
+  const lines: string[] = [`>> title: ${recipe.title}`];
+  if (recipe.description) lines.push(`>> description: ${recipe.description.replace(/\s+/g, ' ')}`);
+  if (recipe.servings) lines.push(`>> servings: ${recipe.servings}`);
+  if (recipe.prepTime) lines.push(`>> prep time: ${formatDurationText(recipe.prepTime)}`);
+  if (recipe.cookTime) lines.push(`>> cook time: ${formatDurationText(recipe.cookTime)}`);
+  if (recipe.cookingTime) lines.push(`>> time: ${formatDurationText(recipe.cookingTime)}`);
+  lines.push('');
+
+  if (unmatched.length > 0) {
+    lines.push(`Ingredients: ${unmatched.map(formatReference).join(', ')}`, '');
+  }
+  steps.forEach(step => lines.push(step.replace(/\s*\n\s*/g, ' '), ''));
+
+  return lines.join('\n');
+}
+
+function parseServings(value: string | undefined): number | undefined {
+  const match = value?.match(/\d+/);
+  return match && Number(match[0]) > 0 ? Number(match[0]) : undefined;
+}
+
+function readMetadata(lines: string[]): { metadata: Record<string, string>; body: string[] } {
+  const metadata: Record<string, string> = {};
+  let body = lines;
+
+  // YAML-style front matter (newer Cooklang) with simple "key: value" lines
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      lines.slice(1, end).forEach(line => {
+        const match = line.match(/^\s*([\w ]+?)\s*:\s*(.*)$/);
+        if (match) metadata[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '').trim();
+      });
+      body = lines.slice(end + 1);
+    }
+  }
+
+  return {
+    metadata,
+    body: body.filter(line => {
+      const match = line.match(/^\s*>>\s*([^:]+?)\s*:\s*(.*)$/);
+      if (match) metadata[match[1].toLowerCase()] = match[2].trim();
+      return !match;
+    })
+  };
+}
+
+/**
+ * Parse Cooklang text into a recipe. Ingredients are collected in order of
+ * first appearance; cookware and timers are kept as plain text in the steps.
+ */
+export function parseCooklang(text: string, fallbackTitle = 'Imported Recipe'): Recipe {
+  const withoutComments = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\[-[\s\S]*?-\]/g, '')
+    .split('\n')
+    // "--" starts a line comment, except in the "---" front matter fences
+    .map(line => (line.trim() === '---' ? line : line.replace(/--.*$/, '')));
+
+  const { metadata, body } = readMetadata(withoutComments);
+  const ingredients: Ingredient[] = [];
+  const instructions: string[] = [];
+  const notes: string[] = [];
+
+  const paragraphs: string[][] = [[]];
+  body.forEach(line => {
+    if (!line.trim()) {
+      paragraphs.push([]);
+    } else if (/^\s*>(?!>)/.test(line)) {
+      notes.push(line.replace(/^\s*>\s*/, ''));
+    } else if (!/^\s*=/.test(line)) {
+      // "= Section" headings have no equivalent in our recipes
+      paragraphs[paragraphs.length - 1].push(line.trim());
+    }
+  });
+
+  paragraphs.filter(lines => lines.length > 0).forEach(lines => {
+    const paragraph = lines.join(' ');
+    const step = paragraph
+      .replace(INGREDIENT_PATTERN, (_match, braced?: string, amount?: string, bracedNote?: string, single?: string, singleNote?: string) => {
+        const name = (braced ?? single ?? '').trim();
+        const note = bracedNote ?? singleNote;
+        const ingredient = { name: note ? `${name}, ${note.trim()}` : name, ...parseAmount(amount ?? '') };
+        if (!ingredients.some(existing => existing.name === ingredient.name)) {
+          ingredients.push(ingredient);
+        }
+        return name;
+      })
+      .replace(COOKWARE_PATTERN, (_match, braced?: string, single?: string) => (braced ?? single ?? '').trim())
+      .replace(TIMER_PATTERN, (_match, name: string, amount: string) => {
+        const { quantity, unit } = parseAmount(amount);
+        return [quantity, unit].filter(Boolean).join(' ') || name.trim();
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const isIngredientList = INGREDIENT_LIST_PATTERN.test(paragraph.replace(INGREDIENT_PATTERN, ''));
+    if (step && !isIngredientList) {
+      instructions.push(step);
+    }
+  });
+
+  return {
+    title: metadata.title || fallbackTitle,
+    description: metadata.description || notes.join(' '),
+    ingredients,
+    instructions,
+    prepTime: parseDurationText(metadata['prep time']) ?? undefined,
+    cookTime: parseDurationText(metadata['cook time']) ?? undefined,
+    cookingTime: parseDurationText(metadata.time ?? metadata['total time'] ?? metadata['cook time']) ?? undefined,
+    servings: parseServings(metadata.servings ?? metadata.serves ?? metadata.yield)
+  };
+}
@@ -0,0 +1,6 @@
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
@@ -0,0 +1,86 @@
+import { Recipe, RecipeInterchangeFormat } from '@/types/recipe';
+import { getRecipeFileName } from '@/utils/recipeExport';
+import { parseCooklang, toCooklang } from '@/lib/interchange/cooklang';
+import { createPaprikaArchive, parsePaprikaFile } from '@/lib/interchange/paprika';
+import { parseSchemaOrgRecipes, toSchemaOrgRecipe } from '@/lib/interchange/schemaOrg';
+import { RecipeImportError } from '@/lib/interchange/errors';
+
+export { RecipeImportError };
+
+export interface RecipeFormatInfo {
+  label: string;
+  extension: string;
+  contentType: string;
+}
+
+export const RECIPE_FORMATS: Record<RecipeInterchangeFormat, RecipeFormatInfo> = {
+  'json-ld': { label: 'JSON-LD', extension: 'jsonld', contentType: 'application/ld+json' },
+  cooklang: { label: 'Cooklang', extension: 'cook', contentType: 'text/plain; charset=utf-8' },
+  paprika: { label: 'Paprika', extension: 'paprikarecipes', contentType: 'application/zip' }
+};
+
+export function isRecipeInterchangeFormat(value: unknown): value is RecipeInterchangeFormat {
+  return typeof value === 'string' && Object.keys(RECIPE_FORMATS).includes(value);
+}
+
+/**
+ * Serialize a recipe in an interchange format, with a matching file name
+ */
+export function exportRecipe(recipe: Recipe, format: RecipeInterchangeFormat): { content: Uint8Array; fileName: string } {
+  let content: Uint8Array;
+  switch (format) {
+    case 'json-ld':
+      content = new TextEncoder().encode(JSON.stringify(toSchemaOrgRecipe(recipe), null, 2));
+      break;
+    case 'cooklang':
+      content = new TextEncoder().encode(toCooklang(recipe));
+      break;
+    case 'paprika':
+      content = createPaprikaArchive([recipe]);
+      break;
+  }
+
+  return { content, fileName: getRecipeFileName(recipe, RECIPE_FORMATS[format].extension) };
+}
+
+/**
+ * Guess a file's format from its name, then from its first bytes
+ */
+export function detectRecipeFormat(fileName: string, data: Uint8Array): RecipeInterchangeFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'paprikarecipes' || extension === 'paprikarecipe') return 'paprika';
+  if (extension === 'cook') return 'cooklang';
+  if (extension && ['json', 'jsonld', 'html', 'htm'].includes(extension)) return 'json-ld';
+
+  // Zip ("PK") and gzip archives are Paprika; JSON and HTML are JSON-LD
+  if ((data[0] === 0x50 && data[1] === 0x4b) || (data[0] === 0x1f && data[1] === 0x8b)) return 'paprika';
+  const start = new TextDecoder().decode(data.subarray(0, 64)).trimStart();
+  return /^[{[<]/.test(start) ? 'json-ld' : 'cooklang';
+}
+
+/**
+ * Read the recipes in an uploaded file. The recipes still need validating.
+ * Throws a RecipeImportError when the file cannot be read as its format.
+ */
+export function importRecipes(fileName: string, data: Uint8Array): Recipe[] {
+  const format = detectRecipeFormat(fileName, data);
+
+  try {
+    switch (format) {
+      case 'paprika':
+        return parsePaprikaFile(data);
+      case 'cooklang': {
+        // Cooklang files are usually named after the recipe
+        const title = fileName.replace(/\.[^.]*$/, '').replace(/[-_]+/g, ' ').trim();
+        return [parseCooklang(new TextDecoder().decode(data), title || undefined)];
+      }
+      case 'json-ld':
+        return parseSchemaOrgRecipes(new TextDecoder().decode(data));
+    }
+  } catch (error) {
+    // Size limits already say what went wrong
+    if (error instanceof RecipeImportError) throw error;
+    console.error(`Recipe import error (${format}):`, error);
+    throw new RecipeImportError(`The file could not be read as a ${RECIPE_FORMATS[format].label} recipe file`);
+  }
+}
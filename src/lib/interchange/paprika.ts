@@ -0,0 +1,146 @@
+import { createHash, randomUUID } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { Recipe } from '@/types/recipe';
+import { formatIngredientLine } from '@/utils/recipeExport';
+import { parseIngredientLine } from '@/utils/unitConversion';
+import { formatDurationText, parseDurationText } from '@/utils/durationUtils';
+import { createZipArchive, DEFAULT_ZIP_READ_LIMITS, readZipArchive } from '@/lib/interchange/zipArchive';
+import { RecipeImportError } from '@/lib/interchange/errors';
+
+// The fields of a Paprika recipe that map onto ours; the rest are left empty
+interface PaprikaRecipe {
+  uid: string;
+  name: string;
+  description: string;
+  ingredients: string;
+  directions: string;
+  notes: string;
+  servings: string;
+  prep_time: string;
+  cook_time: string;
+  total_time: string;
+  source: string;
+  source_url: string;
+  categories: string[];
+  rating: number;
+  difficulty: string;
+  nutritional_info: string;
+  created: string;
+  hash: string;
+  photo_data: string | null;
+}
+
+function isGzip(data: Uint8Array): boolean {
+  return data[0] === 0x1f && data[1] === 0x8b;
+}
+
+function formatCreated(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function splitLines(value: unknown): string[] {
+  return typeof value === 'string'
+    ? value.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    : [];
+}
+
+/**
+ * Convert a recipe into a Paprika recipe object
+ */
+export function toPaprikaRecipe(recipe: Recipe): PaprikaRecipe {
+  const paprika: PaprikaRecipe = {
+    uid: randomUUID().toUpperCase(),
+    name: recipe.title,
+    description: recipe.description || '',
+    ingredients: recipe.ingredients.map(formatIngredientLine).join('\n'),
+    directions: recipe.instructions.join('\n\n'),
+    notes: '',
+    servings: recipe.servings ? String(recipe.servings) : '',
+    prep_time: recipe.prepTime ? formatDurationText(recipe.prepTime) : '',
+    cook_time: recipe.cookTime ? formatDurationText(recipe.cookTime) : '',
+    total_time: recipe.cookingTime ? formatDurationText(recipe.cookingTime) : '',
+    source: 'Food Recipe Generator',
+    source_url: '',
+    categories: [],
+    rating: 0,
+    difficulty: recipe.difficulty ? recipe.difficulty.charAt(0).toUpperCase() + recipe.difficulty.slice(1) : '',
+    nutritional_info: '',
+    created: formatCreated(new Date()),
+    hash: '',
+    photo_data: null
+  };
+
+  paprika.hash = createHash('sha256').update(JSON.stringify(paprika)).digest('hex').toUpperCase();
+  return paprika;
+}
+
+/**
+ * Convert a parsed Paprika recipe object into a recipe
+ */
+export function fromPaprikaRecipe(paprika: Record<string, unknown>): Recipe {
+  // Lines ending in ":" are section headings ("For the sauce:")
+  const ingredients = splitLines(paprika.ingredients).filter(line => !line.endsWith(':'));
+  const servings = typeof paprika.servings === 'string' ? paprika.servings.match(/\d+/) : null;
+
+  return {
+    title: typeof paprika.name === 'string' ? paprika.name.trim() : '',
+    description: typeof paprika.description === 'string' ? paprika.description.trim() : '',
+    ingredients: ingredients.map(parseIngredientLine),
+    instructions: splitLines(paprika.directions),
+    prepTime: parseDurationText(paprika.prep_time) ?? undefined,
+    cookTime: parseDurationText(paprika.cook_time) ?? undefined,
+    cookingTime: parseDurationText(paprika.total_time) ?? parseDurationText(paprika.cook_time) ?? undefined,
+    servings: servings && Number(servings[0]) > 0 ? Number(servings[0]) : undefined
+  };
+}
+
+function entryFileName(recipe: Recipe, usedNames: Set<string>): string {
+  const base = recipe.title.replace(/[\\/:*?"<>|]/g, '').trim() || 'Recipe';
+  let name = `${base}.paprikarecipe`;
+  for (let copy = 2; usedNames.has(name); copy++) {
+    name = `${base} ${copy}.paprikarecipe`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * Build a .paprikarecipes archive: a zip of gzipped JSON recipes
+ */
+export function createPaprikaArchive(recipes: Recipe[]): Uint8Array {
+  const usedNames = new Set<string>();
+  return createZipArchive(recipes.map(recipe => ({
+    name: entryFileName(recipe, usedNames),
+    data: new Uint8Array(gzipSync(JSON.stringify(toPaprikaRecipe(recipe))))
+  })));
+}
+
+/**
+ * Read recipes from a .paprikarecipes archive or a single .paprikarecipe file
+ */
+export function parsePaprikaFile(data: Uint8Array): Recipe[] {
+  const files = isGzip(data)
+    ? [data]
+    : readZipArchive(data)
+      .filter(entry => entry.name.endsWith('.paprikarecipe'))
+      .map(entry => entry.data);
+
+  // Each recipe is gzipped again inside the archive, so share one budget across all of them
+  let remainingBytes = DEFAULT_ZIP_READ_LIMITS.maxTotalBytes;
+  return files.map(file => {
+    const json = isGzip(file) ? gunzipLimited(file, remainingBytes) : Buffer.from(file);
+    remainingBytes -= json.length;
+    return fromPaprikaRecipe(JSON.parse(json.toString('utf8')));
+  });
+}
+
+function gunzipLimited(file: Uint8Array, maxBytes: number): Buffer {
+  try {
+    return gunzipSync(file, { maxOutputLength: Math.max(1, maxBytes) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new RecipeImportError(`The file unpacks to more than ${Math.round(DEFAULT_ZIP_READ_LIMITS.maxTotalBytes / 1024 / 1024)}MB`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,143 @@
+import { Recipe } from '@/types/recipe';
+import { formatIngredientLine } from '@/utils/recipeExport';
+import { parseIngredientLine } from '@/utils/unitConversion';
+import { parseIsoDuration, toIsoDuration } from '@/utils/durationUtils';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isRecipeNode(value: unknown): value is Record<string, unknown> {
+  if (!isRecord(value)) return false;
+  const type = value['@type'];
+  return type === 'Recipe' || (Array.isArray(type) && type.includes('Recipe'));
+}
+
+function textValue(value: unknown): string {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (Array.isArray(value)) return textValue(value[0]);
+  if (isRecord(value)) return textValue(value.text ?? value.name);
+  return '';
+}
+
+// recipeInstructions may be text, a list of text, HowToSteps or HowToSections of steps
+function instructionSteps(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(/\n+/).map(line => line.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(instructionSteps);
+  }
+  if (isRecord(value)) {
+    if (value.itemListElement !== undefined) return instructionSteps(value.itemListElement);
+    const text = textValue(value.text ?? value.name);
+    return text ? [text] : [];
+  }
+  return [];
+}
+
+function parseYield(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : undefined;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const servings = parseYield(item);
+      if (servings) return servings;
+    }
+    return undefined;
+  }
+  const match = typeof value === 'string' ? value.match(/\d+/) : null;
+  return match && Number(match[0]) > 0 ? Number(match[0]) : undefined;
+}
+
+/**
+ * Find every schema.org Recipe node in parsed JSON-LD, including nodes
+ * nested in arrays and "@graph" lists
+ */
+function findRecipeNodes(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(findRecipeNodes);
+  if (isRecipeNode(value)) return [value];
+  if (isRecord(value) && value['@graph'] !== undefined) return findRecipeNodes(value['@graph']);
+  return [];
+}
+
+/**
+ * Pull the JSON-LD blocks out of an HTML page
+ */
+function extractJsonLdScripts(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const pattern = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  for (const match of html.matchAll(pattern)) {
+    try {
+      blocks.push(JSON.parse(match[1]));
+    } catch {
+      // Pages often contain unrelated or broken blocks; skip them
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Convert a recipe into a schema.org Recipe JSON-LD object
+ */
+export function toSchemaOrgRecipe(recipe: Recipe): Record<string, unknown> {
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title
+  };
+
+  if (recipe.description) jsonLd.description = recipe.description;
+  if (recipe.servings) jsonLd.recipeYield = `${recipe.servings} servings`;
+  if (recipe.prepTime) jsonLd.prepTime = toIsoDuration(recipe.prepTime);
+  if (recipe.cookTime) jsonLd.cookTime = toIsoDuration(recipe.cookTime);
+  if (recipe.cookingTime) jsonLd.totalTime = toIsoDuration(recipe.cookingTime);
+  if (recipe.equipment?.length) jsonLd.tool = recipe.equipment.map(name => ({ '@type': 'HowToTool', name }));
+
+  jsonLd.recipeIngredient = recipe.ingredients.map(formatIngredientLine);
+  jsonLd.recipeInstructions = recipe.instructions.map(text => ({ '@type': 'HowToStep', text }));
+
+  return jsonLd;
+}
+
+/**
+ * Convert a schema.org Recipe node into a recipe
+ */
+export function fromSchemaOrgRecipe(node: Record<string, unknown>): Recipe {
+  const ingredients = Array.isArray(node.recipeIngredient)
+    ? node.recipeIngredient
+    : Array.isArray(node.ingredients) ? node.ingredients : [];
+
+  return {
+    title: textValue(node.name),
+    description: textValue(node.description),
+    ingredients: ingredients
+      .map(textValue)
+      .filter(Boolean)
+      .map(parseIngredientLine),
+    instructions: instructionSteps(node.recipeInstructions),
+    prepTime: parseIsoDuration(node.prepTime) ?? undefined,
+    cookTime: parseIsoDuration(node.cookTime) ?? undefined,
+    cookingTime: parseIsoDuration(node.totalTime) ?? parseIsoDuration(node.cookTime) ?? undefined,
+    servings: parseYield(node.recipeYield)
+  };
+}
+
+/**
+ * Read recipes from a JSON-LD document or an HTML page that embeds one
+ */
+export function parseSchemaOrgRecipes(text: string): Recipe[] {
+  const trimmed = text.trim();
+  let documents: unknown[];
+
+  if (trimmed.startsWith('<')) {
+    documents = extractJsonLdScripts(trimmed);
+  } else {
+    try {
+      documents = [JSON.parse(trimmed)];
+    } catch {
+      return [];
+    }
+  }
+
+  return findRecipeNodes(documents).map(fromSchemaOrgRecipe);
+}
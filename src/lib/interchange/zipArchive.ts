@@ -0,0 +1,190 @@
+import { inflateRawSync } from 'zlib';
+import { RecipeImportError } from '@/lib/interchange/errors';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ZipReadLimits {
+  maxEntries: number;
+  // Total size of all entries once unpacked, so a small zip bomb cannot fill memory
+  maxTotalBytes: number;
+}
+
+export const DEFAULT_ZIP_READ_LIMITS: ZipReadLimits = {
+  maxEntries: 1000,
+  maxTotalBytes: 50 * 1024 * 1024
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, as stored in zip headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a zip archive with stored (uncompressed) entries. Entries are
+ * expected to be compressed already, as Paprika's gzipped recipes are.
+ */
+export function createZipArchive(entries: ZipEntry[]): Uint8Array {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  const modified = toDosDateTime(new Date());
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.from(entry.data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(0, 8); // stored
+    local.writeUInt16LE(modified.time, 10);
+    local.writeUInt16LE(modified.date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt16LE(modified.time, 12);
+    central.writeUInt16LE(modified.date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+}
+
+/**
+ * Inflate raw deflate data, giving up as soon as the output passes maxBytes
+ */
+function inflateLimited(compressed: Uint8Array, maxBytes: number, tooLarge: () => Error): Uint8Array {
+  try {
+    return new Uint8Array(inflateRawSync(compressed, { maxOutputLength: Math.max(1, maxBytes) }));
+  } catch (error) {
+    if (error instanceof RangeError) throw tooLarge();
+    throw error;
+  }
+}
+
+/**
+ * Read the files of a zip archive. Supports stored and deflated entries,
+ * which covers archives written by Paprika and common zip tools. Throws a
+ * RecipeImportError when the archive has too many entries or unpacks to more
+ * than the limits allow.
+ */
+export function readZipArchive(archive: Uint8Array, limits: ZipReadLimits = DEFAULT_ZIP_READ_LIMITS): ZipEntry[] {
+  const buffer = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+
+  // The end record sits at the very end, possibly followed by a comment
+  let endOffset = -1;
+  for (let index = buffer.length - 22; index >= Math.max(0, buffer.length - 22 - 0xffff); index--) {
+    if (buffer.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = index;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  if (entryCount > limits.maxEntries) {
+    throw new RecipeImportError(`The archive holds more than ${limits.maxEntries} files`);
+  }
+
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+  const seenOffsets = new Set<number>();
+  let remainingBytes = limits.maxTotalBytes;
+  const tooLarge = () => new RecipeImportError(`The archive unpacks to more than ${Math.round(limits.maxTotalBytes / 1024 / 1024)}MB`);
+
+  for (let index = 0; index < entryCount; index++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // Entries sharing one local header would unpack the same data again and again
+    if (seenOffsets.has(localOffset)) {
+      throw new Error('Corrupt zip central directory');
+    }
+    seenOffsets.add(localOffset);
+
+    // Local headers can have their own extra field length
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (!name.endsWith('/')) {
+      let data: Uint8Array;
+      if (method === 0) {
+        if (compressed.length > remainingBytes) throw tooLarge();
+        data = new Uint8Array(compressed);
+      } else if (method === 8) {
+        data = inflateLimited(compressed, remainingBytes, tooLarge);
+      } else {
+        throw new Error(`Unsupported zip compression method ${method}`);
+      }
+      remainingBytes -= data.length;
+      entries.push({ name, data });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
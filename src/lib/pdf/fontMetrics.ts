@@ -0,0 +1,40 @@
+// Advance widths (1/1000 em) of the standard PDF fonts for WinAnsi codes 32-126.
+// Other characters use DEFAULT_WIDTH, which is close enough for line wrapping.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const DEFAULT_WIDTH = 556;
+
+export type PdfFont = 'regular' | 'bold';
+
+export const PDF_FONTS: Record<PdfFont, { baseFont: string; widths: number[] }> = {
+  regular: { baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS }
+};
+
+/**
+ * Width of WinAnsi-encoded text in points
+ */
+export function measureText(bytes: Uint8Array, font: PdfFont, size: number): number {
+  const widths = PDF_FONTS[font].widths;
+  let total = 0;
+  for (const byte of bytes) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
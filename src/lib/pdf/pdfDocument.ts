@@ -0,0 +1,138 @@
+import { PDF_FONTS, PdfFont, measureText } from '@/lib/pdf/fontMetrics';
+
+// Unicode characters in the 0x80-0x9F range of WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Characters the standard fonts cannot show, spelled out instead
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '⅓': '1/3', '⅔': '2/3', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+  '−': '-', '×': 'x', '⁄': '/', '\u00a0': ' ', '\t': ' '
+};
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+} satisfies Record<string, PageSize>;
+
+/**
+ * Encode text for the standard fonts. Characters outside WinAnsiEncoding
+ * become "?" so the output stays readable.
+ */
+export function encodeWinAnsi(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const replacement = TEXT_REPLACEMENTS[char];
+    if (replacement) {
+      bytes.push(...encodeWinAnsi(replacement));
+      continue;
+    }
+
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      bytes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 32) {
+      bytes.push(0x3f);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function toPdfString(bytes: Uint8Array): string {
+  let result = '';
+  for (const byte of bytes) {
+    const char = String.fromCharCode(byte);
+    result += char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+  }
+  return `(${result})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Minimal PDF writer for text documents using the built-in Helvetica fonts.
+ * Coordinates are in points from the bottom-left corner of the page.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(readonly pageSize: PageSize = PAGE_SIZES.a4, private title = '') {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  measure(text: string, font: PdfFont, size: number): number {
+    return measureText(encodeWinAnsi(text), font, size);
+  }
+
+  text(page: number, x: number, y: number, text: string, font: PdfFont, size: number, gray = 0): void {
+    this.pages[page].push(
+      `BT ${formatNumber(gray)} g /${font === 'bold' ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+      `${formatNumber(x)} ${formatNumber(y)} Td ${toPdfString(encodeWinAnsi(text))} Tj ET`
+    );
+  }
+
+  line(page: number, x1: number, y1: number, x2: number, y2: number, gray = 0.8): void {
+    this.pages[page].push(
+      `${formatNumber(gray)} G 0.75 w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document. Object numbers: 1 catalog, 2 page tree, 3-4 fonts,
+   * 5 info, then a page object and its content stream for every page.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONTS.regular.baseFont} /Encoding /WinAnsiEncoding >>`);
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONTS.bold.baseFont} /Encoding /WinAnsiEncoding >>`);
+    objects.push(`<< /Title ${toPdfString(encodeWinAnsi(this.title))} /Producer (Food Recipe Generator) >>`);
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.pageSize.width)} ${formatNumber(this.pageSize.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Every character is a single byte, so string lengths are byte offsets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Uint8Array.from(output, char => char.charCodeAt(0));
+  }
+}
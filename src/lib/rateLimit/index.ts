@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { RateLimitDetails } from '@/types/recipe';
+import { RecipeVisionProvider, VisionUsage } from '@/lib/vision';
+import { MemoryRateLimitStore } from '@/lib/rateLimit/memoryStore';
+import { RateLimitStore } from '@/lib/rateLimit/types';
+
+export interface RateLimitBudget {
+  // Requests a client can make in a burst; 0 turns request limiting off
+  burst: number;
+  perMinute: number;
+  // Model tokens a client can use per UTC day; 0 turns the quota off
+  dailyTokenQuota: number;
+}
+
+export interface RateLimitConfig extends RateLimitBudget {
+  // Limits of the one bucket shared by all clients that cannot be told apart
+  anonymous: RateLimitBudget;
+  // API keys that get a bucket of their own; any other key counts as anonymous
+  apiKeys: string[];
+  // Read the client IP from X-Forwarded-For / X-Real-IP, which only a proxy in front of the app can vouch for
+  trustProxy: boolean;
+}
+
+// Bucket for requests without a configured API key or a client IP from a trusted proxy
+export const ANONYMOUS_CLIENT_ID = 'ip:unknown';
+
+export type RateLimitResult =
+  | { allowed: true; clientId: string }
+  | { allowed: false; clientId: string; error: string; details: RateLimitDetails };
+
+function nonNegativeNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function readBudget(prefix: string, defaults: RateLimitBudget): RateLimitBudget {
+  const perMinute = nonNegativeNumber(process.env[`RECIPE_${prefix}RATE_LIMIT_PER_MINUTE`], defaults.perMinute);
+  return {
+    burst: perMinute > 0 ? Math.max(1, Math.floor(nonNegativeNumber(process.env[`RECIPE_${prefix}RATE_LIMIT_BURST`], defaults.burst))) : 0,
+    perMinute,
+    dailyTokenQuota: Math.floor(nonNegativeNumber(process.env[`RECIPE_${prefix}DAILY_TOKEN_QUOTA`], defaults.dailyTokenQuota))
+  };
+}
+
+/**
+ * Read limits from the environment (RECIPE_RATE_LIMIT_BURST,
+ * RECIPE_RATE_LIMIT_PER_MINUTE, RECIPE_DAILY_TOKEN_QUOTA, the same three with
+ * RECIPE_ANONYMOUS_ for the shared anonymous bucket, RECIPE_RATE_LIMIT_API_KEYS
+ * and RECIPE_TRUST_PROXY)
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    ...readBudget('', { burst: 10, perMinute: 5, dailyTokenQuota: 200000 }),
+    anonymous: readBudget('ANONYMOUS_', { burst: 30, perMinute: 20, dailyTokenQuota: 2000000 }),
+    apiKeys: (process.env.RECIPE_RATE_LIMIT_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+    trustProxy: process.env.RECIPE_TRUST_PROXY === 'true'
+  };
+}
+
+let cachedStore: RateLimitStore | null = null;
+
+/**
+ * Shared rate limit store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!cachedStore) {
+    cachedStore = new MemoryRateLimitStore();
+    console.log(`Using ${cachedStore.name} rate limit store`);
+  }
+  return cachedStore;
+}
+
+/**
+ * Who a request is counted against: a configured API key when one is sent
+ * (hashed, so keys are not kept in the store), otherwise the client IP
+ * reported by a trusted proxy. Unknown keys and forwarding headers nobody
+ * vouches for are ignored, so they cannot be changed per request to get a
+ * fresh bucket; those requests all share the anonymous bucket.
+ */
+export function getClientId(
+  request: Request,
+  config: Pick<RateLimitConfig, 'apiKeys' | 'trustProxy'> = getRateLimitConfig()
+): string {
+  const authorization = request.headers.get('authorization');
+  const apiKey = request.headers.get('x-api-key')
+    || (authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : '');
+  if (apiKey && config.apiKeys.includes(apiKey)) {
+    return `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+  }
+
+  if (!config.trustProxy) return ANONYMOUS_CLIENT_ID;
+
+  const address = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
+  return address ? `ip:${address}` : ANONYMOUS_CLIENT_ID;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((tomorrow.getTime() - now) / 1000));
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 90) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+}
+
+/**
+ * Count a request against its client's daily token quota and request bucket.
+ * The anonymous bucket is shared, so it has limits of its own.
+ */
+export async function checkRateLimit(
+  request: Request,
+  store: RateLimitStore = getRateLimitStore(),
+  config: RateLimitConfig = getRateLimitConfig(),
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const clientId = getClientId(request, config);
+  const budget = clientId === ANONYMOUS_CLIENT_ID ? config.anonymous : config;
+
+  if (budget.dailyTokenQuota > 0 && await store.getUsage(clientId, utcDay(now)) >= budget.dailyTokenQuota) {
+    const retryAfterSeconds = secondsUntilNextUtcDay(now);
+    return {
+      allowed: false,
+      clientId,
+      error: `Daily usage limit reached. Please try again in ${formatWait(retryAfterSeconds)}.`,
+      details: { reason: 'quota', retryAfterSeconds, limit: budget.dailyTokenQuota }
+    };
+  }
+
+  if (budget.perMinute > 0) {
+    const bucket = await store.takeToken(clientId, { capacity: budget.burst, refillPerMinute: budget.perMinute }, now);
+    if (!bucket.allowed) {
+      return {
+        allowed: false,
+        clientId,
+        error: `Too many requests. Please wait ${formatWait(bucket.retryAfterSeconds)} and try again.`,
+        details: { reason: 'rate', retryAfterSeconds: bucket.retryAfterSeconds, limit: budget.perMinute }
+      };
+    }
+  }
+
+  return { allowed: true, clientId };
+}
+
+/**
+ * 429 response for a limited request, in the shape of the AI routes' errors
+ */
+export function rateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): NextResponse {
+  return NextResponse.json(
+    { success: false, error: result.error, rateLimit: result.details },
+    { status: 429, headers: { 'Retry-After': String(result.details.retryAfterSeconds) } }
+  );
+}
+
+/**
+ * Wrap a vision provider so the tokens it reports are added to the client's
+ * daily usage. Failing to record usage never fails the request.
+ */
+export function trackUsage(
+  provider: RecipeVisionProvider,
+  clientId: string,
+  store: RateLimitStore = getRateLimitStore()
+): RecipeVisionProvider {
+  const record = async (usage?: VisionUsage) => {
+    if (!usage?.totalTokens) return;
+    try {
+      await store.addUsage(clientId, utcDay(Date.now()), usage.totalTokens);
+    } catch (error) {
+      console.error('Failed to record model usage:', error);
+    }
+  };
+
+  return {
+    name: provider.name,
+    async complete(request) {
+      const response = await provider.complete(request);
+      await record(response.usage);
+      return response;
+    },
+    async *stream(request) {
+      for await (const chunk of provider.stream(request)) {
+        await record(chunk.usage);
+        yield chunk;
+      }
+    }
+  };
+}
+
+export type { RateLimitStore } from '@/lib/rateLimit/types';
+export type { TokenBucketLimit, TokenBucketResult, TokenBucketState } from '@/lib/rateLimit/tokenBucket';
@@ -0,0 +1,49 @@
+import { RateLimitStore } from '@/lib/rateLimit/types';
+import { TokenBucketLimit, TokenBucketResult, TokenBucketState, takeToken, timeUntilFull } from '@/lib/rateLimit/tokenBucket';
+
+// How often buckets that have refilled completely are dropped
+const SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Rate limit state held in this server process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly buckets = new Map<string, TokenBucketState>();
+  private readonly usage = new Map<string, { day: string; tokens: number }>();
+  private lastSweep = 0;
+
+  async takeToken(clientId: string, limit: TokenBucketLimit, now: number): Promise<TokenBucketResult> {
+    this.sweep(limit, now);
+
+    const result = takeToken(this.buckets.get(clientId), limit, now);
+    this.buckets.set(clientId, result.state);
+    return result;
+  }
+
+  async getUsage(clientId: string, day: string): Promise<number> {
+    const usage = this.usage.get(clientId);
+    return usage?.day === day ? usage.tokens : 0;
+  }
+
+  async addUsage(clientId: string, day: string, tokens: number): Promise<void> {
+    const current = await this.getUsage(clientId, day);
+    this.usage.set(clientId, { day, tokens: current + tokens });
+  }
+
+  private sweep(limit: TokenBucketLimit, now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    this.buckets.forEach((state, clientId) => {
+      if (now - state.updatedAt >= timeUntilFull(state, limit)) {
+        this.buckets.delete(clientId);
+      }
+    });
+
+    const today = new Date(now).toISOString().slice(0, 10);
+    this.usage.forEach((usage, clientId) => {
+      if (usage.day !== today) this.usage.delete(clientId);
+    });
+  }
+}
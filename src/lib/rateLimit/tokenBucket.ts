@@ -0,0 +1,45 @@
+export interface TokenBucketLimit {
+  // Requests that can be made at once after a quiet period
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  // Epoch milliseconds of the last refill
+  updatedAt: number;
+}
+
+export interface TokenBucketResult {
+  state: TokenBucketState;
+  allowed: boolean;
+  // Seconds until the next request would be allowed; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+/**
+ * Refill a bucket for the time since it was last used and take one token.
+ * A client without a bucket starts with a full one.
+ */
+export function takeToken(state: TokenBucketState | undefined, limit: TokenBucketLimit, now: number): TokenBucketResult {
+  const refillPerMs = limit.refillPerMinute / 60000;
+  const tokens = state
+    ? Math.min(limit.capacity, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs)
+    : limit.capacity;
+
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, updatedAt: now }, allowed: true, retryAfterSeconds: 0 };
+  }
+  return {
+    state: { tokens, updatedAt: now },
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000))
+  };
+}
+
+/**
+ * Milliseconds until an unused bucket is full again, after which it can be forgotten
+ */
+export function timeUntilFull(state: TokenBucketState, limit: TokenBucketLimit): number {
+  return ((limit.capacity - state.tokens) / limit.refillPerMinute) * 60000;
+}
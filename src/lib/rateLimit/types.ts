@@ -0,0 +1,14 @@
+import { TokenBucketLimit, TokenBucketResult } from '@/lib/rateLimit/tokenBucket';
+
+/**
+ * Where request buckets and daily token usage are kept. The in-memory store
+ * only limits a single server process; a shared store (such as Redis) can be
+ * plugged in for several instances.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  takeToken(clientId: string, limit: TokenBucketLimit, now: number): Promise<TokenBucketResult>;
+  // day is a UTC date, "2024-05-31"
+  getUsage(clientId: string, day: string): Promise<number>;
+  addUsage(clientId: string, day: string, tokens: number): Promise<void>;
+}
@@ -0,0 +1,140 @@
+import { DietaryConstraint, Ingredient, Recipe, RecipeAdaptation } from '@/types/recipe';
+import {
+  DIETARY_CONSTRAINTS,
+  SubstitutionReason,
+  adaptRecipeWithRules,
+  applySubstitutions,
+  isDietaryConstraint
+} from '@/utils/ingredientSubstitution';
+import { validateIngredient } from '@/utils/recipeValidation';
+import { extractJsonFromResponse } from '@/lib/recipeGeneration';
+import { RecipeVisionProvider } from '@/lib/vision';
+
+export const MAX_UNAVAILABLE_INGREDIENTS = 10;
+
+interface ModelAdaptation {
+  changes: { index: number; replacement: Ingredient | null; reason: SubstitutionReason }[];
+  instructions?: string[];
+  notes: string[];
+}
+
+function buildAdaptPrompt(recipe: Recipe, constraints: DietaryConstraint[], unavailableIngredients: string[]): string {
+  const requirements = [
+    ...constraints.map(constraint => `- Make it ${DIETARY_CONSTRAINTS[constraint].toLowerCase()}`),
+    ...unavailableIngredients.map(ingredient => `- The cook does not have: ${ingredient}`)
+  ].join('\n');
+
+  const ingredients = recipe.ingredients
+    .map((ingredient, index) => `${index}: ${JSON.stringify(ingredient)}`)
+    .join('\n');
+
+  return `
+Adapt this recipe for a home cook.
+
+Requirements:
+${requirements}
+
+Recipe: ${recipe.title}
+
+Ingredients (index: ingredient):
+${ingredients}
+
+Instructions:
+${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
+
+Rules:
+- Only change ingredients that break a requirement. Keep every other ingredient exactly as it is.
+- Pick substitutes that are easy to buy and work in this dish; adjust amounts when the substitute is stronger or weaker.
+- Use "replacement": null only when a missing ingredient can simply be left out.
+- "reason" is the requirement the change satisfies: one of ${[...Object.keys(DIETARY_CONSTRAINTS), 'unavailable'].map(reason => `"${reason}"`).join(', ')}.
+- Return the full list of instructions, one per original step and in the same order, rewritten for the substitutes.
+
+IMPORTANT: Respond ONLY with a valid JSON object in this format:
+{
+  "substitutions": [
+    { "index": 0, "replacement": { "name": "ingredient name", "quantity": "amount", "unit": "unit" }, "reason": "vegan" }
+  ],
+  "instructions": ["Step 1 text", "Step 2 text"],
+  "notes": ["Anything the cook should know about the changes"]
+}
+`;
+}
+
+/**
+ * Read the model's substitutions. Entries that do not point at an ingredient
+ * or carry an unusable replacement are dropped; returns null when nothing in
+ * the response is usable.
+ */
+function parseModelAdaptation(content: string, recipe: Recipe): ModelAdaptation | null {
+  const json = extractJsonFromResponse(content);
+  if (!json || typeof json !== 'object') return null;
+
+  const data = json as Record<string, unknown>;
+  if (!Array.isArray(data.substitutions)) return null;
+
+  const changes: ModelAdaptation['changes'] = [];
+  data.substitutions.forEach((value, position) => {
+    if (!value || typeof value !== 'object') return;
+    const entry = value as Record<string, unknown>;
+
+    const index = Number(entry.index);
+    if (!Number.isInteger(index) || index < 0 || index >= recipe.ingredients.length) return;
+    if (changes.some(change => change.index === index)) return;
+
+    const replacement = entry.replacement === null
+      ? null
+      : validateIngredient(entry.replacement, `substitutions[${position}].replacement`, []);
+    if (replacement === null && entry.replacement !== null) return;
+
+    const reason: SubstitutionReason = isDietaryConstraint(entry.reason) ? entry.reason : 'unavailable';
+    changes.push({ index, replacement, reason });
+  });
+
+  const instructions = Array.isArray(data.instructions) &&
+    data.instructions.every(step => typeof step === 'string' && step.trim())
+    ? (data.instructions as string[]).map(step => step.trim())
+    : undefined;
+
+  const notes = Array.isArray(data.notes)
+    ? data.notes.filter((note): note is string => typeof note === 'string' && note.trim().length > 0)
+    : [];
+
+  return { changes, instructions, notes };
+}
+
+/**
+ * Adapt a recipe to dietary constraints and missing ingredients. The model is
+ * asked first when a provider is given; the built-in substitution table is
+ * used when there is no provider or its answer cannot be used.
+ */
+export async function adaptRecipe(
+  recipe: Recipe,
+  constraints: DietaryConstraint[],
+  unavailableIngredients: string[],
+  provider: RecipeVisionProvider | null
+): Promise<RecipeAdaptation> {
+  if (provider) {
+    try {
+      const response = await provider.complete({
+        task: 'adapt-recipe',
+        prompt: buildAdaptPrompt(recipe, constraints, unavailableIngredients),
+        maxTokens: 2000,
+        temperature: 0.2
+      });
+
+      const adaptation = parseModelAdaptation(response.content, recipe);
+      if (adaptation) {
+        return {
+          ...applySubstitutions(recipe, adaptation.changes, adaptation.instructions),
+          notes: adaptation.notes,
+          source: 'model'
+        };
+      }
+      console.log('Model did not return usable substitutions, using the substitution table');
+    } catch (error) {
+      console.error('Recipe adaptation request failed:', error);
+    }
+  }
+
+  return { ...adaptRecipeWithRules(recipe, constraints, unavailableIngredients), source: 'rules' };
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { Recipe, RecipeSource, RecipeValidationIssue, UnitSystem } from '@/types/recipe';
+import {
+  FeedbackBucket,
+  FeedbackDimension,
+  FeedbackSummary,
+  GenerationRecord,
+  LowRatedRecipe,
+  RecipeFeedback,
+  RecipeFeedbackInput,
+  StepComment
+} from '@/types/feedback';
+import { FeedbackRepository, getFeedbackRepository } from '@/lib/storage/feedbackRepository';
+import { RecipeRequestError, RequestImage } from '@/lib/recipeGeneration';
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+export const MAX_STEP_COMMENTS = 50;
+
+// Ratings at or below this count as a bad recipe
+const LOW_RATING = 2;
+const MAX_LOW_RATED = 20;
+
+interface GenerationDetails {
+  recipe: Recipe;
+  source: RecipeSource;
+  issues: RecipeValidationIssue[];
+  images: RequestImage[];
+  dishHint?: string;
+  unitSystem: UnitSystem;
+  provider: string;
+}
+
+/**
+ * Give a generated recipe its ID and remember how it was made. A failed write
+ * is logged rather than failing the generation; feedback for that recipe is
+ * then refused as unknown.
+ */
+export async function recordGeneration(
+  details: GenerationDetails,
+  repository: FeedbackRepository = getFeedbackRepository()
+): Promise<string> {
+  const record: GenerationRecord = {
+    recipeId: randomUUID(),
+    createdAt: new Date().toISOString(),
+    title: details.recipe.title,
+    source: details.source,
+    provider: details.provider,
+    imageCount: details.images.length,
+    imageBytes: details.images.reduce((sum, image) => sum + image.size, 0),
+    dishHint: !!details.dishHint,
+    unitSystem: details.unitSystem,
+    instructionCount: details.recipe.instructions.length,
+    issueCount: details.issues.length
+  };
+
+  try {
+    await repository.recordGeneration(record);
+  } catch (error) {
+    console.error('Failed to record recipe generation:', error);
+  }
+  return record.recipeId;
+}
+
+function optionalText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new RecipeRequestError(`${field} must be text`);
+  }
+  if (value.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+    throw new RecipeRequestError(`${field} is too long. Maximum length is ${MAX_FEEDBACK_COMMENT_LENGTH} characters.`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Check a feedback submission against the recipe it is about. Throws a
+ * RecipeRequestError describing the first problem.
+ */
+export function parseFeedbackInput(body: Record<string, unknown>, generation: GenerationRecord): RecipeFeedbackInput {
+  const feedback: RecipeFeedbackInput = { recipeId: generation.recipeId };
+
+  if (body.rating !== undefined && body.rating !== null) {
+    if (typeof body.rating !== 'number' || !Number.isInteger(body.rating) || body.rating < 1 || body.rating > 5) {
+      throw new RecipeRequestError('Rating must be a whole number of stars from 1 to 5');
+    }
+    feedback.rating = body.rating;
+  }
+
+  if (body.wrongDish !== undefined && typeof body.wrongDish !== 'boolean') {
+    throw new RecipeRequestError('wrongDish must be true or false');
+  }
+  if (body.wrongDish) {
+    feedback.wrongDish = true;
+    feedback.correctDish = optionalText(body.correctDish, 'correctDish')?.slice(0, 100);
+  }
+
+  if (body.stepComments !== undefined) {
+    if (!Array.isArray(body.stepComments) || body.stepComments.length > MAX_STEP_COMMENTS) {
+      throw new RecipeRequestError(`stepComments must be a list of at most ${MAX_STEP_COMMENTS} comments`);
+    }
+
+    const stepComments: StepComment[] = [];
+    body.stepComments.forEach((entry: unknown) => {
+      const { step, comment } = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      if (typeof step !== 'number' || !Number.isInteger(step) || step < 0 || step >= generation.instructionCount) {
+        throw new RecipeRequestError(`Step comments must refer to one of the recipe's ${generation.instructionCount} steps`);
+      }
+      const text = optionalText(comment, 'Step comment');
+      if (text) stepComments.push({ step, comment: text });
+    });
+    if (stepComments.length > 0) feedback.stepComments = stepComments;
+  }
+
+  feedback.comment = optionalText(body.comment, 'comment');
+  if (!feedback.comment) delete feedback.comment;
+
+  if (feedback.rating === undefined && !feedback.wrongDish && !feedback.stepComments && !feedback.comment) {
+    throw new RecipeRequestError('Give a rating, flag the dish as wrong or leave a comment');
+  }
+  return feedback;
+}
+
+// Groupings that tell the kinds of photos and prompts apart
+const DIMENSIONS: { key: string; label: string; bucket: (record: GenerationRecord) => [string, string] }[] = [
+  {
+    key: 'imageCount',
+    label: 'Photos per recipe',
+    bucket: ({ imageCount }) => imageCount >= 3 ? ['3+', '3 or more photos'] : [String(imageCount), imageCount === 1 ? '1 photo' : '2 photos']
+  },
+  {
+    key: 'imageSize',
+    label: 'Photo size',
+    bucket: ({ imageBytes, imageCount }) => {
+      const average = imageBytes / Math.max(1, imageCount);
+      if (average < 200 * 1024) return ['small', 'Under 200 KB'];
+      if (average < 1024 * 1024) return ['medium', '200 KB to 1 MB'];
+      return ['large', 'Over 1 MB'];
+    }
+  },
+  {
+    key: 'dishHint',
+    label: 'Dish confirmation',
+    bucket: ({ dishHint }) => dishHint ? ['confirmed', 'Dish confirmed by the user'] : ['none', 'No dish name in the prompt']
+  },
+  {
+    key: 'source',
+    label: 'Response handling',
+    bucket: ({ source }) => {
+      if (source === 'repaired') return [source, 'Repaired by a second request'];
+      if (source === 'text-fallback') return [source, 'Extracted from plain text'];
+      return [source, 'Valid JSON first time'];
+    }
+  },
+  { key: 'provider', label: 'Vision provider', bucket: ({ provider }) => [provider, provider] },
+  {
+    key: 'unitSystem',
+    label: 'Unit system',
+    bucket: ({ unitSystem }) => [unitSystem, unitSystem === 'metric' ? 'Metric' : 'Imperial']
+  }
+];
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+function summarizeBucket(key: string, label: string, records: GenerationRecord[], feedbackByRecipe: Map<string, RecipeFeedback[]>): FeedbackBucket {
+  const entries = records.map(record => feedbackByRecipe.get(record.recipeId) ?? []);
+  const ratings = entries.flat().map(feedback => feedback.rating).filter((rating): rating is number => rating !== undefined);
+
+  return {
+    key,
+    label,
+    generations: records.length,
+    reviewed: entries.filter(feedback => feedback.length > 0).length,
+    ratings: ratings.length,
+    averageRating: average(ratings),
+    lowRatings: ratings.filter(rating => rating <= LOW_RATING).length,
+    wrongDish: entries.filter(feedback => feedback.some(entry => entry.wrongDish)).length
+  };
+}
+
+/**
+ * Aggregate feedback by how recipes were generated, so bad recipes can be
+ * traced to the kinds of photos and prompts that produce them
+ */
+export function summarizeFeedback(generations: GenerationRecord[], feedback: RecipeFeedback[]): FeedbackSummary {
+  const feedbackByRecipe = new Map<string, RecipeFeedback[]>();
+  feedback.forEach(entry => {
+    feedbackByRecipe.set(entry.recipeId, [...(feedbackByRecipe.get(entry.recipeId) ?? []), entry]);
+  });
+
+  const dimensions: FeedbackDimension[] = DIMENSIONS.map(dimension => {
+    const groups = new Map<string, { label: string; records: GenerationRecord[] }>();
+    generations.forEach(record => {
+      const [key, label] = dimension.bucket(record);
+      const group = groups.get(key) ?? { label, records: [] };
+      group.records.push(record);
+      groups.set(key, group);
+    });
+
+    return {
+      key: dimension.key,
+      label: dimension.label,
+      buckets: [...groups.entries()]
+        .map(([key, group]) => summarizeBucket(key, group.label, group.records, feedbackByRecipe))
+        .sort((a, b) => a.key.localeCompare(b.key))
+    };
+  });
+
+  const lowRated: LowRatedRecipe[] = generations
+    .map(record => {
+      const entries = feedbackByRecipe.get(record.recipeId) ?? [];
+      const ratings = entries.map(entry => entry.rating).filter((rating): rating is number => rating !== undefined);
+      return {
+        recipeId: record.recipeId,
+        title: record.title,
+        averageRating: average(ratings),
+        wrongDish: entries.some(entry => entry.wrongDish),
+        comments: entries.flatMap(entry => [
+          ...(entry.correctDish ? [`Actually: ${entry.correctDish}`] : []),
+          ...(entry.comment ? [entry.comment] : []),
+          ...(entry.stepComments ?? []).map(({ step, comment }) => `Step ${step + 1}: ${comment}`)
+        ])
+      };
+    })
+    .filter(recipe => recipe.wrongDish || (recipe.averageRating !== null && recipe.averageRating <= LOW_RATING))
+    .sort((a, b) => (a.averageRating ?? 0) - (b.averageRating ?? 0))
+    .slice(0, MAX_LOW_RATED);
+
+  return {
+    overall: summarizeBucket('all', 'All generated recipes', generations, feedbackByRecipe),
+    dimensions,
+    lowRated
+  };
+}
@@ -0,0 +1,275 @@
+import { Locale, MeasurementTarget, Recipe, RecipeRequest, RecipeSource, RecipeValidationIssue } from '@/types/recipe';
+import { getUnitSystemPrompt } from '@/utils/unitUtils';
+import { MAX_IMAGES_PER_RECIPE } from '@/utils/imageUtils';
+import { ImageInfo, ImageValidationErrorCode, MAX_IMAGE_BYTES, validateImageBytes } from '@/utils/imageValidation';
+import { validateRecipe } from '@/utils/recipeValidation';
+import { extractRecipeFromText } from '@/utils/recipeTextParser';
+import { RecipeVisionProvider } from '@/lib/vision';
+import { getLanguageName } from '@/lib/i18n';
+
+export interface RecipeGenerationResult {
+  recipe: Recipe;
+  source: RecipeSource;
+  issues: RecipeValidationIssue[];
+  // ID from recordGeneration, cached with the recipe so cache hits reuse it
+  recipeId?: string;
+}
+
+// Bump when the generation prompt changes, so cached recipes are not reused
+export const RECIPE_PROMPT_VERSION = 4;
+
+// Shape the model is asked to produce; shared by the generation and repair prompts
+export const RECIPE_JSON_FORMAT = `{
+  "title": "Name of the dish",
+  "description": "Brief description (1-2 sentences)",
+  "ingredients": [
+    {
+      "name": "ingredient name",
+      "quantity": "amount",
+      "unit": "measurement unit"
+    }
+  ],
+  "instructions": [
+    {
+      "text": "what to do in this step",
+      "duration": 10,
+      "temperature": { "value": 180, "unit": "C or F" },
+      "ingredients": ["ingredient names used in this step"],
+      "equipment": ["tools or appliances used in this step"]
+    }
+  ],
+  "prepTime": 15,
+  "cookTime": 30,
+  "cookingTime": 45,
+  "servings": 4,
+  "difficulty": "easy | medium | hard",
+  "equipment": ["everything needed for the recipe"]
+}
+
+Times are in minutes; cookingTime is the total of prepTime and cookTime. Leave out
+a step's duration or temperature when it has none.`;
+
+// Room for a full recipe in RECIPE_JSON_FORMAT; structured steps make it several times longer than plain text
+export const RECIPE_MAX_TOKENS = 3000;
+
+/**
+ * Problem with the client's request; routes answer these with a 400
+ */
+export class RecipeRequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'RecipeRequestError';
+  }
+}
+
+/**
+ * A decoded and checked request image. base64 has any data URL prefix removed
+ * and mimeType is the type sniffed from the bytes, not the one claimed.
+ */
+export interface RequestImage extends ImageInfo {
+  base64: string;
+}
+
+const IMAGE_ERROR_STATUS: Record<ImageValidationErrorCode, number> = {
+  'not-an-image': 415,
+  'unsupported-type': 415,
+  'too-large': 413,
+  'corrupt': 422,
+  'bad-dimensions': 422
+};
+
+function decodeRequestImage(value: string, label: string): RequestImage {
+  const base64 = value.replace(/^data:[^,]*;base64,/, '').replace(/\s+/g, '');
+
+  // Checked before decoding so an oversized payload is not held twice
+  if (base64.length > Math.ceil(MAX_IMAGE_BYTES / 3) * 4) {
+    throw new RecipeRequestError(`${label} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`, 413);
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64) || base64.length % 4 === 1) {
+    throw new RecipeRequestError(`${label} is not valid base64 data`);
+  }
+
+  const result = validateImageBytes(Buffer.from(base64, 'base64'), label);
+  if (!result.valid) {
+    throw new RecipeRequestError(result.error, IMAGE_ERROR_STATUS[result.code]);
+  }
+  return { base64, ...result.image };
+}
+
+/**
+ * Images of a recipe request, accepting both the images array and the
+ * single imageBase64 field. Throws a RecipeRequestError when the count is
+ * outside the allowed range or an image is not a usable photo.
+ */
+export function getRequestImages(body: Pick<RecipeRequest, 'images' | 'imageBase64'>): RequestImage[] {
+  const images = Array.isArray(body.images) && body.images.length > 0
+    ? body.images
+    : body.imageBase64 ? [body.imageBase64] : [];
+
+  if (images.length === 0 || images.some(image => typeof image !== 'string' || !image)) {
+    throw new RecipeRequestError('Image data required');
+  }
+  if (images.length > MAX_IMAGES_PER_RECIPE) {
+    throw new RecipeRequestError(`At most ${MAX_IMAGES_PER_RECIPE} images can be sent for one dish`);
+  }
+  return images.map((image, index) => decodeRequestImage(image, images.length > 1 ? `Image ${index + 1}` : 'The image'));
+}
+
+/**
+ * Clean up a user-supplied dish name before it goes into a prompt
+ */
+export function sanitizeDishHint(dishHint: unknown): string | undefined {
+  if (typeof dishHint !== 'string') return undefined;
+
+  const cleaned = dishHint.replace(/[\r\n"`]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return cleaned || undefined;
+}
+
+export function generateRecipePrompt(
+  units: MeasurementTarget = 'imperial',
+  imageCount = 1,
+  dishHint?: string,
+  locale: Locale = 'en'
+): string {
+  const unitInstructions = getUnitSystemPrompt(units);
+  const imageInstructions = imageCount > 1
+    ? `Analyze these ${imageCount} photos of the same dish and generate a complete recipe.
+The photos show different angles, fillings, sauces or cross-sections of ONE dish. Combine what you see in all of them.`
+    : 'Analyze this food image and generate a complete recipe.';
+  const dishInstructions = dishHint
+    ? `\nThe user has confirmed that the dish is "${dishHint}". Generate a recipe for this dish and use the ${imageCount > 1 ? 'images' : 'image'} for details such as portion size, garnish and visible ingredients.\n`
+    : '';
+  const languageInstructions = locale !== 'en'
+    ? `\nWrite the title, description, ingredient names, instructions and equipment in ${getLanguageName(locale)}. Keep the JSON field names and difficulty values in English, and write units as abbreviations (g, kg, ml, L, tbsp, tsp, oz, lb, cup) so they can still be converted.\n`
+    : '';
+  
+  return `
+${imageInstructions}
+${dishInstructions}${languageInstructions}IMPORTANT: Respond ONLY with a valid JSON object. Do not include any markdown formatting, explanations, or other text.
+
+${unitInstructions}
+
+The JSON object must contain exactly these fields:
+${RECIPE_JSON_FORMAT}
+
+Make reasonable assumptions about quantities and cooking methods based on what you can see in the ${imageCount > 1 ? 'images' : 'image'}.
+ALL measurements must use the units specified above.
+Response must be valid JSON only.
+`;
+}
+
+function buildRepairPrompt(content: string, issues: RecipeValidationIssue[]): string {
+  const problems = issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n');
+
+  return `
+The following response was supposed to be a recipe JSON object, but it is not valid.
+
+Problems found:
+${problems}
+
+Original response:
+${content}
+
+Fix this JSON. Keep the original recipe content wherever possible.
+IMPORTANT: Respond ONLY with a valid JSON object with exactly these fields:
+${RECIPE_JSON_FORMAT}
+`;
+}
+
+/**
+ * Find the JSON object in a model response: the whole response, a fenced
+ * markdown block, or the outermost braces. Returns null when none parses.
+ */
+export function extractJsonFromResponse(content: string): unknown | null {
+  const candidates = [content.trim()];
+
+  // Sometimes the model wraps JSON in markdown or surrounds it with prose
+  const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  if (fenced) candidates.push(fenced[1]);
+
+  const braces = content.match(/(\{[\s\S]*\})/);
+  if (braces) candidates.push(braces[1]);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Last-resort recipe from a model response that is not usable JSON. Missing
+ * sections get placeholders so the recipe can still be shown.
+ */
+function extractFallbackRecipe(content: string): Recipe {
+  const recipe = extractRecipeFromText(content, { fallbackTitle: 'Recipe from Image' });
+
+  return {
+    ...recipe,
+    description: recipe.description || 'Recipe generated from image analysis',
+    ingredients: recipe.ingredients.length > 0 ? recipe.ingredients : [
+      { quantity: '1', unit: '', name: 'Ingredients could not be extracted from the image' }
+    ],
+    instructions: recipe.instructions.length > 0 ? recipe.instructions : [
+      'Instructions could not be extracted. Please refer to the original AI response or try uploading a clearer image.'
+    ]
+  };
+}
+
+/**
+ * Turn raw model output into a recipe. Valid JSON is used as-is; otherwise the
+ * model gets one request to fix its JSON before falling back to text extraction.
+ */
+export async function parseRecipeWithRepair(
+  content: string,
+  provider: RecipeVisionProvider
+): Promise<RecipeGenerationResult> {
+  // Log the content for debugging
+  console.log('Parsing content:', content.substring(0, 200) + '...');
+
+  const json = extractJsonFromResponse(content);
+  const firstAttempt = json === null ? null : validateRecipe(json);
+
+  if (firstAttempt?.valid) {
+    return { recipe: firstAttempt.recipe, source: 'model', issues: firstAttempt.issues };
+  }
+
+  const issues: RecipeValidationIssue[] = firstAttempt
+    ? firstAttempt.issues
+    : [{ path: '', message: 'Response did not contain a JSON object', severity: 'error' }];
+
+  console.log('Recipe validation failed, asking the model to repair its JSON:', issues);
+
+  try {
+    const repair = await provider.complete({
+      task: 'repair-recipe',
+      prompt: buildRepairPrompt(content, issues),
+      maxTokens: RECIPE_MAX_TOKENS,
+      temperature: 0
+    });
+
+    const repairedJson = extractJsonFromResponse(repair.content);
+    if (repairedJson !== null) {
+      const repaired = validateRecipe(repairedJson);
+      if (repaired.valid) {
+        return { recipe: repaired.recipe, source: 'repaired', issues: repaired.issues };
+      }
+      console.log('Repaired recipe is still invalid:', repaired.issues);
+    }
+  } catch (error) {
+    console.error('Recipe repair request failed:', error);
+  }
+
+  console.log('Extracting recipe from text manually...');
+  return {
+    recipe: extractFallbackRecipe(content),
+    source: 'text-fallback',
+    issues
+  };
+}
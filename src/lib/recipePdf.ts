@@ -0,0 +1,140 @@
+import { Recipe } from '@/types/recipe';
+import { PdfFont } from '@/lib/pdf/fontMetrics';
+import { PAGE_SIZES, PdfDocument } from '@/lib/pdf/pdfDocument';
+import { formatIngredientLine, formatRecipeDetails } from '@/utils/recipeExport';
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+
+interface TextStyle {
+  font: PdfFont;
+  size: number;
+  gray?: number;
+}
+
+const STYLES = {
+  title: { font: 'bold', size: 22 },
+  description: { font: 'regular', size: 11, gray: 0.3 },
+  details: { font: 'regular', size: 10, gray: 0.4 },
+  heading: { font: 'bold', size: 14 },
+  body: { font: 'regular', size: 11 },
+  marker: { font: 'bold', size: 11 },
+  footer: { font: 'regular', size: 8, gray: 0.5 }
+} satisfies Record<string, TextStyle>;
+
+/**
+ * Lays out text top to bottom, wrapping lines and starting new pages as needed
+ */
+class PdfTextLayout {
+  private page: number;
+  private y: number;
+  private readonly contentWidth: number;
+
+  constructor(private document: PdfDocument) {
+    this.page = document.addPage();
+    this.y = document.pageSize.height - MARGIN;
+    this.contentWidth = document.pageSize.width - MARGIN * 2;
+  }
+
+  wrap(text: string, style: TextStyle, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && this.document.measure(candidate, style.font, style.size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+
+    return lines;
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  // Start a new page unless the next block fits on this one
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.page = this.document.addPage();
+      this.y = this.document.pageSize.height - MARGIN;
+    }
+  }
+
+  paragraph(text: string, style: TextStyle, options: { marker?: string; indent?: number } = {}): void {
+    const indent = options.indent ?? 0;
+    const lineHeight = style.size * 1.4;
+    const lines = this.wrap(text, style, this.contentWidth - indent);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y -= style.size;
+      if (index === 0 && options.marker) {
+        this.document.text(this.page, MARGIN, this.y, options.marker, STYLES.marker.font, style.size, style.gray);
+      }
+      this.document.text(this.page, MARGIN + indent, this.y, line, style.font, style.size, style.gray);
+      this.y -= lineHeight - style.size;
+    });
+  }
+
+  heading(text: string): void {
+    // Keep a heading on the same page as at least one line after it
+    this.ensureSpace(STYLES.heading.size * 1.4 + STYLES.body.size * 3);
+    this.space(10);
+    this.paragraph(text, STYLES.heading);
+    this.document.line(this.page, MARGIN, this.y + 2, MARGIN + this.contentWidth, this.y + 2);
+    this.space(8);
+  }
+}
+
+/**
+ * Render a recipe as a printable PDF. Metric recipes use A4 paper and
+ * imperial recipes use US Letter.
+ */
+export function renderRecipePdf(recipe: Recipe): Uint8Array {
+  const document = new PdfDocument(
+    recipe.unitSystem === 'imperial' ? PAGE_SIZES.letter : PAGE_SIZES.a4,
+    recipe.title
+  );
+  const layout = new PdfTextLayout(document);
+
+  layout.paragraph(recipe.title, STYLES.title);
+  layout.space(4);
+
+  if (recipe.description) {
+    layout.paragraph(recipe.description, STYLES.description);
+    layout.space(4);
+  }
+
+  const details = formatRecipeDetails(recipe);
+  if (details.length > 0) {
+    layout.paragraph(details.join('   •   '), STYLES.details);
+  }
+
+  layout.heading('Ingredients');
+  recipe.ingredients.forEach(ingredient => {
+    layout.paragraph(formatIngredientLine(ingredient), STYLES.body, { marker: '•', indent: 14 });
+    layout.space(2);
+  });
+
+  layout.heading('Instructions');
+  recipe.instructions.forEach((instruction, index) => {
+    layout.paragraph(instruction, STYLES.body, { marker: `${index + 1}.`, indent: 22 });
+    layout.space(6);
+  });
+
+  // Footers are added last, once the page count is known
+  const { width } = document.pageSize;
+  for (let page = 0; page < document.pageCount; page++) {
+    const footer = `${recipe.title} — page ${page + 1} of ${document.pageCount}`;
+    const footerWidth = document.measure(footer, STYLES.footer.font, STYLES.footer.size);
+    document.text(page, (width - footerWidth) / 2, MARGIN / 2, footer, STYLES.footer.font, STYLES.footer.size, STYLES.footer.gray);
+  }
+
+  return document.toBytes();
+}
@@ -0,0 +1,72 @@
+import { RecipeStreamEvent, RecipeValidationIssue } from '@/types/recipe';
+import { parsePartialJson } from '@/utils/partialJson';
+import { validateIngredient, validateInstruction } from '@/utils/recipeValidation';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Turns streamed model output into recipe events. Each call to push() parses
+ * everything received so far and returns only the parts not emitted before.
+ */
+export class RecipeStreamParser {
+  private content = '';
+  private titleSent = false;
+  private descriptionSent = false;
+  private ingredientCount = 0;
+  private instructionCount = 0;
+  private details: { cookingTime?: number; servings?: number } = {};
+
+  get text(): string {
+    return this.content;
+  }
+
+  push(chunk: string): RecipeStreamEvent[] {
+    this.content += chunk;
+
+    const partial = parsePartialJson(this.content);
+    if (!isRecord(partial)) return [];
+
+    const events: RecipeStreamEvent[] = [];
+    // Issues are reported with the final recipe, not per event
+    const ignoredIssues: RecipeValidationIssue[] = [];
+
+    if (!this.titleSent && typeof partial.title === 'string' && partial.title.trim()) {
+      this.titleSent = true;
+      events.push({ type: 'title', title: partial.title.trim() });
+    }
+
+    if (!this.descriptionSent && typeof partial.description === 'string' && partial.description.trim()) {
+      this.descriptionSent = true;
+      events.push({ type: 'description', description: partial.description.trim() });
+    }
+
+    if (Array.isArray(partial.ingredients)) {
+      for (let i = this.ingredientCount; i < partial.ingredients.length; i++) {
+        const ingredient = validateIngredient(partial.ingredients[i], `ingredients[${i}]`, ignoredIssues);
+        if (ingredient) {
+          events.push({ type: 'ingredient', index: i, ingredient });
+        }
+      }
+      this.ingredientCount = partial.ingredients.length;
+    }
+
+    if (Array.isArray(partial.instructions)) {
+      for (let i = this.instructionCount; i < partial.instructions.length; i++) {
+        validateInstruction(partial.instructions[i], `instructions[${i}]`, ignoredIssues)
+          .forEach(instruction => events.push({ type: 'instruction', index: i, instruction }));
+      }
+      this.instructionCount = partial.instructions.length;
+    }
+
+    const cookingTime = typeof partial.cookingTime === 'number' ? partial.cookingTime : undefined;
+    const servings = typeof partial.servings === 'number' ? partial.servings : undefined;
+    if (cookingTime !== this.details.cookingTime || servings !== this.details.servings) {
+      this.details = { cookingTime, servings };
+      events.push({ type: 'details', ...this.details });
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,76 @@
+import { Recipe, RecipeValidationIssue, TextImportSource } from '@/types/recipe';
+import { extractRecipeFromText } from '@/utils/recipeTextParser';
+import { validateRecipe } from '@/utils/recipeValidation';
+import { RECIPE_JSON_FORMAT, RECIPE_MAX_TOKENS, RecipeRequestError, extractJsonFromResponse } from '@/lib/recipeGeneration';
+import { RecipeVisionProvider } from '@/lib/vision';
+
+export const MAX_RECIPE_TEXT_LENGTH = 20000;
+
+export interface TextImportResult {
+  recipe: Recipe;
+  source: TextImportSource;
+  issues: RecipeValidationIssue[];
+}
+
+function buildCleanupPrompt(text: string, draft: Recipe): string {
+  return `
+Below is a recipe pasted by a user, followed by a draft that was parsed from it automatically.
+Produce a clean version of the recipe.
+
+Rules:
+- Use only information from the pasted text. Do not invent ingredients, steps, times or servings.
+- Keep the original units and amounts; do not convert them.
+- Split amounts into "quantity" and "unit", and put preparation notes ("finely chopped") in the ingredient name.
+- Make each instruction one clear step, in the original order. Drop ads, stories and comments that are not part of the recipe.
+
+Pasted text:
+"""
+${text}
+"""
+
+Draft:
+${JSON.stringify(draft, null, 2)}
+
+IMPORTANT: Respond ONLY with a valid JSON object with exactly these fields:
+${RECIPE_JSON_FORMAT}
+`;
+}
+
+/**
+ * Turn pasted recipe text into a validated recipe. The text parser always runs;
+ * when a provider is given its cleaned-up version replaces the draft if it is
+ * valid. Throws a RecipeRequestError when no recipe can be found in the text.
+ */
+export async function importRecipeFromText(
+  text: string,
+  provider: RecipeVisionProvider | null
+): Promise<TextImportResult> {
+  const draft = extractRecipeFromText(text);
+
+  if (provider) {
+    try {
+      const response = await provider.complete({
+        task: 'cleanup-recipe',
+        prompt: buildCleanupPrompt(text, draft),
+        maxTokens: RECIPE_MAX_TOKENS,
+        temperature: 0
+      });
+
+      const json = extractJsonFromResponse(response.content);
+      const cleaned = json === null ? null : validateRecipe(json);
+      if (cleaned?.valid) {
+        return { recipe: cleaned.recipe, source: 'ai-cleanup', issues: cleaned.issues };
+      }
+      console.log('AI cleanup did not return a valid recipe, using the parsed draft:', cleaned?.issues);
+    } catch (error) {
+      console.error('Recipe cleanup request failed:', error);
+    }
+  }
+
+  const parsed = validateRecipe(draft);
+  if (!parsed.valid) {
+    throw new RecipeRequestError('No recipe could be found in the text. Make sure it lists ingredients and steps.', 422);
+  }
+
+  return { recipe: parsed.recipe, source: 'parser', issues: parsed.issues };
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import { GenerationRecord, RecipeFeedback, RecipeFeedbackInput } from '@/types/feedback';
+import { appendJsonLine, readJsonFile, readJsonLines, writeJsonFile } from '@/lib/storage/jsonFileStore';
+
+export interface FeedbackRepository {
+  recordGeneration(record: GenerationRecord): Promise<void>;
+  getGeneration(recipeId: string): Promise<GenerationRecord | null>;
+  listGenerations(): Promise<GenerationRecord[]>;
+  addFeedback(feedback: RecipeFeedbackInput): Promise<RecipeFeedback>;
+  listFeedback(): Promise<RecipeFeedback[]>;
+}
+
+/**
+ * Generations and feedback stored in the data directory. Generations are
+ * appended to a JSON lines file, since one is recorded for every generated
+ * recipe; feedback writes go through a queue, like the recipe repository.
+ */
+export class FileFeedbackRepository implements FeedbackRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly generationsFile = 'generations.jsonl',
+    private readonly feedbackFile = 'feedback.json'
+  ) {}
+
+  recordGeneration(record: GenerationRecord): Promise<void> {
+    return appendJsonLine(this.generationsFile, record);
+  }
+
+  async getGeneration(recipeId: string): Promise<GenerationRecord | null> {
+    const records = await this.listGenerations();
+    return records.find(record => record.recipeId === recipeId) || null;
+  }
+
+  listGenerations(): Promise<GenerationRecord[]> {
+    return readJsonLines<GenerationRecord>(this.generationsFile);
+  }
+
+  addFeedback(input: RecipeFeedbackInput): Promise<RecipeFeedback> {
+    return this.mutate<RecipeFeedback, RecipeFeedback>(this.feedbackFile, records => {
+      const feedback: RecipeFeedback = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+      records.push(feedback);
+      return feedback;
+    });
+  }
+
+  listFeedback(): Promise<RecipeFeedback[]> {
+    return readJsonFile<RecipeFeedback[]>(this.feedbackFile, []);
+  }
+
+  private mutate<R, T>(fileName: string, change: (records: R[]) => T): Promise<T> {
+    const result = this.writeQueue.then(async () => {
+      const records = await readJsonFile<R[]>(fileName, []);
+      const value = change(records);
+      await writeJsonFile(fileName, records);
+      return value;
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+let repository: FeedbackRepository | null = null;
+
+/**
+ * Shared feedback repository used by the API routes
+ */
+export function getFeedbackRepository(): FeedbackRepository {
+  if (!repository) {
+    repository = new FileFeedbackRepository();
+  }
+  return repository;
+}
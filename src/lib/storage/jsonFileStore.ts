@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory used for file-backed persistence (override with RECIPE_DATA_DIR)
+ */
+export function getDataDirectory(): string {
+  return process.env.RECIPE_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Read a JSON file from the data directory, returning the fallback if it does not exist yet
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(path.join(getDataDirectory(), fileName), 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read every record of a JSON lines file in the data directory. Lines that do
+ * not parse, such as one cut short by a crash, are skipped.
+ */
+export async function readJsonLines<T>(fileName: string): Promise<T[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(getDataDirectory(), fileName), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      // Skip the damaged line
+    }
+  }
+  return records;
+}
+
+/**
+ * Append one record to a JSON lines file in the data directory, without
+ * reading or rewriting what is already there
+ */
+export async function appendJsonLine<T>(fileName: string, record: T): Promise<void> {
+  const filePath = path.join(getDataDirectory(), fileName);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(record) + '\n', 'utf8');
+}
+
+/**
+ * Write a JSON file to the data directory atomically (write to a temp file, then rename)
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = path.join(getDataDirectory(), fileName);
+  // Unique per write, so writers that are not queued never share a temp file
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
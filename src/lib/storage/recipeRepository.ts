@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { Recipe, SavedRecipe } from '@/types/recipe';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/jsonFileStore';
+
+export interface RecipeRepository {
+  list(): Promise<SavedRecipe[]>;
+  get(id: string): Promise<SavedRecipe | null>;
+  create(recipe: Recipe): Promise<SavedRecipe>;
+  // Save several recipes with one write, for imports
+  createMany(recipes: Recipe[]): Promise<SavedRecipe[]>;
+  update(id: string, recipe: Recipe): Promise<SavedRecipe | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Recipe repository backed by a single JSON file in the data directory.
+ * Writes are serialized so concurrent requests cannot clobber each other.
+ */
+export class FileRecipeRepository implements RecipeRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly fileName = 'recipes.json') {}
+
+  async list(): Promise<SavedRecipe[]> {
+    const recipes = await this.readAll();
+    return recipes.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<SavedRecipe | null> {
+    const recipes = await this.readAll();
+    return recipes.find(recipe => recipe.id === id) || null;
+  }
+
+  async create(recipe: Recipe): Promise<SavedRecipe> {
+    const [saved] = await this.createMany([recipe]);
+    return saved;
+  }
+
+  createMany(newRecipes: Recipe[]): Promise<SavedRecipe[]> {
+    return this.mutate(recipes => {
+      const now = new Date().toISOString();
+      const saved: SavedRecipe[] = newRecipes.map(recipe => ({ ...recipe, id: randomUUID(), createdAt: now, updatedAt: now }));
+      recipes.push(...saved);
+      return saved;
+    });
+  }
+
+  update(id: string, recipe: Recipe): Promise<SavedRecipe | null> {
+    return this.mutate(recipes => {
+      const index = recipes.findIndex(existing => existing.id === id);
+      if (index === -1) return null;
+
+      const updated: SavedRecipe = {
+        ...recipe,
+        id,
+        createdAt: recipes[index].createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+      recipes[index] = updated;
+      return updated;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.mutate(recipes => {
+      const index = recipes.findIndex(existing => existing.id === id);
+      if (index === -1) return false;
+
+      recipes.splice(index, 1);
+      return true;
+    });
+  }
+
+  private readAll(): Promise<SavedRecipe[]> {
+    return readJsonFile<SavedRecipe[]>(this.fileName, []);
+  }
+
+  private mutate<T>(change: (recipes: SavedRecipe[]) => T): Promise<T> {
+    const result = this.writeQueue.then(async () => {
+      const recipes = await this.readAll();
+      const value = change(recipes);
+      await writeJsonFile(this.fileName, recipes);
+      return value;
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+let repository: RecipeRepository | null = null;
+
+/**
+ * Shared recipe repository used by the API routes
+ */
+export function getRecipeRepository(): RecipeRepository {
+  if (!repository) {
+    repository = new FileRecipeRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,68 @@
+import { Ingredient } from '@/types/recipe';
+import { GeoLocation, StoreAvailability, StoreInventoryItem } from '@/types/stores';
+import { StoreInventoryProvider } from '@/lib/stores/types';
+import { distanceKm } from '@/lib/stores/geo';
+import { matchProduct } from '@/utils/productMatching';
+import { needsBuying, shoppingKey, shoppingName } from '@/utils/shoppingList';
+
+export const DEFAULT_SEARCH_RADIUS_KM = 10;
+export const MAX_SEARCH_RADIUS_KM = 50;
+export const MAX_AVAILABILITY_INGREDIENTS = 100;
+
+// Nearest stores only; the rest are rarely worth the trip
+const MAX_STORES = 10;
+
+/**
+ * The product an ingredient would be bought as, preferring what is in stock
+ */
+export function findProduct(ingredientName: string, inventory: StoreInventoryItem[]): StoreInventoryItem | null {
+  return matchProduct(ingredientName, inventory, item => item.inStock);
+}
+
+/**
+ * Check which nearby stores carry a recipe's ingredients. Stores with the
+ * fewest missing items come first, nearest first among equals.
+ */
+export async function findStoreAvailability(
+  ingredients: Ingredient[],
+  location: GeoLocation,
+  radiusKm: number,
+  provider: StoreInventoryProvider
+): Promise<StoreAvailability[]> {
+  // Each thing to buy once, under its first name in the recipe
+  const names = new Map<string, string>();
+  ingredients.forEach(ingredient => {
+    const key = shoppingKey(ingredient.name);
+    if (needsBuying(ingredient.name) && !names.has(key)) {
+      names.set(key, shoppingName(ingredient.name));
+    }
+  });
+
+  const stores = (await provider.findStores(location, radiusKm))
+    .map(store => ({ store, distanceKm: distanceKm(location, store.location) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, MAX_STORES);
+
+  const results = await Promise.all(stores.map(async ({ store, distanceKm: distance }) => {
+    const inventory = await provider.getInventory(store.id);
+    const availability: StoreAvailability = {
+      store,
+      distanceKm: Math.round(distance * 10) / 10,
+      inStock: [],
+      missing: []
+    };
+
+    names.forEach(name => {
+      const product = findProduct(name, inventory);
+      if (product?.inStock) {
+        availability.inStock.push({ ingredient: name, product: product.name, price: product.price });
+      } else {
+        availability.missing.push(name);
+      }
+    });
+
+    return availability;
+  }));
+
+  return results.sort((a, b) => a.missing.length - b.missing.length || a.distanceKm - b.distanceKm);
+}
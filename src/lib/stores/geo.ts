@@ -0,0 +1,30 @@
+import { GeoLocation } from '@/types/stores';
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+export function distanceKm(from: GeoLocation, to: GeoLocation): number {
+  const latitudeDelta = toRadians(to.latitude - from.latitude);
+  const longitudeDelta = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Whether a value is a latitude/longitude pair within range
+ */
+export function isGeoLocation(value: unknown): value is GeoLocation {
+  if (!value || typeof value !== 'object') return false;
+
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return typeof latitude === 'number' && Number.isFinite(latitude) && Math.abs(latitude) <= 90 &&
+    typeof longitude === 'number' && Number.isFinite(longitude) && Math.abs(longitude) <= 180;
+}
@@ -0,0 +1,18 @@
+import { JsonFileStoreInventoryProvider } from '@/lib/stores/jsonFileProvider';
+import { StoreInventoryProvider } from '@/lib/stores/types';
+
+let cachedProvider: StoreInventoryProvider | null = null;
+
+/**
+ * Shared store inventory provider. Reads RECIPE_STORE_INVENTORY_FILE when set
+ * and the bundled sample stores otherwise.
+ */
+export function getStoreInventoryProvider(): StoreInventoryProvider {
+  if (!cachedProvider) {
+    cachedProvider = new JsonFileStoreInventoryProvider(process.env.RECIPE_STORE_INVENTORY_FILE || undefined);
+    console.log(`Using ${cachedProvider.name} store inventory provider`);
+  }
+  return cachedProvider;
+}
+
+export type { StoreInventoryProvider } from '@/lib/stores/types';
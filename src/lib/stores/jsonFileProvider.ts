@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import { GeoLocation, Store, StoreInventoryItem } from '@/types/stores';
+import { StoreInventoryProvider } from '@/lib/stores/types';
+import { distanceKm } from '@/lib/stores/geo';
+import sampleStores from '@/data/stores.json';
+
+interface StoreInventoryFile {
+  stores: (Store & { inventory: StoreInventoryItem[] })[];
+}
+
+/**
+ * Store provider backed by a JSON file, for development and demos. Without a
+ * file path it serves the bundled sample stores. The file is read on every
+ * call so edits show up without a restart.
+ */
+export class JsonFileStoreInventoryProvider implements StoreInventoryProvider {
+  readonly name = 'json-file';
+
+  constructor(private readonly filePath?: string) {}
+
+  async findStores(location: GeoLocation, radiusKm: number): Promise<Store[]> {
+    const { stores } = await this.load();
+    return stores
+      .filter(store => distanceKm(location, store.location) <= radiusKm)
+      .map(({ id, name, address, location: storeLocation }) => ({ id, name, address, location: storeLocation }));
+  }
+
+  async getInventory(storeId: string): Promise<StoreInventoryItem[]> {
+    const { stores } = await this.load();
+    return stores.find(store => store.id === storeId)?.inventory ?? [];
+  }
+
+  private async load(): Promise<StoreInventoryFile> {
+    if (!this.filePath) {
+      return sampleStores as StoreInventoryFile;
+    }
+
+    const data = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as Partial<StoreInventoryFile>;
+    if (!Array.isArray(data.stores)) {
+      throw new Error(`Store inventory file ${this.filePath} has no "stores" array`);
+    }
+    return { stores: data.stores };
+  }
+}
@@ -0,0 +1,10 @@
+import { GeoLocation, Store, StoreInventoryItem } from '@/types/stores';
+
+/**
+ * A source of nearby stores and what they stock
+ */
+export interface StoreInventoryProvider {
+  readonly name: string;
+  findStores(location: GeoLocation, radiusKm: number): Promise<Store[]>;
+  getInventory(storeId: string): Promise<StoreInventoryItem[]>;
+}
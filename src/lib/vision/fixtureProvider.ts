@@ -0,0 +1,79 @@
+import { DishCandidate, Recipe } from '@/types/recipe';
+import { RecipeVisionProvider, VisionRequest, VisionResponse, VisionStreamChunk, VisionTask } from '@/lib/vision/types';
+
+const SAMPLE_RECIPE: Recipe = {
+  title: 'Sample Recipe (API Key Required)',
+  description: 'This is a sample recipe from the fixture vision provider. Configure your OpenAI API key in .env.local to generate real recipes from images.',
+  ingredients: [
+    { name: 'Sample ingredient 1', quantity: '1', unit: 'cup (250ml)' },
+    { name: 'Sample ingredient 2', quantity: '2', unit: 'tablespoons' },
+    { name: 'Sample ingredient 3', quantity: '1', unit: 'piece' }
+  ],
+  instructions: [
+    'Configure your OpenAI API key in the .env.local file',
+    'Replace "your_openai_api_key_here" with your actual API key',
+    'Restart the development server',
+    'Upload an image to generate a real recipe'
+  ],
+  stepDetails: [
+    { duration: 2 },
+    {},
+    { duration: 1, equipment: ['terminal'] },
+    { ingredients: ['Sample ingredient 1'], equipment: ['camera'] }
+  ],
+  prepTime: 10,
+  cookTime: 20,
+  cookingTime: 30,
+  servings: 4,
+  difficulty: 'easy',
+  equipment: ['terminal', 'camera']
+};
+
+// Streamed fixtures arrive in small pieces so progressive rendering can be exercised
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const SAMPLE_CANDIDATES: DishCandidate[] = [
+  { name: 'Sample Dish (API Key Required)', confidence: 0.82, components: ['sample component 1', 'sample component 2'] },
+  { name: 'Another Sample Dish', confidence: 0.11, components: ['sample component 1'] },
+  { name: 'Unlikely Sample Dish', confidence: 0.04, components: [] }
+];
+
+const FIXTURES: Record<VisionTask, string> = {
+  'generate-recipe': JSON.stringify(SAMPLE_RECIPE),
+  'repair-recipe': JSON.stringify(SAMPLE_RECIPE),
+  'identify-dish': JSON.stringify({ candidates: SAMPLE_CANDIDATES }),
+  'cleanup-recipe': JSON.stringify(SAMPLE_RECIPE),
+  'adapt-recipe': JSON.stringify({ substitutions: [], instructions: SAMPLE_RECIPE.instructions, notes: [] }),
+};
+
+/**
+ * Deterministic provider for development and tests. Returns canned model
+ * output per task so the full parsing pipeline runs without an API key.
+ */
+export class FixtureVisionProvider implements RecipeVisionProvider {
+  readonly name = 'fixture';
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const content = FIXTURES[request.task];
+
+    return {
+      content,
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      },
+    };
+  }
+
+  async *stream(request: VisionRequest): AsyncIterable<VisionStreamChunk> {
+    const content = FIXTURES[request.task];
+
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      yield { text: content.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+    yield { text: '', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+  }
+}
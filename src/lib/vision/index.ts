@@ -0,0 +1,62 @@
+import { FixtureVisionProvider } from '@/lib/vision/fixtureProvider';
+import { OpenAIVisionProvider } from '@/lib/vision/openaiProvider';
+import { RecipeVisionProvider } from '@/lib/vision/types';
+
+export type VisionProviderName = 'openai' | 'fixture';
+
+export interface VisionProviderConfig {
+  provider: VisionProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}
+
+function hasUsableApiKey(apiKey?: string): boolean {
+  return !!apiKey && !apiKey.includes('your_openai_api_key_here');
+}
+
+/**
+ * Read provider settings from the environment. Without an explicit
+ * RECIPE_VISION_PROVIDER, OpenAI is used when a key or base URL is configured
+ * and the fixture provider otherwise.
+ */
+export function getVisionProviderConfig(): VisionProviderConfig {
+  const apiKey = hasUsableApiKey(process.env.OPENAI_API_KEY) ? process.env.OPENAI_API_KEY : undefined;
+  const baseURL = process.env.OPENAI_BASE_URL || undefined;
+  const requested = process.env.RECIPE_VISION_PROVIDER;
+
+  let provider: VisionProviderName;
+  if (requested === 'openai' || requested === 'fixture') {
+    provider = requested;
+  } else {
+    if (requested) {
+      console.warn(`Unknown RECIPE_VISION_PROVIDER "${requested}", falling back to automatic selection`);
+    }
+    provider = apiKey || baseURL ? 'openai' : 'fixture';
+  }
+
+  return {
+    provider,
+    apiKey,
+    baseURL,
+    model: process.env.OPENAI_MODEL || 'gpt-4o',
+  };
+}
+
+let cachedProvider: RecipeVisionProvider | null = null;
+
+/**
+ * Shared vision provider selected through configuration
+ */
+export function getVisionProvider(): RecipeVisionProvider {
+  if (!cachedProvider) {
+    const config = getVisionProviderConfig();
+    cachedProvider = config.provider === 'openai'
+      ? new OpenAIVisionProvider(config)
+      : new FixtureVisionProvider();
+    console.log(`Using ${cachedProvider.name} vision provider`);
+  }
+  return cachedProvider;
+}
+
+export type { RecipeVisionProvider, VisionImage, VisionRequest, VisionResponse, VisionStreamChunk, VisionTask, VisionUsage } from '@/lib/vision/types';
@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import { RecipeVisionProvider, VisionRequest, VisionResponse, VisionStreamChunk, VisionUsage } from '@/lib/vision/types';
+
+export interface OpenAIVisionProviderOptions {
+  apiKey?: string;
+  // Any OpenAI-compatible server, e.g. a self-hosted model at http://localhost:8000/v1
+  baseURL?: string;
+  model: string;
+}
+
+/**
+ * Vision provider backed by the OpenAI chat completions API
+ */
+export class OpenAIVisionProvider implements RecipeVisionProvider {
+  readonly name = 'openai';
+  private readonly client: OpenAI;
+  private readonly model: string;
+
+  constructor(options: OpenAIVisionProviderOptions) {
+    this.client = new OpenAI({
+      // Self-hosted OpenAI-compatible servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+    this.model = options.model;
+  }
+
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.buildMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+      // Note: response_format may not be supported with vision models
+    });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new Error('No content received from OpenAI');
+    }
+
+    return {
+      content,
+      usage: response.usage && toVisionUsage(response.usage),
+    };
+  }
+
+  async *stream(request: VisionRequest): AsyncIterable<VisionStreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.buildMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content || '';
+      if (text || chunk.usage) {
+        yield { text, usage: chunk.usage ? toVisionUsage(chunk.usage) : undefined };
+      }
+    }
+  }
+
+  private buildMessages(request: VisionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const images = request.images || [];
+
+    return [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: request.prompt },
+          ...images.map(image => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.base64}` }
+          }))
+        ]
+      }
+    ];
+  }
+}
+
+function toVisionUsage(usage: OpenAI.CompletionUsage): VisionUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
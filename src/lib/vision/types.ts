@@ -0,0 +1,41 @@
+export type VisionTask = 'generate-recipe' | 'repair-recipe' | 'identify-dish' | 'cleanup-recipe' | 'adapt-recipe';
+
+export interface VisionImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface VisionRequest {
+  // What the prompt asks for; lets fixture providers answer without a model
+  task: VisionTask;
+  prompt: string;
+  images?: VisionImage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface VisionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface VisionResponse {
+  content: string;
+  usage?: VisionUsage;
+}
+
+export interface VisionStreamChunk {
+  text: string;
+  // Reported once, usually with the last chunk
+  usage?: VisionUsage;
+}
+
+/**
+ * A model that can answer text prompts about food images
+ */
+export interface RecipeVisionProvider {
+  readonly name: string;
+  complete(request: VisionRequest): Promise<VisionResponse>;
+  stream(request: VisionRequest): AsyncIterable<VisionStreamChunk>;
+}
@@ -0,0 +1,91 @@
+import { Ingredient, UnitSystem } from '@/types/recipe';
+
+/**
+ * A pack size: "200" + "g", "1" + "l", "12" + "" for a dozen eggs
+ */
+export interface PackSize {
+  quantity: number;
+  unit: string;
+}
+
+/**
+ * One purchasable product of a delivery service. The same product in
+ * different sizes is listed once per size, under the same name.
+ */
+export interface DeliveryProduct {
+  sku: string;
+  name: string;
+  aliases?: string[];
+  size: PackSize;
+  price: number;
+}
+
+export interface OrderLine {
+  sku: string;
+  productName: string;
+  size: PackSize;
+  packs: number;
+  unitPrice: number;
+}
+
+export interface CartLine extends OrderLine {
+  // What the line buys for, with amounts: ["4 eggs", "2 egg yolks"]
+  neededFor: string[];
+}
+
+export interface DeliveryCart {
+  lines: CartLine[];
+  // Ingredients with no matching product
+  unmatched: string[];
+  total: number;
+}
+
+export interface OrderItem {
+  sku: string;
+  packs: number;
+}
+
+export interface OrderSubstitution {
+  sku: string;
+  productName: string;
+  replacementSku: string;
+  replacementName: string;
+}
+
+// 'failed': nothing could be delivered and no order was placed
+export type DeliveryOrderStatus = 'confirmed' | 'failed';
+
+export interface DeliveryOrder {
+  status: DeliveryOrderStatus;
+  orderId?: string;
+  // Lines as they will be delivered, substitutes included
+  lines: OrderLine[];
+  substitutions: OrderSubstitution[];
+  // Products that are out of stock and were dropped from the order
+  outOfStock: OrderLine[];
+  total: number;
+  estimatedDelivery?: string;
+  message?: string;
+}
+
+export interface BuildCartRequest {
+  ingredients: Ingredient[];
+  // Unit system for the needed amounts (default: metric)
+  unitSystem?: UnitSystem;
+}
+
+export interface BuildCartResponse {
+  success: boolean;
+  cart?: DeliveryCart;
+  error?: string;
+}
+
+export interface SubmitOrderRequest {
+  items: OrderItem[];
+}
+
+export interface SubmitOrderResponse {
+  success: boolean;
+  order?: DeliveryOrder;
+  error?: string;
+}
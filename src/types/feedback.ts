@@ -0,0 +1,89 @@
+import { RecipeSource, UnitSystem } from '@/types/recipe';
+
+/**
+ * How a recipe was generated, kept so feedback can be traced back to the
+ * kind of photos and prompt that produced it
+ */
+export interface GenerationRecord {
+  recipeId: string;
+  createdAt: string;
+  title: string;
+  source: RecipeSource;
+  provider: string;
+  imageCount: number;
+  // Decoded size of all photos together
+  imageBytes: number;
+  // Whether the prompt carried a dish name confirmed by the user
+  dishHint: boolean;
+  unitSystem: UnitSystem;
+  instructionCount: number;
+  issueCount: number;
+}
+
+export interface StepComment {
+  // Index into the recipe's instructions
+  step: number;
+  comment: string;
+}
+
+export interface RecipeFeedbackInput {
+  recipeId: string;
+  // 1 to 5 stars
+  rating?: number;
+  // The photo was of a different dish than the recipe
+  wrongDish?: boolean;
+  correctDish?: string;
+  stepComments?: StepComment[];
+  comment?: string;
+}
+
+export interface RecipeFeedback extends RecipeFeedbackInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface RecipeFeedbackResponse {
+  success: boolean;
+  feedback?: RecipeFeedback;
+  error?: string;
+}
+
+export interface FeedbackBucket {
+  key: string;
+  label: string;
+  generations: number;
+  // Generations with at least one piece of feedback
+  reviewed: number;
+  ratings: number;
+  averageRating: number | null;
+  lowRatings: number;
+  wrongDish: number;
+}
+
+export interface FeedbackDimension {
+  // "imageCount", "dishHint", ...
+  key: string;
+  label: string;
+  buckets: FeedbackBucket[];
+}
+
+export interface LowRatedRecipe {
+  recipeId: string;
+  title: string;
+  averageRating: number | null;
+  wrongDish: boolean;
+  comments: string[];
+}
+
+export interface FeedbackSummary {
+  overall: FeedbackBucket;
+  dimensions: FeedbackDimension[];
+  // Worst first
+  lowRated: LowRatedRecipe[];
+}
+
+export interface FeedbackSummaryResponse {
+  success: boolean;
+  summary?: FeedbackSummary;
+  error?: string;
+}
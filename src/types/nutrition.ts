@@ -0,0 +1,48 @@
+import { Ingredient } from '@/types/recipe';
+
+/**
+ * Energy in kcal; everything else in grams
+ */
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbohydrates: number;
+  fiber: number;
+}
+
+/**
+ * One entry of the bundled nutrient table
+ */
+export interface NutrientFood {
+  name: string;
+  aliases: string[];
+  per100g: NutritionFacts;
+  // Grams per milliliter, for ingredients measured by volume
+  density?: number;
+  // Flours, sugars, grains and nuts: weighed instead of measured by volume when the cook prefers
+  dry?: boolean;
+  // Weight of one medium piece, for counted ingredients ("2 eggs")
+  pieceGrams?: number;
+  // Weight of food-specific units ("clove", "stick", "can")
+  portions?: Record<string, number>;
+}
+
+// 'unmatched': not in the nutrient table; 'unmeasured': found, but the amount could not be weighed
+export type NutritionMatchStatus = 'matched' | 'unmatched' | 'unmeasured';
+
+export interface IngredientNutrition {
+  ingredient: Ingredient;
+  status: NutritionMatchStatus;
+  foodName?: string;
+  grams?: number;
+  nutrition?: NutritionFacts;
+}
+
+export interface RecipeNutrition {
+  total: NutritionFacts;
+  // Equal to the total when the recipe has no serving count
+  perServing: NutritionFacts;
+  servings?: number;
+  ingredients: IngredientNutrition[];
+}
@@ -1,28 +1,255 @@
 export type UnitSystem = 'metric' | 'imperial';
 
+export type WeightPreference = 'grams' | 'ounces';
+// Liquids and anything measured by volume: metric cups are 250 ml, UK pints 20 UK fl oz
+export type VolumePreference = 'milliliters' | 'metric-cups' | 'us-cups' | 'uk-pints';
+// Amounts under a quarter cup (about 60 ml)
+export type SmallVolumePreference = 'spoons' | 'milliliters';
+// Gas marks are written with the Celsius temperature next to them
+export type TemperaturePreference = 'celsius' | 'fahrenheit' | 'gas-mark';
+export type LengthPreference = 'centimeters' | 'inches';
+
+/**
+ * The units a cook wants, chosen per kind of measurement
+ */
+export interface MeasurementProfile {
+  weight: WeightPreference;
+  volume: VolumePreference;
+  smallVolume: SmallVolumePreference;
+  temperature: TemperaturePreference;
+  length: LengthPreference;
+  // Weigh flour, sugar, rice and other dry ingredients instead of measuring them in cups
+  weighDryIngredients: boolean;
+}
+
+export type MeasurementCategory = Exclude<keyof MeasurementProfile, 'weighDryIngredients'>;
+
+// A unit system stands for its preset profile
+export type MeasurementTarget = UnitSystem | MeasurementProfile;
+
+// Languages the app and the generated recipes can use
+export type Locale = 'en' | 'es' | 'fr';
+
 export interface Ingredient {
   name: string;
   quantity: string;
   unit: string;
 }
 
+export type TemperatureUnit = 'C' | 'F';
+
+export interface StepTemperature {
+  value: number;
+  unit: TemperatureUnit;
+}
+
+/**
+ * Structured details of one instruction. The text stays in
+ * Recipe.instructions, so recipes without details read the same as before.
+ */
+export interface RecipeStepDetails {
+  // Minutes
+  duration?: number;
+  temperature?: StepTemperature;
+  // Names of the recipe ingredients used in this step
+  ingredients?: string[];
+  equipment?: string[];
+}
+
+export interface RecipeStep extends RecipeStepDetails {
+  text: string;
+}
+
+export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface Recipe {
   title: string;
   description?: string;
   ingredients: Ingredient[];
   instructions: string[];
+  // stepDetails[i] describes instructions[i]; absent for plain-text recipes
+  stepDetails?: RecipeStepDetails[];
+  // Minutes of hands-on preparation and of cooking; cookingTime is the total
+  prepTime?: number;
+  cookTime?: number;
   cookingTime?: number;
   servings?: number;
+  difficulty?: RecipeDifficulty;
+  // Everything needed across all steps
+  equipment?: string[];
   unitSystem?: UnitSystem;
 }
 
 export interface RecipeRequest {
-  imageBase64: string;
+  // Photos of the same dish, base64 encoded, in the order the user arranged them
+  images?: string[];
+  // Single-image form kept for existing clients; ignored when images is set
+  imageBase64?: string;
   unitSystem?: UnitSystem;
+  // Per-category unit choices; when set, unitSystem only labels the recipe
+  measurementProfile?: MeasurementProfile;
+  // Language of the generated title, ingredients and instructions; English when unset
+  locale?: Locale;
+  // Dish name confirmed by the user after /api/identify-dish
+  dishHint?: string;
+  // Generate a fresh recipe even when the same request is cached
+  bypassCache?: boolean;
+}
+
+export interface DishCandidate {
+  name: string;
+  // 0 to 1
+  confidence: number;
+  // Visible parts of the dish ("fried egg", "tortilla", "salsa verde")
+  components: string[];
+}
+
+export interface IdentifyDishRequest {
+  images?: string[];
+  imageBase64?: string;
+  maxCandidates?: number;
+}
+
+// Why a request was refused with a 429
+export interface RateLimitDetails {
+  // 'rate' when requests come too fast, 'quota' when the daily token budget is used up
+  reason: 'rate' | 'quota';
+  retryAfterSeconds: number;
+  // Requests per minute or tokens per day
+  limit: number;
+}
+
+export interface IdentifyDishResponse {
+  success: boolean;
+  candidates?: DishCandidate[];
+  error?: string;
+  rateLimit?: RateLimitDetails;
+}
+
+// Which path of the generation pipeline produced a recipe
+export type RecipeSource = 'model' | 'repaired' | 'text-fallback';
+
+export interface RecipeValidationIssue {
+  // Field path such as "ingredients[2].name"
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
 }
 
 export interface RecipeResponse {
   success: boolean;
   recipe?: Recipe;
+  // Stable ID of this generated recipe, used to send feedback about it
+  recipeId?: string;
+  source?: RecipeSource;
+  issues?: RecipeValidationIssue[];
+  error?: string;
+  rateLimit?: RateLimitDetails;
+}
+
+export interface ImportRecipeTextRequest {
+  text: string;
+  // Ask the AI provider to tidy up the parsed recipe, when one is configured
+  cleanup?: boolean;
+}
+
+// 'parser' when the text parser's result is used as-is
+export type TextImportSource = 'parser' | 'ai-cleanup';
+
+export interface ImportRecipeTextResponse {
+  success: boolean;
+  recipe?: Recipe;
+  source?: TextImportSource;
+  issues?: RecipeValidationIssue[];
+  error?: string;
+  rateLimit?: RateLimitDetails;
+}
+
+export type DietaryConstraint = 'vegetarian' | 'vegan' | 'gluten-free' | 'dairy-free' | 'low-sodium';
+
+export interface AdaptRecipeRequest {
+  recipe: Recipe;
+  constraints?: DietaryConstraint[];
+  // Ingredients the cook does not have ("I don't have buttermilk")
+  unavailableIngredients?: string[];
+}
+
+export interface IngredientSubstitution {
+  // Index in the adapted recipe's ingredients; absent when the ingredient was left out
+  ingredientIndex?: number;
+  original: Ingredient;
+  // null when the ingredient was left out without a replacement
+  replacement: Ingredient | null;
+  reason: DietaryConstraint | 'unavailable';
+}
+
+export interface InstructionChange {
+  index: number;
+  original: string;
+  updated: string;
+}
+
+export type AdaptationSource = 'model' | 'rules';
+
+export interface RecipeAdaptation {
+  recipe: Recipe;
+  substitutions: IngredientSubstitution[];
+  instructionChanges: InstructionChange[];
+  // Things the cook should know, such as unavailable ingredients with no known substitute
+  notes: string[];
+  source: AdaptationSource;
+}
+
+export interface AdaptRecipeResponse {
+  success: boolean;
+  adaptation?: RecipeAdaptation;
+  error?: string;
+  rateLimit?: RateLimitDetails;
+}
+
+// Events of the NDJSON stream returned by /api/generate-recipe/stream
+export type RecipeStreamEvent =
+  | { type: 'title'; title: string }
+  | { type: 'description'; description: string }
+  | { type: 'ingredient'; index: number; ingredient: Ingredient }
+  | { type: 'instruction'; index: number; instruction: string }
+  | { type: 'details'; cookingTime?: number; servings?: number }
+  | { type: 'done'; recipe: Recipe; recipeId: string; source: RecipeSource; issues: RecipeValidationIssue[] }
+  | { type: 'error'; error: string };
+
+export interface SavedRecipe extends Recipe {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveRecipeRequest {
+  recipe: Recipe;
+}
+
+export interface ExportRecipeRequest {
+  recipe: Recipe;
+}
+
+export type RecipeInterchangeFormat = 'json-ld' | 'cooklang' | 'paprika';
+
+export interface ImportRecipesResponse {
+  success: boolean;
+  recipes?: SavedRecipe[];
+  // Recipes in the file that failed validation and were not saved
+  skipped?: number;
+  error?: string;
+}
+
+export interface SavedRecipeResponse {
+  success: boolean;
+  recipe?: SavedRecipe;
+  issues?: RecipeValidationIssue[];
+  error?: string;
+}
+
+export interface SavedRecipeListResponse {
+  success: boolean;
+  recipes?: SavedRecipe[];
   error?: string;
 }
@@ -0,0 +1,38 @@
+export type AisleCategory =
+  | 'produce'
+  | 'meat-seafood'
+  | 'dairy-eggs'
+  | 'bakery'
+  | 'baking'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'beverages'
+  | 'other';
+
+/**
+ * An amount on the list, already formatted ("1 1/2" + "cups")
+ */
+export interface ShoppingAmount {
+  quantity: string;
+  unit: string;
+}
+
+/**
+ * One thing to buy, merged from every selected recipe that uses it
+ */
+export interface ShoppingListItem {
+  // Normalized ingredient name; stable across edits so check marks survive
+  key: string;
+  name: string;
+  // Amounts that could not be combined (different dimensions, "to taste") are listed separately
+  amounts: ShoppingAmount[];
+  aisle: AisleCategory;
+  recipeTitles: string[];
+}
+
+export interface ShoppingListSection {
+  aisle: AisleCategory;
+  label: string;
+  items: ShoppingListItem[];
+}
@@ -0,0 +1,53 @@
+import { Ingredient } from '@/types/recipe';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Store {
+  id: string;
+  name: string;
+  address: string;
+  location: GeoLocation;
+}
+
+/**
+ * A product a store lists, matched against ingredient names
+ */
+export interface StoreInventoryItem {
+  name: string;
+  // Other names the product is sold under ("scallions" for green onions)
+  aliases?: string[];
+  inStock: boolean;
+  price?: number;
+}
+
+export interface StoreStockMatch {
+  ingredient: string;
+  product: string;
+  price?: number;
+}
+
+/**
+ * What one store has for a recipe
+ */
+export interface StoreAvailability {
+  store: Store;
+  distanceKm: number;
+  inStock: StoreStockMatch[];
+  // Ingredients the store does not list or has run out of
+  missing: string[];
+}
+
+export interface StoreAvailabilityRequest {
+  ingredients: Ingredient[];
+  location: GeoLocation;
+  radiusKm?: number;
+}
+
+export interface StoreAvailabilityResponse {
+  success: boolean;
+  stores?: StoreAvailability[];
+  error?: string;
+}
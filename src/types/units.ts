@@ -0,0 +1,35 @@
+import { UnitSystem } from '@/types/recipe';
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+/**
+ * A parsed numeric amount. Ranges like "2-3" keep both ends.
+ */
+export interface Quantity {
+  min: number;
+  max?: number;
+}
+
+export interface UnitDefinition {
+  id: string;
+  dimension: UnitDimension;
+  // Units without a system (spoons, pieces) are valid in every unit system
+  system?: UnitSystem;
+  // Size of one unit in the dimension's base unit (grams or milliliters)
+  toBase: number;
+  singular: string;
+  plural: string;
+  aliases: string[];
+}
+
+/**
+ * Structured form of an ingredient's free-text quantity and unit
+ */
+export interface Measurement {
+  quantity: Quantity | null;
+  unit: UnitDefinition | null;
+  // Original unit text when it is not a known unit ("clove", "pinch")
+  unitText: string;
+  // Parenthetical hint such as "(250ml)" in "cup (250ml)"
+  note?: string;
+}
@@ -0,0 +1,52 @@
+import { Locale } from '@/types/recipe';
+
+export type CookModeCommand = 'next' | 'previous' | 'repeat' | 'timer' | 'exit';
+
+// Language the browser listens for, so transcripts match the command patterns
+export const SPEECH_RECOGNITION_LANGUAGES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR'
+};
+
+// Checked in order, so "start timer" wins over a "start" elsewhere in the phrase.
+// Patterns are written without accents, as transcripts are matched without them.
+const VOICE_COMMANDS: Record<Locale, { command: CookModeCommand; pattern: RegExp }[]> = {
+  en: [
+    { command: 'timer', pattern: /\b(start|set)( the| a)? timer\b|\btimer\b/ },
+    { command: 'exit', pattern: /\b(exit|close|quit|stop cooking|done cooking)\b/ },
+    { command: 'previous', pattern: /\b(back|previous|go back|last step)\b/ },
+    { command: 'repeat', pattern: /\b(repeat|again|read( it)?|what was that)\b/ },
+    { command: 'next', pattern: /\b(next|continue|forward|done)\b/ }
+  ],
+  es: [
+    { command: 'timer', pattern: /\b(pon|inicia|empieza)( el| un)? (temporizador|cronometro)\b|\b(temporizador|cronometro)\b/ },
+    { command: 'exit', pattern: /\b(salir|sal|cerrar|cierra|terminar|termine)\b/ },
+    { command: 'previous', pattern: /\b(atras|anterior|volver|vuelve|paso anterior)\b/ },
+    { command: 'repeat', pattern: /\b(repite|repetir|otra vez|lee(lo)?|que dijiste)\b/ },
+    { command: 'next', pattern: /\b(siguiente|sigue|continua|continuar|adelante|listo)\b/ }
+  ],
+  fr: [
+    { command: 'timer', pattern: /\b(lance|demarre|mets)( le| un)? (minuteur|chrono)\b|\b(minuteur|chronometre|chrono)\b/ },
+    { command: 'exit', pattern: /\b(quitter|quitte|fermer|ferme|sortir|fini de cuisiner)\b/ },
+    { command: 'previous', pattern: /\b(retour|precedent|precedente|reviens)\b/ },
+    { command: 'repeat', pattern: /\b(repete|repeter|encore|relis|relire|quoi)\b/ },
+    { command: 'next', pattern: /\b(suivant|suivante|continue|continuer|ensuite|fini|termine)\b/ }
+  ]
+};
+
+/**
+ * Cook mode command from a speech recognition transcript in the given
+ * language, or null when the phrase is not one
+ */
+export function parseVoiceCommand(transcript: string, locale: Locale = 'en'): CookModeCommand | null {
+  const text = transcript
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+  return VOICE_COMMANDS[locale].find(({ pattern }) => pattern.test(text))?.command ?? null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Minutes from an ISO 8601 duration ("PT1H30M", "P0DT45M")
+ */
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part) || 0);
+  const total = days * 1440 + hours * 60 + minutes + seconds / 60;
+  return total > 0 ? Math.round(total) : null;
+}
+
+/**
+ * ISO 8601 duration for a number of minutes (90 -> "PT1H30M")
+ */
+export function toIsoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+/**
+ * Minutes from free text such as "1 hr 30 mins", "45 minutes" or "1.5 hours".
+ * A bare number is read as minutes.
+ */
+export function parseDurationText(value: unknown): number | null {
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim().toLowerCase();
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return Number(text) > 0 ? Math.round(Number(text)) : null;
+  }
+
+  let total = 0;
+  let matched = false;
+  for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(d|days?|h|hrs?|hours?|m|mins?|minutes?)\b/g)) {
+    const amount = Number(match[1]);
+    const unit = match[2];
+    total += unit.startsWith('d') ? amount * 1440 : unit.startsWith('h') ? amount * 60 : amount;
+    matched = true;
+  }
+
+  return matched && total > 0 ? Math.round(total) : null;
+}
+
+/**
+ * Human-readable duration (90 -> "1 hr 30 mins")
+ */
+export function formatDurationText(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  const parts: string[] = [];
+  if (hours) parts.push(`${hours} ${hours === 1 ? 'hr' : 'hrs'}`);
+  if (rest || !hours) parts.push(`${rest} ${rest === 1 ? 'min' : 'mins'}`);
+  return parts.join(' ');
+}
+
+export interface StepDuration {
+  // The words the duration was read from, "10-12 minutes"
+  text: string;
+  seconds: number;
+}
+
+// English, Spanish and French, the languages recipes are generated in
+const DURATION_AMOUNT = '(?:\\d+(?:\\.\\d+)?(?:\\s+\\d\\/\\d)?|\\d\\/\\d|an?|una?|une)';
+const DURATION_UNIT = '(?:seconds?|secs?|segundos?|secondes?|minutes?|minutos?|mins?|hours?|hrs?|horas?|heures?)';
+const DURATION_RANGE = '\\s*(?:-|–|to|a|à)\\s*';
+const DURATION_PART = `${DURATION_AMOUNT}(?:${DURATION_RANGE}${DURATION_AMOUNT})?[\\s-]*${DURATION_UNIT}\\b\\.?`;
+const DURATION_PATTERN = new RegExp(`\\b${DURATION_PART}(?:,?\\s*(?:(?:and|y|et)\\s+)?${DURATION_PART})*`, 'gi');
+const DURATION_PART_PATTERN = new RegExp(`(${DURATION_AMOUNT})(?:${DURATION_RANGE}${DURATION_AMOUNT})?[\\s-]*(${DURATION_UNIT})`, 'gi');
+
+function parseDurationAmount(amount: string): number {
+  if (/^(an?|una?|une)$/i.test(amount)) return 1;
+  return amount.split(/\s+/).reduce((sum, part) => {
+    const [numerator, denominator] = part.split('/').map(Number);
+    return sum + (denominator ? numerator / denominator : numerator);
+  }, 0);
+}
+
+/**
+ * Durations mentioned in an instruction ("simmer for 15 minutes", "bake
+ * 1 hour 30 mins"), for offering timers. Ranges use their lower bound, so the
+ * cook checks before anything overcooks.
+ */
+export function findStepDurations(instruction: string): StepDuration[] {
+  const durations: StepDuration[] = [];
+
+  for (const match of instruction.matchAll(DURATION_PATTERN)) {
+    let seconds = 0;
+    for (const part of match[0].matchAll(DURATION_PART_PATTERN)) {
+      const unit = part[2].toLowerCase();
+      const multiplier = unit.startsWith('h') ? 3600 : unit.startsWith('m') ? 60 : 1;
+      seconds += parseDurationAmount(part[1]) * multiplier;
+    }
+    if (seconds > 0) {
+      durations.push({ text: match[0].trim().replace(/\.$/, ''), seconds: Math.round(seconds) });
+    }
+  }
+  return durations;
+}
+
+/**
+ * Countdown display for a number of seconds (75 -> "1:15", 3725 -> "1:02:05")
+ */
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
@@ -1,3 +1,8 @@
+import { MAX_IMAGE_BYTES, SUPPORTED_IMAGE_TYPES, validateImageBytes } from '@/utils/imageValidation';
+
+// Maximum number of photos that can be sent for a single dish
+export const MAX_IMAGES_PER_RECIPE = 4;
+
 /**
  * Convert a File object to base64 string
  */
@@ -16,27 +21,25 @@ export function fileToBase64(file: File): Promise<string> {
 }
 
 /**
- * Validate file type and size
+ * Validate file type, size and content with the same checks the API applies
  */
-export function validateImageFile(file: File): { valid: boolean; error?: string } {
-  const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-  const maxSize = 10 * 1024 * 1024; // 10MB
-
-  if (!validTypes.includes(file.type)) {
+export async function validateImageFile(file: File): Promise<{ valid: boolean; error?: string }> {
+  if (file.type && ![...SUPPORTED_IMAGE_TYPES, 'image/jpg'].includes(file.type)) {
     return {
       valid: false,
       error: 'Please upload a valid image file (JPEG, PNG, or WebP)'
     };
   }
 
-  if (file.size > maxSize) {
+  if (file.size > MAX_IMAGE_BYTES) {
     return {
       valid: false,
       error: 'File size must be less than 10MB'
     };
   }
 
-  return { valid: true };
+  const result = validateImageBytes(new Uint8Array(await file.arrayBuffer()), 'This file');
+  return result.valid ? { valid: true } : { valid: false, error: result.error };
 }
 
 /**
@@ -0,0 +1,192 @@
+// Image checks shared by the upload form and the API routes. They work on raw
+// bytes, so the same rules apply to a dropped file and to a base64 payload.
+
+export type SupportedImageType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export const SUPPORTED_IMAGE_TYPES: SupportedImageType[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024; // 10MB
+export const MIN_IMAGE_DIMENSION = 32;
+export const MAX_IMAGE_DIMENSION = 8192;
+
+export interface ImageInfo {
+  mimeType: SupportedImageType;
+  // Size in bytes
+  size: number;
+  width: number;
+  height: number;
+}
+
+export type ImageValidationErrorCode = 'not-an-image' | 'unsupported-type' | 'too-large' | 'corrupt' | 'bad-dimensions';
+
+export type ImageValidationResult =
+  | { valid: true; image: ImageInfo }
+  | { valid: false; code: ImageValidationErrorCode; error: string };
+
+const SUPPORTED_FORMATS = 'JPEG, PNG or WebP';
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Image type from the file's magic bytes, or null when it is not a supported image
+ */
+export function sniffImageType(bytes: Uint8Array): SupportedImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  return null;
+}
+
+/**
+ * Name of an image format that is recognised but not accepted, so the error
+ * can say what was uploaded
+ */
+function unsupportedFormat(bytes: Uint8Array): string | null {
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'GIF';
+  if (ascii(bytes, 0, 2) === 'BM') return 'BMP';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'TIFF';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'AVIF';
+    if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) return 'HEIC';
+  }
+  return null;
+}
+
+/**
+ * Read the size of a JPEG from its frame header. Returns null when the
+ * segments are broken or the image data does not end with an EOI marker.
+ */
+function jpegDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  let dimensions: { width: number; height: number } | null = null;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9) return null;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2) return null;
+
+    // Start of frame, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > bytes.length) return null;
+      dimensions = {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8]
+      };
+    }
+
+    // Start of scan: compressed data follows, which must be closed by an EOI marker
+    if (marker === 0xda) {
+      for (let end = bytes.length - 2; end > offset; end--) {
+        if (bytes[end] === 0xff && bytes[end + 1] === 0xd9) return dimensions;
+      }
+      return null;
+    }
+
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Read the size of a PNG from its IHDR chunk, walking the chunks to make sure
+ * the file is complete up to IEND
+ */
+function pngDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    if (ascii(bytes, offset + 4, 4) === 'IEND') {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+/**
+ * Read the size of a WebP from its VP8, VP8L or VP8X header
+ */
+function webpDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 30) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The RIFF size covers everything after the first 8 bytes
+  if (view.getUint32(4, true) + 8 > bytes.length) return null;
+
+  switch (ascii(bytes, 12, 4)) {
+    case 'VP8 ':
+      if (!startsWith(bytes.subarray(23), [0x9d, 0x01, 0x2a])) return null;
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    case 'VP8L': {
+      if (bytes[20] !== 0x2f) return null;
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return {
+        width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+        height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check that the bytes are a complete JPEG, PNG or WebP image within the size
+ * and dimension limits. `label` names the image in error messages.
+ */
+export function validateImageBytes(bytes: Uint8Array, label = 'The image'): ImageValidationResult {
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    return { valid: false, code: 'too-large', error: `${label} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB` };
+  }
+
+  const mimeType = sniffImageType(bytes);
+  if (!mimeType) {
+    const format = unsupportedFormat(bytes);
+    return format
+      ? { valid: false, code: 'unsupported-type', error: `${label} is a ${format} file. Please use a ${SUPPORTED_FORMATS} image.` }
+      : { valid: false, code: 'not-an-image', error: `${label} is not a ${SUPPORTED_FORMATS} image` };
+  }
+
+  const dimensions = mimeType === 'image/jpeg'
+    ? jpegDimensions(bytes)
+    : mimeType === 'image/png' ? pngDimensions(bytes) : webpDimensions(bytes);
+  if (!dimensions) {
+    return { valid: false, code: 'corrupt', error: `${label} is damaged or incomplete` };
+  }
+
+  const { width, height } = dimensions;
+  if (Math.min(width, height) < MIN_IMAGE_DIMENSION || Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+    return {
+      valid: false,
+      code: 'bad-dimensions',
+      error: `${label} is ${width}×${height} pixels. Images must be between ${MIN_IMAGE_DIMENSION} and ${MAX_IMAGE_DIMENSION} pixels on each side.`
+    };
+  }
+
+  return { valid: true, image: { mimeType, size: bytes.length, width, height } };
+}
@@ -0,0 +1,420 @@
+import {
+  DietaryConstraint,
+  Ingredient,
+  IngredientSubstitution,
+  InstructionChange,
+  Recipe
+} from '@/types/recipe';
+import { scaleIngredient } from '@/utils/recipeScaling';
+
+export type SubstitutionReason = DietaryConstraint | 'unavailable';
+
+export const DIETARY_CONSTRAINTS: Record<DietaryConstraint, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  'gluten-free': 'Gluten-free',
+  'dairy-free': 'Dairy-free',
+  'low-sodium': 'Low-sodium'
+};
+
+export function isDietaryConstraint(value: unknown): value is DietaryConstraint {
+  return typeof value === 'string' && Object.keys(DIETARY_CONSTRAINTS).includes(value);
+}
+
+type Replacement = string | ((name: string) => string);
+
+interface SubstitutionRule {
+  pattern: RegExp;
+  // Names that match the pattern but are fine ("peanut butter", "coconut milk")
+  exclude?: RegExp;
+  conflicts: DietaryConstraint[];
+  replacement: Replacement;
+  // Better swaps for a specific constraint, or when the ingredient is simply missing
+  replacements?: Partial<Record<SubstitutionReason, Replacement>>;
+  // For substitutes that are stronger or weaker than the original
+  quantityFactor?: number;
+}
+
+const MEAT_FREE: DietaryConstraint[] = ['vegetarian', 'vegan'];
+const DAIRY_FREE: DietaryConstraint[] = ['vegan', 'dairy-free'];
+const PLANT_BASED = /\b(?:plant-based|vegan|dairy-free|non-dairy)\b/i;
+
+// Checked in order; the first rule that matches a name and conflicts with the constraint wins
+const SUBSTITUTION_RULES: SubstitutionRule[] = [
+  // Stock before meat, so "chicken stock" does not become tofu
+  {
+    pattern: /\b(?:chicken|beef|fish|bone|meat|veal|turkey)\s+(?:stock|broth|bouillon)(?:\s+cubes?)?\b/i,
+    conflicts: MEAT_FREE,
+    replacement: 'vegetable stock'
+  },
+  {
+    pattern: /\b(?:stock|broth|bouillon)\b/i,
+    exclude: /\b(?:low-sodium|reduced-sodium|no-salt|unsalted)\b/i,
+    conflicts: ['low-sodium'],
+    replacement: name => `low-sodium ${name}`
+  },
+  { pattern: /\bfish sauce\b/i, conflicts: MEAT_FREE, replacement: 'soy sauce' },
+  { pattern: /\bworcestershire sauce\b/i, exclude: PLANT_BASED, conflicts: MEAT_FREE, replacement: 'vegan Worcestershire sauce' },
+  { pattern: /\banchov(?:y|ies)\b/i, conflicts: MEAT_FREE, replacement: 'capers' },
+  {
+    pattern: /\b(?:ground|minced)\s+(?:beef|pork|lamb|turkey|chicken|meat)\b|\bmince(?:d meat)?\b/i,
+    exclude: PLANT_BASED,
+    conflicts: MEAT_FREE,
+    replacement: 'plant-based mince'
+  },
+  { pattern: /\bbacon\b|\bpancetta\b|\blardons?\b/i, exclude: PLANT_BASED, conflicts: MEAT_FREE, replacement: 'smoked tempeh' },
+  { pattern: /\bsausages?\b|\bchorizo\b/i, exclude: PLANT_BASED, conflicts: MEAT_FREE, replacement: 'plant-based sausage' },
+  { pattern: /\b(?:chicken|turkey|duck)\b/i, exclude: PLANT_BASED, conflicts: MEAT_FREE, replacement: 'extra-firm tofu' },
+  {
+    pattern: /\b(?:beef|steak|pork|lamb|veal|ham|prosciutto|salami|pepperoni)\b/i,
+    exclude: PLANT_BASED,
+    conflicts: MEAT_FREE,
+    replacement: 'seitan'
+  },
+  {
+    pattern: /\b(?:fish|salmon|tuna|cod|haddock|tilapia|trout|shrimp|prawns?|crab|lobster|scallops?|mussels|clams|squid)\b/i,
+    conflicts: MEAT_FREE,
+    replacement: 'firm tofu'
+  },
+  { pattern: /\bgelatine?\b/i, conflicts: MEAT_FREE, replacement: 'agar agar' },
+  { pattern: /\bhoney\b/i, conflicts: ['vegan'], replacement: 'maple syrup' },
+  // Before eggs, so egg noodles stay noodles instead of becoming flax eggs
+  {
+    pattern: /\begg\s+(?:noodles|pasta|fettuccine|tagliatelle|pappardelle)\b/i,
+    conflicts: ['vegan'],
+    replacement: name => name.replace(/\begg\s+/i, 'egg-free ')
+  },
+  {
+    pattern: /\beggs?\b/i,
+    exclude: /\beggplant|\bflax|\begg-free\b/i,
+    conflicts: ['vegan'],
+    replacement: 'flax eggs (1 tbsp ground flaxseed + 3 tbsp water per egg)'
+  },
+
+  // Dairy
+  { pattern: /\bsalted butter\b/i, conflicts: ['low-sodium'], replacement: 'unsalted butter' },
+  {
+    pattern: /\bbuttermilk\b/i,
+    exclude: PLANT_BASED,
+    conflicts: DAIRY_FREE,
+    replacement: 'oat milk with 1 tbsp lemon juice per cup',
+    replacements: { unavailable: 'milk with 1 tbsp lemon juice per cup' }
+  },
+  {
+    pattern: /\bbutter\b/i,
+    exclude: /\b(?:peanut|almond|cashew|nut|cocoa|apple|shea)\s+butter\b|\bbutternut\b|\bplant-based\b|\bvegan\b/i,
+    conflicts: DAIRY_FREE,
+    replacement: 'plant-based butter',
+    replacements: { unavailable: 'neutral oil' }
+  },
+  {
+    pattern: /\bcream cheese\b/i,
+    exclude: PLANT_BASED,
+    conflicts: DAIRY_FREE,
+    replacement: 'plant-based cream cheese'
+  },
+  {
+    pattern: /\bsour cream\b|\bcr[eè]me fra[iî]che\b/i,
+    exclude: PLANT_BASED,
+    conflicts: DAIRY_FREE,
+    replacement: 'unsweetened plant-based yogurt',
+    replacements: { unavailable: 'plain Greek yogurt' }
+  },
+  {
+    pattern: /\b(?:heavy |double |whipping |single |light )?cream\b/i,
+    exclude: /\bcream of tartar\b|\bice cream\b|\bcoconut\b|\bcreamed\b|\bplant-based\b|\bvegan\b/i,
+    conflicts: DAIRY_FREE,
+    replacement: 'coconut cream',
+    replacements: { unavailable: 'whole milk with 1 tbsp melted butter per 1/4 cup' }
+  },
+  {
+    pattern: /\byog(?:h)?urt\b/i,
+    exclude: /\b(?:plant-based|coconut|soy|oat|almond|vegan)\b/i,
+    conflicts: DAIRY_FREE,
+    replacement: 'unsweetened plant-based yogurt',
+    replacements: { unavailable: 'sour cream' }
+  },
+  {
+    pattern: /\bmilk\b/i,
+    exclude: /\b(?:coconut|almond|oat|soy|rice|cashew|plant-based|condensed|evaporated)\b/i,
+    conflicts: DAIRY_FREE,
+    replacement: 'oat milk'
+  },
+  {
+    pattern: /\b(?:parmesan|parmigiano|pecorino|grana padano)\b/i,
+    exclude: PLANT_BASED,
+    conflicts: DAIRY_FREE,
+    replacement: 'nutritional yeast'
+  },
+  {
+    pattern: /\b(?:cheese|cheddar|mozzarella|feta|gruy[eè]re|ricotta|halloumi|paneer|brie|goat cheese)\b/i,
+    exclude: PLANT_BASED,
+    conflicts: DAIRY_FREE,
+    replacement: 'plant-based cheese'
+  },
+
+  // Gluten
+  {
+    pattern: /\bsoy sauce\b/i,
+    exclude: /\bgluten-free\b|\btamari\b/i,
+    conflicts: ['gluten-free'],
+    replacement: 'tamari'
+  },
+  {
+    pattern: /\b(?:soy sauce|tamari|teriyaki sauce)\b/i,
+    exclude: /\b(?:low-sodium|reduced-sodium)\b/i,
+    conflicts: ['low-sodium'],
+    replacement: name => `low-sodium ${name}`
+  },
+  {
+    pattern: /\bflour\b/i,
+    exclude: /\b(?:gluten-free|rice|almond|coconut|corn|buckwheat|chickpea|gram|tapioca|potato|cassava)\b/i,
+    conflicts: ['gluten-free'],
+    replacement: 'gluten-free flour blend'
+  },
+  {
+    pattern: /\b(?:pasta|spaghetti|penne|linguine|fettuccine|macaroni|lasagna|lasagne|orzo|fusilli|rigatoni|tagliatelle|noodles|ramen|udon)\b/i,
+    exclude: /\b(?:gluten-free|rice|glass|zucchini|courgette)\b/i,
+    conflicts: ['gluten-free'],
+    replacement: name => `gluten-free ${name}`
+  },
+  {
+    pattern: /\b(?:bread|breadcrumbs|bread crumbs|panko|pita|buns?|croutons|flour tortillas?|pizza dough|puff pastry|pie crust)\b/i,
+    exclude: /\bgluten-free\b/i,
+    conflicts: ['gluten-free'],
+    replacement: name => `gluten-free ${name}`
+  },
+  { pattern: /\b(?:couscous|bulgur|barley|farro|freekeh|semolina|spelt)\b/i, conflicts: ['gluten-free'], replacement: 'quinoa' },
+  { pattern: /\bseitan\b/i, conflicts: ['gluten-free'], replacement: 'extra-firm tofu' },
+  { pattern: /\b(?:beer|ale|lager|stout)\b/i, exclude: /\bgluten-free\b/i, conflicts: ['gluten-free'], replacement: 'gluten-free beer' },
+
+  // Sodium
+  {
+    pattern: /\bsalt\b/i,
+    exclude: /\bsalt-free\b|\bunsalted\b|\bsalted\b/i,
+    conflicts: ['low-sodium'],
+    replacement: 'salt-free herb seasoning'
+  },
+
+  // Everyday swaps for ingredients that are missing from the cupboard
+  { pattern: /\blemon juice\b/i, conflicts: [], replacement: 'lime juice' },
+  { pattern: /\blime juice\b/i, conflicts: [], replacement: 'lemon juice' },
+  { pattern: /\bshallots?\b/i, conflicts: [], replacement: 'red onion' },
+  { pattern: /\bbrown sugar\b/i, conflicts: [], replacement: 'white sugar with 1 tbsp molasses per cup' },
+  { pattern: /\b(?:cornstarch|cornflour|corn starch)\b/i, conflicts: [], replacement: 'all-purpose flour', quantityFactor: 2 },
+  {
+    pattern: /\b(?:red|white|dry white|dry red)?\s*wine\b/i,
+    exclude: /\bvinegar\b/i,
+    conflicts: [],
+    replacement: 'stock with a splash of vinegar'
+  },
+  {
+    pattern: /\bfresh\s+(?:basil|parsley|cilantro|coriander|thyme|rosemary|oregano|dill|mint|sage|tarragon|chives)\b/i,
+    conflicts: [],
+    replacement: name => name.replace(/\bfresh\b/i, 'dried'),
+    quantityFactor: 1 / 3
+  }
+];
+
+function findRule(name: string, reason: SubstitutionReason): SubstitutionRule | undefined {
+  return SUBSTITUTION_RULES.find(rule =>
+    rule.pattern.test(name) &&
+    !rule.exclude?.test(name) &&
+    (reason === 'unavailable' || rule.conflicts.includes(reason))
+  );
+}
+
+function applyRule(
+  ingredient: Ingredient,
+  rule: SubstitutionRule,
+  reason: SubstitutionReason,
+  constraints: DietaryConstraint[]
+): Ingredient {
+  // A missing ingredient still has to respect the diet: prefer the swap made for it
+  const constraint = reason === 'unavailable' ? constraints.find(c => rule.conflicts.includes(c)) : reason;
+  const replacement = (constraint && rule.replacements?.[constraint]) ||
+    (reason === 'unavailable' && !constraint && rule.replacements?.unavailable) ||
+    rule.replacement;
+  const name = typeof replacement === 'function' ? replacement(ingredient.name) : replacement;
+  const scaled = rule.quantityFactor ? scaleIngredient(ingredient, rule.quantityFactor) : ingredient;
+
+  return { ...scaled, name };
+}
+
+/**
+ * Whether an ingredient name refers to something the cook said they do not
+ * have. Plurals match either way ("egg" and "eggs").
+ */
+export function mentionsIngredient(name: string, term: string): boolean {
+  const words = term.trim().toLowerCase().replace(/(?:es|s)$/, '');
+  if (!words) return false;
+
+  const escaped = words.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(?:s|es)?\\b`, 'i').test(name);
+}
+
+/**
+ * Find a replacement for one ingredient. Returns undefined when nothing needs
+ * to change and a null replacement when a missing ingredient has no known
+ * substitute. Substitutes are checked again so they satisfy every constraint
+ * (seitan is not gluten-free, so a vegan and gluten-free steak becomes tofu).
+ */
+export function findSubstitution(
+  ingredient: Ingredient,
+  constraints: DietaryConstraint[],
+  unavailable = false
+): { replacement: Ingredient | null; reason: SubstitutionReason } | undefined {
+  let current = ingredient;
+  let reason: SubstitutionReason | undefined;
+
+  if (unavailable) {
+    const rule = findRule(ingredient.name, 'unavailable');
+    if (!rule) return { replacement: null, reason: 'unavailable' };
+    current = applyRule(current, rule, 'unavailable', constraints);
+    reason = 'unavailable';
+  }
+
+  for (let round = 0; round < 3; round++) {
+    const constraint = constraints.find(c => findRule(current.name, c));
+    if (!constraint) break;
+
+    current = applyRule(current, findRule(current.name, constraint)!, constraint, constraints);
+    reason = reason ?? constraint;
+  }
+
+  return reason ? { replacement: current, reason } : undefined;
+}
+
+// The words to look for in the steps when an ingredient is swapped
+function instructionTerms(ingredient: Ingredient): string[] {
+  const name = ingredient.name.trim();
+  const terms = [name, stripNotes(name)];
+  const rule = SUBSTITUTION_RULES.find(candidate => candidate.pattern.test(name));
+  const match = rule ? name.match(rule.pattern) : null;
+  if (match) terms.push(match[0].trim());
+
+  return terms.filter(term => term.length > 2);
+}
+
+// "flax eggs (1 tbsp ...)" and "butter, softened" read as "flax eggs" and "butter" in a step
+function stripNotes(name: string): string {
+  return name.replace(/\s*\([^)]*\)/g, '').replace(/,.*$/, '').trim();
+}
+
+/**
+ * Rename swapped ingredients in the instructions. Every term is replaced in a
+ * single pass, longest first, so "chicken stock" is not read as "chicken".
+ */
+export function rewriteInstructions(instructions: string[], substitutions: IngredientSubstitution[]): string[] {
+  const replacements = new Map<string, string>();
+
+  substitutions.forEach(({ original, replacement }) => {
+    if (!replacement) return;
+    const replacementName = stripNotes(replacement.name);
+
+    instructionTerms(original).forEach(term => {
+      const key = term.toLowerCase();
+      if (!replacements.has(key) && key !== replacementName.toLowerCase()) {
+        replacements.set(key, replacementName);
+      }
+    });
+  });
+
+  if (replacements.size === 0) return instructions;
+
+  const alternatives = [...replacements.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'gi');
+
+  return instructions.map(step => step.replace(pattern, match => {
+    const replacement = replacements.get(match.toLowerCase()) ?? match;
+    // Keep a capital at the start of a sentence
+    return /^[A-Z]/.test(match) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+  }));
+}
+
+/**
+ * Build the adapted recipe from a list of per-ingredient changes. Steps come
+ * from `instructions` when given (one per original step), otherwise the
+ * swapped names are written into the original steps.
+ */
+export function applySubstitutions(
+  recipe: Recipe,
+  changes: { index: number; replacement: Ingredient | null; reason: SubstitutionReason }[],
+  instructions?: string[]
+): { recipe: Recipe; substitutions: IngredientSubstitution[]; instructionChanges: InstructionChange[] } {
+  const ingredients: Ingredient[] = [];
+  const substitutions: IngredientSubstitution[] = [];
+
+  recipe.ingredients.forEach((original, index) => {
+    const change = changes.find(candidate => candidate.index === index);
+    if (!change) {
+      ingredients.push(original);
+      return;
+    }
+
+    if (change.replacement) {
+      substitutions.push({ ingredientIndex: ingredients.length, original, replacement: change.replacement, reason: change.reason });
+      ingredients.push(change.replacement);
+    } else {
+      substitutions.push({ original, replacement: null, reason: change.reason });
+    }
+  });
+
+  const steps = instructions && instructions.length === recipe.instructions.length
+    ? instructions
+    : rewriteInstructions(recipe.instructions, substitutions);
+
+  const instructionChanges: InstructionChange[] = recipe.instructions
+    .map((original, index) => ({ index, original, updated: steps[index] }))
+    .filter(change => change.updated !== change.original);
+
+  // Steps keep their details; the ingredients they name follow the swaps
+  const renamed = new Map(substitutions.map(({ original, replacement }) => [original.name.toLowerCase(), replacement?.name ?? null]));
+  const stepDetails = recipe.stepDetails?.map(details => details.ingredients
+    ? {
+      ...details,
+      ingredients: details.ingredients
+        .map(name => renamed.has(name.toLowerCase()) ? renamed.get(name.toLowerCase()) : name)
+        .filter((name): name is string => !!name)
+    }
+    : details);
+
+  return {
+    recipe: { ...recipe, ingredients, instructions: steps, stepDetails },
+    substitutions,
+    instructionChanges
+  };
+}
+
+/**
+ * Adapt a recipe with the built-in substitution table. Deterministic, and
+ * used whenever no model is available or the model's answer is unusable.
+ */
+export function adaptRecipeWithRules(
+  recipe: Recipe,
+  constraints: DietaryConstraint[],
+  unavailableIngredients: string[] = []
+): ReturnType<typeof applySubstitutions> & { notes: string[] } {
+  const notes: string[] = [];
+
+  unavailableIngredients.forEach(term => {
+    if (!recipe.ingredients.some(ingredient => mentionsIngredient(ingredient.name, term))) {
+      notes.push(`Nothing in the recipe matches "${term}".`);
+    }
+  });
+
+  const changes = recipe.ingredients.flatMap((ingredient, index) => {
+    const unavailable = unavailableIngredients.some(term => mentionsIngredient(ingredient.name, term));
+    const substitution = findSubstitution(ingredient, constraints, unavailable);
+    if (!substitution) return [];
+
+    if (!substitution.replacement) {
+      notes.push(`No substitute is known for ${ingredient.name}, so it was left out.`);
+    }
+    return [{ index, ...substitution }];
+  });
+
+  return { ...applySubstitutions(recipe, changes), notes };
+}
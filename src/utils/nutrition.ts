@@ -0,0 +1,193 @@
+import { Ingredient, MeasurementTarget, Recipe } from '@/types/recipe';
+import { IngredientNutrition, NutrientFood, NutritionFacts, RecipeNutrition } from '@/types/nutrition';
+import { Quantity } from '@/types/units';
+import { multiplyQuantity, splitLeadingQuantity } from '@/utils/quantityUtils';
+import { findUnit, formatBaseQuantity, parseMeasurement, SMALL_VOLUME_LIMIT, toBaseQuantity } from '@/utils/unitConversion';
+import { getMeasurementProfile } from '@/utils/unitUtils';
+import nutrientTable from '@/data/nutrients.json';
+
+const NUTRIENT_FOODS = nutrientTable.foods as NutrientFood[];
+
+const EMPTY_FACTS: NutritionFacts = { calories: 0, protein: 0, fat: 0, carbohydrates: 0, fiber: 0 };
+
+// Rough weights for units that mean the same thing for most foods
+const GENERIC_PORTIONS: Record<string, number> = {
+  pinch: 0.4,
+  dash: 0.6,
+  splash: 5,
+  handful: 30,
+  sprig: 1
+};
+
+// "2 large eggs": size words scale the food's medium piece
+const SIZE_FACTORS: Record<string, number> = {
+  small: 0.75,
+  medium: 1,
+  large: 1.25,
+  whole: 1
+};
+
+// Longest names first, so "peanut butter" wins over "butter" and "chicken stock" over "chicken"
+const FOOD_PATTERNS = NUTRIENT_FOODS
+  .flatMap(food => [food.name, ...food.aliases].map(alias => ({ alias, food })))
+  .sort((a, b) => b.alias.length - a.alias.length)
+  .map(({ alias, food }) => ({
+    food,
+    // Hyphens count as part of a word: "salt-free" is not "salt"
+    pattern: new RegExp(`(?<![\\w-])${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:s|es)?(?![\\w-])`, 'i')
+  }));
+
+/**
+ * Find the nutrient table entry an ingredient name refers to
+ */
+export function findNutrientFood(name: string): NutrientFood | null {
+  const cleaned = name.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+  return FOOD_PATTERNS.find(({ pattern }) => pattern.test(cleaned))?.food ?? null;
+}
+
+function amountOf(quantity: Quantity): number {
+  return quantity.max !== undefined ? (quantity.min + quantity.max) / 2 : quantity.min;
+}
+
+// Grams in one of a food-specific, generic or size unit ("cloves", "pinch", "large")
+function portionGrams(food: NutrientFood, unitText: string): number | undefined {
+  const unit = unitText.toLowerCase().replace(/\.$/, '');
+
+  for (const candidate of [unit, unit.replace(/es$/, ''), unit.replace(/s$/, '')]) {
+    const grams = food.portions?.[candidate] ?? GENERIC_PORTIONS[candidate];
+    if (grams !== undefined) return grams;
+    if (SIZE_FACTORS[candidate] !== undefined && food.pieceGrams) return food.pieceGrams * SIZE_FACTORS[candidate];
+  }
+  return undefined;
+}
+
+// Grams for an amount in a known unit: mass directly, volume through the food's density
+function measuredGrams(quantity: Quantity, unitText: string, food: NutrientFood): number | null {
+  const base = toBaseQuantity({ quantity, unit: findUnit(unitText), unitText });
+  if (!base) return null;
+
+  if (base.dimension === 'mass') return amountOf(base.quantity);
+  if (base.dimension === 'volume' && food.density) return amountOf(base.quantity) * food.density;
+  return null;
+}
+
+/**
+ * Weight of an ingredient in grams, or null when its amount cannot be
+ * converted ("to taste", a volume of a food with no known density)
+ */
+export function ingredientGrams(ingredient: Ingredient, food: NutrientFood): number | null {
+  const measurement = parseMeasurement(ingredient.quantity, ingredient.unit);
+  if (!measurement.quantity) return null;
+
+  const amount = amountOf(measurement.quantity);
+
+  if (measurement.unit) {
+    return measuredGrams(measurement.quantity, measurement.unitText, food);
+  }
+
+  // "1 can (400g)": the hint weighs the unknown unit
+  if (measurement.note) {
+    const hint = splitLeadingQuantity(measurement.note);
+    const hintGrams = hint ? measuredGrams(hint.quantity, hint.rest, food) : null;
+    if (hintGrams !== null) return amount * hintGrams;
+  }
+
+  if (measurement.unitText) {
+    const grams = portionGrams(food, measurement.unitText);
+    return grams !== undefined ? amount * grams : null;
+  }
+
+  // Counted ingredients, where the portion can lead the name ("2 cloves garlic")
+  const leading = portionGrams(food, ingredient.name.trim().split(/\s+/)[0] || '');
+  const grams = leading ?? food.pieceGrams;
+  return grams !== undefined ? amount * grams : null;
+}
+
+/**
+ * Weigh the dry ingredients of a recipe that are measured by volume ("2 cups
+ * flour" -> "250 g flour") when the target units ask for it. Spoonfuls,
+ * liquids and foods without a known density keep their volume.
+ */
+export function weighDryIngredients(recipe: Recipe, target: MeasurementTarget): Recipe {
+  const profile = getMeasurementProfile(target);
+  if (!profile.weighDryIngredients) return recipe;
+
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map(ingredient => {
+      const food = findNutrientFood(ingredient.name);
+      const base = toBaseQuantity(parseMeasurement(ingredient.quantity, ingredient.unit));
+      if (!food?.dry || !food.density || base?.dimension !== 'volume' || base.quantity.min < SMALL_VOLUME_LIMIT) {
+        return ingredient;
+      }
+
+      const weighed = formatBaseQuantity('mass', multiplyQuantity(base.quantity, food.density), profile);
+      return weighed ? { ...ingredient, ...weighed } : ingredient;
+    })
+  };
+}
+
+function addFacts(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    fat: a.fat + b.fat,
+    carbohydrates: a.carbohydrates + b.carbohydrates,
+    fiber: a.fiber + b.fiber
+  };
+}
+
+function scaleFacts(facts: NutritionFacts, factor: number): NutritionFacts {
+  return {
+    calories: facts.calories * factor,
+    protein: facts.protein * factor,
+    fat: facts.fat * factor,
+    carbohydrates: facts.carbohydrates * factor,
+    fiber: facts.fiber * factor
+  };
+}
+
+/**
+ * Estimate an ingredient's nutrition from the nutrient table
+ */
+export function estimateIngredientNutrition(ingredient: Ingredient): IngredientNutrition {
+  const food = findNutrientFood(ingredient.name);
+  if (!food) return { ingredient, status: 'unmatched' };
+
+  const grams = ingredientGrams(ingredient, food);
+  if (grams === null) {
+    // "Salt to taste" adds nothing however much is used
+    return Object.values(food.per100g).every(value => value === 0)
+      ? { ingredient, status: 'matched', foodName: food.name, nutrition: EMPTY_FACTS }
+      : { ingredient, status: 'unmeasured', foodName: food.name };
+  }
+
+  return {
+    ingredient,
+    status: 'matched',
+    foodName: food.name,
+    grams,
+    nutrition: scaleFacts(food.per100g, grams / 100)
+  };
+}
+
+/**
+ * Estimate a recipe's calories and macros. Ingredients that are not in the
+ * table or cannot be weighed are reported with their status instead of being
+ * counted as zero, so callers can say the totals are incomplete.
+ */
+export function estimateNutrition(recipe: Recipe): RecipeNutrition {
+  const ingredients = recipe.ingredients.map(estimateIngredientNutrition);
+  const total = ingredients.reduce(
+    (sum, entry) => (entry.nutrition ? addFacts(sum, entry.nutrition) : sum),
+    EMPTY_FACTS
+  );
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : undefined;
+
+  return {
+    total,
+    perServing: servings ? scaleFacts(total, 1 / servings) : total,
+    servings,
+    ingredients
+  };
+}
@@ -0,0 +1,59 @@
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Parse the complete part of a JSON document that is still being streamed.
+ *
+ * The text is cut at the last point where a value inside an array or the
+ * top-level object has finished, and the open brackets are closed. Objects
+ * nested in arrays therefore only appear once they are complete, and strings
+ * never appear half-written. Returns null until the first value is complete.
+ */
+export function parsePartialJson(text: string): unknown | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut: { end: number; closers: string } | null = null;
+
+  const isCutPoint = () => stack.length <= 1 || stack[stack.length - 1] === '[';
+  const closersFor = () => stack.slice().reverse().map(open => CLOSERS[open]).join('');
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (isCutPoint()) {
+        cut = { end: i + 1, closers: closersFor() };
+      }
+      if (stack.length === 0) break;
+    } else if (char === ',' && isCutPoint()) {
+      cut = { end: i, closers: closersFor() };
+    }
+  }
+
+  if (!cut) return null;
+
+  try {
+    return JSON.parse(text.slice(start, cut.end) + cut.closers);
+  } catch {
+    return null;
+  }
+}
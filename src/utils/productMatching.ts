@@ -0,0 +1,35 @@
+import { mentionsIngredient } from '@/utils/ingredientSubstitution';
+import { shoppingKey } from '@/utils/shoppingList';
+
+interface NamedProduct {
+  name: string;
+  aliases?: string[];
+}
+
+/**
+ * The product an ingredient would be bought as. The longest matching name
+ * wins, so "chicken stock" is not bought as chicken; among equally good
+ * matches the preferred one (say, in stock) wins.
+ */
+export function matchProduct<T extends NamedProduct>(
+  ingredientName: string,
+  products: T[],
+  isPreferred: (product: T) => boolean = () => false
+): T | null {
+  const key = shoppingKey(ingredientName);
+  let best: T | null = null;
+  let bestLength = 0;
+
+  for (const product of products) {
+    for (const term of [product.name, ...(product.aliases ?? [])]) {
+      const better = term.length > bestLength ||
+        (term.length === bestLength && isPreferred(product) && !(best && isPreferred(best)));
+      if (better && mentionsIngredient(key, term)) {
+        best = product;
+        bestLength = term.length;
+      }
+    }
+  }
+
+  return best;
+}
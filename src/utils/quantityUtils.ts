@@ -0,0 +1,169 @@
+import { Quantity } from '@/types/units';
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8'
+};
+
+// Fractions cooks actually measure with, used when rendering imperial amounts
+const KITCHEN_FRACTIONS: { value: number; label: string }[] = [
+  { value: 0, label: '' },
+  { value: 1 / 8, label: '1/8' },
+  { value: 1 / 4, label: '1/4' },
+  { value: 1 / 3, label: '1/3' },
+  { value: 3 / 8, label: '3/8' },
+  { value: 1 / 2, label: '1/2' },
+  { value: 5 / 8, label: '5/8' },
+  { value: 2 / 3, label: '2/3' },
+  { value: 3 / 4, label: '3/4' },
+  { value: 7 / 8, label: '7/8' },
+  { value: 1, label: '' }
+];
+
+const NUMBER_PATTERN = /^(?:(\d+)\s+(\d+)\/(\d+)|(\d+)\/(\d+)|(\d+(?:\.\d+)?|\.\d+))$/;
+const LEADING_NUMBER_PATTERN = /^((?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|\.\d+)(?:\s*(?:-|–|to)\s*(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|\.\d+))?)\s*(.*)$/i;
+
+/**
+ * Replace unicode fraction characters with ASCII fractions ("1½" -> "1 1/2")
+ */
+export function normalizeFractions(text: string): string {
+  return text
+    .replace(/(\d)([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, '$1 $2')
+    .replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, char => UNICODE_FRACTIONS[char])
+    .replace(/⁄/g, '/');
+}
+
+function parseNumber(text: string): number | null {
+  const match = text.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  if (match[1]) {
+    const denominator = Number(match[3]);
+    return denominator ? Number(match[1]) + Number(match[2]) / denominator : null;
+  }
+  if (match[4]) {
+    const denominator = Number(match[5]);
+    return denominator ? Number(match[4]) / denominator : null;
+  }
+  return Number(match[6]);
+}
+
+/**
+ * Parse a free-text amount such as "1 1/2", "1-1/2", "½", "0.5" or "2-3".
+ * Reversed ranges are put in order. Returns null for amounts that are not numeric ("to taste", "a pinch").
+ */
+export function parseQuantity(text: string): Quantity | null {
+  const normalized = normalizeFractions(text).trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized === 'a' || normalized === 'an' || normalized === 'one') {
+    return { min: 1 };
+  }
+
+  // "1-1/2" is a hyphenated mixed number, not a range from 1 to 1/2
+  const hyphenated = normalized.match(/^(\d+)-(\d+)\/(\d+)$/);
+  if (hyphenated && Number(hyphenated[2]) < Number(hyphenated[3])) {
+    return parseQuantity(`${hyphenated[1]} ${hyphenated[2]}/${hyphenated[3]}`);
+  }
+
+  const parts = normalized.split(/\s*(?:-|–|\bto\b)\s*/);
+  if (parts.length > 2) return null;
+
+  const min = parseNumber(parts[0]);
+  if (min === null) return null;
+
+  if (parts.length === 2) {
+    const max = parseNumber(parts[1]);
+    if (max === null) return null;
+    if (max === min) return { min };
+    // Written the wrong way round ("3-2"), still a range
+    return { min: Math.min(min, max), max: Math.max(min, max) };
+  }
+
+  return { min };
+}
+
+/**
+ * Split text with a leading amount ("250g", "1 1/2 cups") into the amount and the rest
+ */
+export function splitLeadingQuantity(text: string): { quantity: Quantity; rest: string } | null {
+  const match = normalizeFractions(text).trim().match(LEADING_NUMBER_PATTERN);
+  if (!match) return null;
+
+  const quantity = parseQuantity(match[1]);
+  return quantity ? { quantity, rest: match[2].trim() } : null;
+}
+
+/**
+ * Multiply both ends of a quantity
+ */
+export function multiplyQuantity(quantity: Quantity, factor: number): Quantity {
+  return quantity.max === undefined
+    ? { min: quantity.min * factor }
+    : { min: quantity.min * factor, max: quantity.max * factor };
+}
+
+/**
+ * Round metric amounts to values a scale or measuring jug can show
+ */
+export function roundMetric(value: number): number {
+  if (value >= 200) return Math.round(value / 10) * 10;
+  if (value >= 20) return Math.round(value / 5) * 5;
+  if (value >= 10) return Math.round(value);
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Render a number as a whole number plus the nearest kitchen fraction ("1 1/2")
+ */
+export function formatFraction(value: number): string {
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+
+  let nearest = KITCHEN_FRACTIONS[0];
+  for (const fraction of KITCHEN_FRACTIONS) {
+    if (Math.abs(fraction.value - remainder) < Math.abs(nearest.value - remainder)) {
+      nearest = fraction;
+    }
+  }
+
+  if (nearest.value === 1) {
+    whole += 1;
+  }
+
+  if (whole === 0) {
+    // Never round a real amount down to nothing
+    return nearest.label || (value > 0 ? '1/8' : '0');
+  }
+  return nearest.label ? `${whole} ${nearest.label}` : `${whole}`;
+}
+
+function formatDecimal(value: number): string {
+  return `${roundMetric(value)}`;
+}
+
+/**
+ * Render a quantity as kitchen fractions or rounded decimals
+ */
+export function formatQuantity(quantity: Quantity, style: 'fraction' | 'decimal' = 'fraction'): string {
+  const format = style === 'fraction' ? formatFraction : formatDecimal;
+  const min = format(quantity.min);
+
+  if (quantity.max === undefined) return min;
+
+  const max = format(quantity.max);
+  return max === min ? min : `${min}-${max}`;
+}
@@ -0,0 +1,108 @@
+import { Ingredient, Recipe } from '@/types/recipe';
+
+/**
+ * One ingredient as a single line ("2 cups flour"), skipping empty fields
+ */
+export function formatIngredientLine(ingredient: Ingredient): string {
+  return [ingredient.quantity, ingredient.unit, ingredient.name]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Servings, times, difficulty and equipment as labelled lines, if the recipe
+ * has them
+ */
+export function formatRecipeDetails(recipe: Recipe): string[] {
+  const details: string[] = [];
+  if (recipe.servings) details.push(`Servings: ${recipe.servings}`);
+  if (recipe.prepTime) details.push(`Prep Time: ${recipe.prepTime} minutes`);
+  if (recipe.cookTime) details.push(`Cook Time: ${recipe.cookTime} minutes`);
+  if (recipe.cookingTime) {
+    // With a separate cook time, "Cooking Time" would read as that
+    const label = recipe.prepTime || recipe.cookTime ? 'Total Time' : 'Cooking Time';
+    details.push(`${label}: ${recipe.cookingTime} minutes`);
+  }
+  if (recipe.difficulty) details.push(`Difficulty: ${recipe.difficulty.charAt(0).toUpperCase()}${recipe.difficulty.slice(1)}`);
+  if (recipe.equipment?.length) details.push(`Equipment: ${recipe.equipment.join(', ')}`);
+  return details;
+}
+
+/**
+ * Plain-text version of a recipe, used for copying to the clipboard
+ */
+export function formatRecipeText(recipe: Recipe): string {
+  let text = `${recipe.title}\n\n`;
+
+  if (recipe.description) {
+    text += `${recipe.description}\n\n`;
+  }
+
+  const details = formatRecipeDetails(recipe);
+  if (details.length > 0) {
+    text += `DETAILS:\n${details.join('\n')}\n\n`;
+  }
+
+  text += 'INGREDIENTS:\n';
+  recipe.ingredients.forEach(ingredient => {
+    text += `• ${formatIngredientLine(ingredient)}\n`;
+  });
+
+  text += '\nINSTRUCTIONS:\n';
+  recipe.instructions.forEach((instruction, index) => {
+    text += `${index + 1}. ${instruction}\n`;
+  });
+
+  return text;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+/**
+ * Markdown version of a recipe, for notes apps and wikis
+ */
+export function formatRecipeMarkdown(recipe: Recipe): string {
+  const lines = [`# ${escapeMarkdown(recipe.title)}`, ''];
+
+  if (recipe.description) {
+    lines.push(escapeMarkdown(recipe.description), '');
+  }
+
+  const details = formatRecipeDetails(recipe).map(detail => {
+    const [label, value] = detail.split(': ');
+    return `**${label}:** ${value}`;
+  });
+  if (details.length > 0) {
+    lines.push(details.join(' · '), '');
+  }
+
+  lines.push('## Ingredients', '');
+  recipe.ingredients.forEach(ingredient => {
+    lines.push(`- ${escapeMarkdown(formatIngredientLine(ingredient))}`);
+  });
+
+  lines.push('', '## Instructions', '');
+  recipe.instructions.forEach((instruction, index) => {
+    lines.push(`${index + 1}. ${escapeMarkdown(instruction)}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * File name for an exported recipe ("Chicken Tikka Masala" -> "chicken-tikka-masala.md")
+ */
+export function getRecipeFileName(recipe: Recipe, extension: string): string {
+  const slug = recipe.title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || 'recipe'}.${extension}`;
+}
@@ -0,0 +1,52 @@
+import { Ingredient, Recipe } from '@/types/recipe';
+import { formatQuantity, multiplyQuantity, splitLeadingQuantity } from '@/utils/quantityUtils';
+import { findUnit, formatMeasurement, parseMeasurement } from '@/utils/unitConversion';
+
+function scaleNote(note: string, factor: number): string {
+  const hint = splitLeadingQuantity(note);
+  const hintUnit = hint ? findUnit(hint.rest) : null;
+  if (!hint || !hintUnit) return note;
+
+  const scaled = formatMeasurement(multiplyQuantity(hint.quantity, factor), hintUnit);
+  return `${scaled.quantity} ${scaled.unit}`;
+}
+
+/**
+ * Multiply an ingredient's amount by a factor. Amounts that cannot be
+ * parsed ("to taste", "a pinch") are returned unchanged.
+ */
+export function scaleIngredient(ingredient: Ingredient, factor: number): Ingredient {
+  const measurement = parseMeasurement(ingredient.quantity, ingredient.unit);
+  if (!measurement.quantity || factor === 1) return ingredient;
+
+  const scaledQuantity = multiplyQuantity(measurement.quantity, factor);
+  let quantity: string;
+  let unit: string;
+
+  if (measurement.unit) {
+    ({ quantity, unit } = formatMeasurement(scaledQuantity, measurement.unit));
+  } else {
+    quantity = formatQuantity(scaledQuantity);
+    unit = measurement.unitText;
+  }
+
+  if (measurement.note) {
+    unit = `${unit} (${scaleNote(measurement.note, factor)})`;
+  }
+
+  return { ...ingredient, quantity, unit };
+}
+
+/**
+ * Rescale every ingredient of a recipe to a new number of servings
+ */
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  if (!recipe.servings || servings <= 0 || servings === recipe.servings) return recipe;
+
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(ingredient => scaleIngredient(ingredient, factor))
+  };
+}
@@ -0,0 +1,16 @@
+import { Recipe, RecipeStep, StepTemperature } from '@/types/recipe';
+
+/**
+ * Instructions with their structured details. Plain-text recipes give steps
+ * with text only.
+ */
+export function getRecipeSteps(recipe: Recipe): RecipeStep[] {
+  return recipe.instructions.map((text, index) => ({ ...recipe.stepDetails?.[index], text }));
+}
+
+/**
+ * Temperature for display ("180°C")
+ */
+export function formatTemperature(temperature: StepTemperature): string {
+  return `${Math.round(temperature.value)}°${temperature.unit}`;
+}
@@ -0,0 +1,69 @@
+import { Recipe, RecipeStreamEvent } from '@/types/recipe';
+
+/**
+ * Read an NDJSON recipe stream, calling onEvent for every event received.
+ * Resolves when the stream closes, whether or not a "done" event arrived.
+ */
+export async function readRecipeStream(
+  response: Response,
+  onEvent: (event: RecipeStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLines = (final: boolean) => {
+    const lines = buffer.split('\n');
+    // Keep the trailing partial line until more data arrives
+    buffer = final ? '' : lines.pop() || '';
+
+    lines
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .forEach(line => {
+        try {
+          onEvent(JSON.parse(line) as RecipeStreamEvent);
+        } catch (err) {
+          console.error('Skipping malformed stream line:', line, err);
+        }
+      });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    flushLines(false);
+  }
+
+  buffer += decoder.decode();
+  flushLines(true);
+}
+
+/**
+ * Fold a partial stream event into the recipe built so far
+ */
+export function applyRecipeStreamEvent(recipe: Recipe | null, event: RecipeStreamEvent): Recipe | null {
+  if (event.type === 'done') return event.recipe;
+  if (event.type === 'error') return recipe;
+
+  const current: Recipe = recipe || { title: '', ingredients: [], instructions: [] };
+
+  switch (event.type) {
+    case 'title':
+      return { ...current, title: event.title };
+    case 'description':
+      return { ...current, description: event.description };
+    case 'ingredient':
+      return { ...current, ingredients: [...current.ingredients, event.ingredient] };
+    case 'instruction':
+      return { ...current, instructions: [...current.instructions, event.instruction] };
+    case 'details':
+      return { ...current, cookingTime: event.cookingTime, servings: event.servings };
+  }
+}
@@ -0,0 +1,190 @@
+import { Ingredient, Recipe } from '@/types/recipe';
+import { parseDurationText } from '@/utils/durationUtils';
+import { splitLeadingQuantity } from '@/utils/quantityUtils';
+import { findUnit, parseIngredientLine } from '@/utils/unitConversion';
+
+type Section = 'intro' | 'ingredients' | 'instructions' | 'other';
+
+interface TextParserOptions {
+  // Used when the text has no recognisable title line
+  fallbackTitle?: string;
+}
+
+const SECTION_HEADINGS: { section: Section; pattern: RegExp }[] = [
+  { section: 'ingredients', pattern: /^(?:ingredients?|ingredient list|what you(?:'|’)?ll need|you(?:'|’)?ll need|shopping list)$/i },
+  { section: 'instructions', pattern: /^(?:instructions?|directions?|steps?|method|preparation|how to make(?: it)?|to make)$/i },
+  { section: 'other', pattern: /^(?:notes?|tips?|nutrition(?: facts| information)?|storage|variations?|equipment)$/i }
+];
+
+// "Serves 4", "Servings: 4", "Yield: 12 cookies", "Makes about 20"
+const SERVINGS_PATTERN = /^(?:serves|servings|serving size|yield|yields|makes)\s*:?\s*(?:about\s+)?(\d+)/i;
+// "Cook time: 30 minutes", "Total Time - 1 hr 15 mins"
+const TIME_PATTERN = /^(total|cook(?:ing)?|prep(?:aration)?|active|bake|baking)\s*time\s*[:\-–]?\s*(.+)$/i;
+const LABELLED_TITLE_PATTERN = /^(?:recipe|title|dish|name)\s*:\s*(.+)$/i;
+
+const COOKING_VERBS = /\b(?:heat|preheat|cook|bake|roast|fry|saute|sauté|simmer|boil|mix|stir|whisk|add|combine|pour|place|serve|chop|slice|season|blend|knead|fold|drain|cover|remove|bring|let|transfer|grill|spread|sprinkle)\b/i;
+
+/**
+ * Strip markdown and list markers from a line ("## Method", "**Ingredients:**", "- [ ] 2 eggs")
+ */
+function cleanLine(line: string): string {
+  return line
+    .replace(/^\s*#{1,6}\s+/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/^\s*(?:[-*•·▢◻☐▪‣>]|\[[ x]\])\s+/i, '')
+    .replace(/^\s*\[[ x]\]\s*/i, '')
+    .trim();
+}
+
+/**
+ * The section a heading line starts, plus any text after the colon
+ * ("Ingredients: flour, sugar"). Returns null for ordinary lines.
+ */
+function matchHeading(line: string): { section: Section; rest: string } | null {
+  const match = line.match(/^([^:]{2,40}?)\s*:\s*(.*)$/) || [line, line, ''];
+  const label = match[1].trim();
+
+  for (const { section, pattern } of SECTION_HEADINGS) {
+    if (pattern.test(label)) {
+      return { section, rest: match[2].trim() };
+    }
+  }
+  return null;
+}
+
+function stripStepNumber(line: string): { text: string; numbered: boolean } {
+  const match = line.match(/^(?:step\s*)?\d{1,2}\s*[.):](?!\d)\s*|^step\s*\d{1,2}\s*[-–]?\s*/i);
+  return match
+    ? { text: line.slice(match[0].length).trim(), numbered: true }
+    : { text: line, numbered: false };
+}
+
+function looksLikeIngredient(line: string): boolean {
+  const split = splitLeadingQuantity(line);
+  if (!split) return false;
+
+  const [firstWord] = split.rest.split(/\s+/);
+  // An amount followed by a unit, or a short counted item ("2 eggs")
+  return !!findUnit(firstWord || '') || split.rest.split(/\s+/).length <= 4;
+}
+
+function parseIngredients(lines: string[]): Ingredient[] {
+  return lines
+    .map(line => stripStepNumber(line).text)
+    // "For the sauce:" sub-headings group ingredients but are not ingredients
+    .filter(line => line && !/:$/.test(line))
+    // Comma-separated lists on one line ("Ingredients: flour, sugar, eggs")
+    .flatMap(line => (lines.length === 1 && line.split(',').length >= 3 ? line.split(',') : [line]))
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(parseIngredientLine);
+}
+
+/**
+ * Group instruction lines into steps. Numbered lists start a step at each
+ * number and join wrapped lines onto it; otherwise every line is a step.
+ */
+function parseInstructions(lines: string[]): string[] {
+  const parsed = lines.map(stripStepNumber).filter(line => /[a-z]/i.test(line.text));
+  const isNumbered = parsed.some(line => line.numbered);
+  const steps: string[] = [];
+
+  parsed.forEach(({ text, numbered }) => {
+    if (isNumbered && !numbered && steps.length > 0) {
+      steps[steps.length - 1] += ` ${text}`;
+    } else {
+      steps.push(text);
+    }
+  });
+
+  return steps.filter(step => !/:$/.test(step));
+}
+
+/**
+ * Turn free-form recipe text (blog copy, family notes, model output) into a
+ * recipe. Looks for "Ingredients" and "Instructions" style sections and falls
+ * back to sorting lines into amounts and cooking steps when there are none.
+ * Fields that cannot be found are left empty.
+ */
+export function extractRecipeFromText(content: string, options: TextParserOptions = {}): Recipe {
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(cleanLine)
+    .filter(line => line.length > 0);
+
+  let title = '';
+  const sectionLines: Record<Section, string[]> = { intro: [], ingredients: [], instructions: [], other: [] };
+  let section: Section = 'intro';
+  let servings: number | undefined;
+  const times: { total?: number; cook?: number; prep?: number } = {};
+
+  lines.forEach(line => {
+    const labelledTitle = line.match(LABELLED_TITLE_PATTERN);
+    if (labelledTitle && !title) {
+      title = labelledTitle[1].trim();
+      return;
+    }
+
+    const servingsMatch = line.match(SERVINGS_PATTERN);
+    if (servingsMatch && section !== 'instructions') {
+      servings = Number(servingsMatch[1]) || servings;
+      return;
+    }
+
+    const timeMatch = line.match(TIME_PATTERN);
+    if (timeMatch && section !== 'instructions') {
+      const minutes = parseDurationText(timeMatch[2]) ?? undefined;
+      const kind = /^total/i.test(timeMatch[1]) ? 'total' : /^prep/i.test(timeMatch[1]) ? 'prep' : 'cook';
+      times[kind] = times[kind] ?? minutes;
+      return;
+    }
+
+    const heading = matchHeading(line);
+    if (heading) {
+      section = heading.section;
+      if (heading.rest) sectionLines[section].push(heading.rest);
+      return;
+    }
+
+    sectionLines[section].push(line);
+  });
+
+  let ingredients = parseIngredients(sectionLines.ingredients);
+  let instructions = parseInstructions(sectionLines.instructions);
+  let intro = sectionLines.intro;
+
+  // No headings: sort the lines by what they look like
+  if (ingredients.length === 0 && instructions.length === 0) {
+    const [firstLine, ...rest] = intro;
+    const body = title ? intro : rest;
+    if (!title && firstLine) title = firstLine;
+
+    ingredients = parseIngredients(body.filter(looksLikeIngredient));
+    instructions = parseInstructions(body.filter(line => !looksLikeIngredient(line) && COOKING_VERBS.test(line)));
+    intro = body.filter(line => !looksLikeIngredient(line) && !COOKING_VERBS.test(line));
+  } else if (!title && intro.length > 0) {
+    title = intro[0];
+    intro = intro.slice(1);
+  }
+
+  // Whatever prose sits between the title and the first section describes the dish
+  const description = intro.filter(line => line.length > 20 || /[.!?]$/.test(line)).join(' ');
+
+  // Our cooking time covers the whole recipe, so prefer the total
+  const cookingTime = times.total ?? (times.cook !== undefined && times.prep !== undefined
+    ? times.cook + times.prep
+    : times.cook);
+
+  return {
+    title: title.replace(/[:.]$/, '').trim() || options.fallbackTitle || 'Untitled Recipe',
+    description,
+    ingredients,
+    instructions,
+    // A lone cook time is taken as the total, as most pages mean it that way
+    prepTime: times.prep,
+    cookTime: times.prep !== undefined || times.total !== undefined ? times.cook : undefined,
+    cookingTime,
+    servings
+  };
+}
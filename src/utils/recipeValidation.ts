@@ -0,0 +1,373 @@
+import {
+  Ingredient,
+  Recipe,
+  RecipeDifficulty,
+  RecipeStep,
+  RecipeStepDetails,
+  RecipeValidationIssue,
+  StepTemperature
+} from '@/types/recipe';
+import { parseDurationText } from '@/utils/durationUtils';
+import { normalizeFractions } from '@/utils/quantityUtils';
+import { parseIngredientLine } from '@/utils/unitConversion';
+
+export interface RecipeValidationResult {
+  // Best-effort recipe built from everything that could be kept or coerced
+  recipe: Recipe;
+  issues: RecipeValidationIssue[];
+  // True when there are no error-level issues
+  valid: boolean;
+}
+
+// Keys models commonly use for the text of an instruction object
+const INSTRUCTION_TEXT_KEYS = ['text', 'step', 'instruction', 'description', 'content'];
+
+const DIFFICULTY_SYNONYMS: Record<string, RecipeDifficulty> = {
+  easy: 'easy',
+  simple: 'easy',
+  beginner: 'easy',
+  medium: 'medium',
+  moderate: 'medium',
+  intermediate: 'medium',
+  hard: 'hard',
+  difficult: 'hard',
+  advanced: 'hard',
+  challenging: 'hard'
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parsePositiveNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value === 'string') {
+    // "30", "30 minutes", "4 servings"
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)/);
+    return match && Number(match[1]) > 0 ? Number(match[1]) : null;
+  }
+  return null;
+}
+
+/**
+ * Validate one ingredient entry, coercing strings and numeric quantities
+ */
+export function validateIngredient(
+  value: unknown,
+  path: string,
+  issues: RecipeValidationIssue[]
+): Ingredient | null {
+  if (typeof value === 'string') {
+    const text = normalizeFractions(value).trim();
+    if (!text) {
+      issues.push({ path, message: 'Ingredient is empty', severity: 'error' });
+      return null;
+    }
+
+    // "2 cups flour" -> quantity, unit and name
+    issues.push({ path, message: 'Ingredient was a string and was split into fields', severity: 'warning' });
+    return parseIngredientLine(text);
+  }
+
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Ingredient must be an object with name, quantity and unit', severity: 'error' });
+    return null;
+  }
+
+  const name = nonEmptyString(value.name);
+  if (!name) {
+    issues.push({ path: `${path}.name`, message: 'Ingredient name is required', severity: 'error' });
+    return null;
+  }
+
+  let quantity = '';
+  if (typeof value.quantity === 'number' && Number.isFinite(value.quantity)) {
+    quantity = String(value.quantity);
+    issues.push({ path: `${path}.quantity`, message: 'Quantity was a number and was converted to text', severity: 'warning' });
+  } else if (typeof value.quantity === 'string') {
+    quantity = value.quantity.trim();
+  } else if (value.quantity !== undefined && value.quantity !== null) {
+    issues.push({ path: `${path}.quantity`, message: 'Quantity must be text', severity: 'error' });
+  }
+
+  let unit = '';
+  if (typeof value.unit === 'string') {
+    unit = value.unit.trim();
+  } else if (value.unit !== undefined && value.unit !== null) {
+    issues.push({ path: `${path}.unit`, message: 'Unit must be text', severity: 'error' });
+  }
+
+  return { name, quantity, unit };
+}
+
+function parseStringList(value: unknown): string[] {
+  if (typeof value === 'string') value = value.split(',');
+  if (!Array.isArray(value)) return [];
+  return value.map(nonEmptyString).filter((item): item is string => item !== null);
+}
+
+/**
+ * Temperature from { value, unit }, "180°C", "350 F" or "200 celsius"
+ */
+function parseTemperature(value: unknown): StepTemperature | null {
+  let amount: unknown = value;
+  let unit: unknown = null;
+  if (isRecord(value)) {
+    amount = value.value;
+    unit = value.unit;
+  } else if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*°?\s*([a-z]*)/i);
+    if (!match) return null;
+    [, amount, unit] = match;
+  }
+
+  const number = typeof amount === 'string' ? Number(amount) : amount;
+  if (typeof number !== 'number' || !Number.isFinite(number) || typeof unit !== 'string') return null;
+
+  const scale = unit.trim().toLowerCase().replace(/^°/, '');
+  if (scale === 'c' || scale === 'celsius') return { value: number, unit: 'C' };
+  if (scale === 'f' || scale === 'fahrenheit') return { value: number, unit: 'F' };
+  return null;
+}
+
+/**
+ * Validate the structured fields of an instruction object or a stepDetails
+ * entry. Fields that cannot be read are dropped with a warning.
+ */
+function validateStepDetails(
+  value: Record<string, unknown>,
+  path: string,
+  issues: RecipeValidationIssue[]
+): RecipeStepDetails {
+  const details: RecipeStepDetails = {};
+
+  if (value.duration !== undefined && value.duration !== null) {
+    const duration = parseDurationText(value.duration);
+    if (duration) {
+      details.duration = duration;
+    } else {
+      issues.push({ path: `${path}.duration`, message: 'Step duration must be a number of minutes and was dropped', severity: 'warning' });
+    }
+  }
+
+  if (value.temperature !== undefined && value.temperature !== null) {
+    const temperature = parseTemperature(value.temperature);
+    if (temperature) {
+      details.temperature = temperature;
+    } else {
+      issues.push({ path: `${path}.temperature`, message: 'Step temperature needs a value and a C or F unit and was dropped', severity: 'warning' });
+    }
+  }
+
+  const ingredients = parseStringList(value.ingredients);
+  if (ingredients.length > 0) details.ingredients = ingredients;
+
+  const equipment = parseStringList(value.equipment);
+  if (equipment.length > 0) details.equipment = equipment;
+
+  return details;
+}
+
+/**
+ * Validate one instruction entry, flattening nested lists and keeping the
+ * structured details of step objects
+ */
+export function validateStep(
+  value: unknown,
+  path: string,
+  issues: RecipeValidationIssue[]
+): RecipeStep[] {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text) {
+      issues.push({ path, message: 'Instruction is empty', severity: 'warning' });
+      return [];
+    }
+    return [{ text }];
+  }
+
+  if (Array.isArray(value)) {
+    // Nested step lists are flattened into consecutive steps
+    issues.push({ path, message: 'Nested instruction list was flattened', severity: 'warning' });
+    return value.flatMap((item, index) => validateStep(item, `${path}[${index}]`, issues));
+  }
+
+  if (isRecord(value)) {
+    const key = INSTRUCTION_TEXT_KEYS.find(candidate => nonEmptyString(value[candidate]));
+    if (key) {
+      if (key !== 'text') {
+        issues.push({ path, message: `Instruction text was read from its "${key}" field`, severity: 'warning' });
+      }
+      return [{ ...validateStepDetails(value, path, issues), text: nonEmptyString(value[key])! }];
+    }
+  }
+
+  issues.push({ path, message: 'Instruction must be text', severity: 'error' });
+  return [];
+}
+
+/**
+ * Validate one instruction entry down to its text
+ */
+export function validateInstruction(
+  value: unknown,
+  path: string,
+  issues: RecipeValidationIssue[]
+): string[] {
+  return validateStep(value, path, issues).map(step => step.text);
+}
+
+/**
+ * Read an optional positive number field, reporting coercions and drops
+ */
+function readPositiveNumber(
+  input: Record<string, unknown>,
+  key: string,
+  label: string,
+  expected: string,
+  issues: RecipeValidationIssue[]
+): number | null {
+  const value = input[key];
+  if (value === undefined || value === null) return null;
+
+  const number = parsePositiveNumber(value);
+  if (number === null) {
+    issues.push({ path: key, message: `${label} must be ${expected} and was dropped`, severity: 'warning' });
+  } else if (typeof value !== 'number') {
+    issues.push({ path: key, message: `${label} was converted to a number`, severity: 'warning' });
+  }
+  return number;
+}
+
+/**
+ * Validate a recipe-like object (usually parsed model output). Values that can
+ * be safely coerced are fixed and reported as warnings; anything else is
+ * reported as an error and left out of the returned recipe.
+ */
+export function validateRecipe(input: unknown): RecipeValidationResult {
+  const issues: RecipeValidationIssue[] = [];
+
+  if (!isRecord(input)) {
+    issues.push({ path: '', message: 'Recipe must be a JSON object', severity: 'error' });
+    return {
+      recipe: { title: 'Unknown Dish', description: '', ingredients: [], instructions: [] },
+      issues,
+      valid: false
+    };
+  }
+
+  let title = nonEmptyString(input.title);
+  if (!title) {
+    issues.push({ path: 'title', message: 'Title is required', severity: 'error' });
+    title = 'Unknown Dish';
+  }
+
+  let description = '';
+  if (typeof input.description === 'string') {
+    description = input.description.trim();
+  } else if (input.description !== undefined && input.description !== null) {
+    issues.push({ path: 'description', message: 'Description must be text and was dropped', severity: 'warning' });
+  }
+
+  const ingredients: Ingredient[] = [];
+  if (Array.isArray(input.ingredients)) {
+    input.ingredients.forEach((item, index) => {
+      const ingredient = validateIngredient(item, `ingredients[${index}]`, issues);
+      if (ingredient) ingredients.push(ingredient);
+    });
+  } else {
+    issues.push({ path: 'ingredients', message: 'Ingredients must be a list', severity: 'error' });
+  }
+  if (Array.isArray(input.ingredients) && ingredients.length === 0) {
+    issues.push({ path: 'ingredients', message: 'At least one ingredient is required', severity: 'error' });
+  }
+
+  const steps: RecipeStep[] = [];
+  if (Array.isArray(input.instructions)) {
+    input.instructions.forEach((item, index) => {
+      steps.push(...validateStep(item, `instructions[${index}]`, issues));
+    });
+  } else if (typeof input.instructions === 'string' && input.instructions.trim()) {
+    // One block of text: treat each non-empty line as a step
+    steps.push(...input.instructions.split('\n').map(line => line.trim()).filter(Boolean).map(text => ({ text })));
+    issues.push({ path: 'instructions', message: 'Instructions were a single string and were split into steps', severity: 'warning' });
+  } else {
+    issues.push({ path: 'instructions', message: 'Instructions must be a list', severity: 'error' });
+  }
+  if (Array.isArray(input.instructions) && steps.length === 0) {
+    issues.push({ path: 'instructions', message: 'At least one instruction is required', severity: 'error' });
+  }
+
+  // Recipes saved in our own shape keep their details next to plain-text instructions
+  if (Array.isArray(input.stepDetails)) {
+    input.stepDetails.slice(0, steps.length).forEach((item, index) => {
+      if (isRecord(item)) {
+        steps[index] = { ...validateStepDetails(item, `stepDetails[${index}]`, issues), ...steps[index] };
+      }
+    });
+  }
+
+  const instructions: string[] = [];
+  const stepDetails: RecipeStepDetails[] = [];
+  steps.forEach(({ text, ...details }) => {
+    instructions.push(text);
+    stepDetails.push(details);
+  });
+  const hasStepDetails = stepDetails.some(details => Object.keys(details).length > 0);
+
+  const prepTime = readPositiveNumber(input, 'prepTime', 'Prep time', 'a positive number of minutes', issues);
+  const cookTime = readPositiveNumber(input, 'cookTime', 'Cook time', 'a positive number of minutes', issues);
+  let cookingTime = readPositiveNumber(input, 'cookingTime', 'Cooking time', 'a positive number of minutes', issues);
+  if (cookingTime === null && (prepTime !== null || cookTime !== null)) {
+    // The total is what lists and exports show, so fill it in from its parts
+    cookingTime = (prepTime ?? 0) + (cookTime ?? 0);
+  }
+
+  const servings = readPositiveNumber(input, 'servings', 'Servings', 'a positive number', issues);
+
+  let difficulty: RecipeDifficulty | undefined;
+  if (input.difficulty !== undefined && input.difficulty !== null) {
+    difficulty = typeof input.difficulty === 'string'
+      ? DIFFICULTY_SYNONYMS[input.difficulty.trim().toLowerCase()]
+      : undefined;
+    if (!difficulty) {
+      issues.push({ path: 'difficulty', message: 'Difficulty must be easy, medium or hard and was dropped', severity: 'warning' });
+    }
+  }
+
+  // Without a recipe-wide list, gather the equipment named in the steps
+  let equipment = parseStringList(input.equipment);
+  if (equipment.length === 0) {
+    equipment = stepDetails.flatMap(details => details.equipment ?? [])
+      .filter((item, index, all) => all.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index);
+  }
+
+  const recipe: Recipe = {
+    title,
+    description,
+    ingredients,
+    instructions,
+    stepDetails: hasStepDetails ? stepDetails : undefined,
+    prepTime: prepTime ?? undefined,
+    cookTime: cookTime ?? undefined,
+    cookingTime: cookingTime ?? undefined,
+    servings: servings ? Math.round(servings) : undefined,
+    difficulty,
+    equipment: equipment.length > 0 ? equipment : undefined,
+    unitSystem: input.unitSystem === 'metric' || input.unitSystem === 'imperial'
+      ? input.unitSystem
+      : undefined,
+  };
+
+  return {
+    recipe,
+    issues,
+    valid: !issues.some(issue => issue.severity === 'error')
+  };
+}
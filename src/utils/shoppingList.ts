@@ -0,0 +1,302 @@
+import { Ingredient, MeasurementTarget, Recipe } from '@/types/recipe';
+import { AisleCategory, ShoppingAmount, ShoppingListItem, ShoppingListSection } from '@/types/shopping';
+import { Quantity, UnitDimension } from '@/types/units';
+import { formatQuantity } from '@/utils/quantityUtils';
+import { convertIngredient, formatBaseQuantity, parseMeasurement, toBaseQuantity } from '@/utils/unitConversion';
+
+// In the order a typical store is walked
+export const AISLE_LABELS: Record<AisleCategory, string> = {
+  produce: 'Produce',
+  'meat-seafood': 'Meat & Seafood',
+  'dairy-eggs': 'Dairy, Eggs & Chilled',
+  bakery: 'Bakery',
+  baking: 'Baking',
+  pantry: 'Pantry',
+  spices: 'Spices & Seasonings',
+  frozen: 'Frozen',
+  beverages: 'Beverages',
+  other: 'Other'
+};
+
+// Checked in order; specific phrases come before the single words they contain
+const AISLE_RULES: { aisle: AisleCategory; pattern: RegExp }[] = [
+  { aisle: 'frozen', pattern: /\bfrozen\b/i },
+  { aisle: 'pantry', pattern: /\b(?:canned|tinned|jarred|paste|stock|broth|bouillon|sauce|ketchup|mustard|mayonnaise|mayo|vinegar|oil|salsa|passata|pur[eé]e)\b/i },
+  { aisle: 'pantry', pattern: /\b(?:peanut butter|almond butter|nut butter|coconut milk|coconut cream|condensed milk|evaporated milk|nutritional yeast|breadcrumbs|bread crumbs|panko)\b/i },
+  { aisle: 'spices', pattern: /\b(?:pepper flakes|chil(?:l)?i flakes|black pepper|white pepper|peppercorns?|cayenne pepper)\b/i },
+  { aisle: 'produce', pattern: /\b(?:(?:bell|sweet|red|green|yellow|orange|chil(?:l)?i|poblano|serrano|habanero) peppers?|green beans|string beans|snap peas)\b/i },
+  {
+    aisle: 'spices',
+    pattern: /\b(?:salt|pepper|cumin|paprika|cinnamon|nutmeg|turmeric|cardamom|oregano|cayenne|chil(?:l)?i powder|curry powder|garam masala|allspice|(?:ground|whole) cloves|bay lea(?:f|ves)|seasoning|spices?|(?:garlic|onion|ginger) powder|dried (?:[a-z]+ )?(?:thyme|basil|rosemary|parsley|dill|sage|herbs|mint|tarragon)|ground (?:coriander|ginger)|herbes de provence|five spice)\b/i
+  },
+  {
+    aisle: 'baking',
+    pattern: /\b(?:flour|sugar|baking powder|baking soda|bicarbonate of soda|yeast|cocoa|chocolate(?: chips)?|cornstarch|cornflour|corn starch|cream of tartar|gelatine?|agar(?: agar)?|vanilla|molasses|sprinkles)\b/i
+  },
+  {
+    aisle: 'meat-seafood',
+    pattern: /\b(?:chicken|beef|pork|lamb|veal|bacon|sausages?|ham|turkey|duck|steak|mince|chorizo|prosciutto|pancetta|salami|fish|salmon|tuna|cod|haddock|tilapia|trout|shrimp|prawns?|crab|lobster|scallops?|mussels|clams|squid|anchov(?:y|ies))\b/i
+  },
+  {
+    aisle: 'dairy-eggs',
+    pattern: /\b(?:milk|butter|cream|cheese|cheddar|mozzarella|parmesan|feta|ricotta|halloumi|paneer|yog(?:h)?urt|eggs?|buttermilk|cr[eè]me fra[iî]che|ghee|tofu|tempeh|seitan)\b/i
+  },
+  { aisle: 'bakery', pattern: /\b(?:bread|baguettes?|buns?|rolls?|tortillas?|pitas?|naan|bagels?|croissants?|brioche|pizza dough|puff pastry)\b/i },
+  {
+    aisle: 'pantry',
+    pattern: /\b(?:rice|pasta|spaghetti|penne|macaroni|linguine|fettuccine|noodles|lasagn[ae]|couscous|quinoa|bulgur|oats|lentils|beans|chickpeas|honey|syrup|nuts|almonds|walnuts|pecans|cashews|peanuts|seeds|raisins|tahini|capers|olives|crackers|cereal)\b/i
+  },
+  {
+    aisle: 'produce',
+    pattern: /\b(?:onions?|garlic|shallots?|scallions?|leeks?|tomato(?:es)?|potato(?:es)?|carrots?|celery|lettuce|spinach|kale|arugula|rocket|cabbage|broccoli|cauliflower|zucchinis?|courgettes?|eggplants?|aubergines?|cucumbers?|mushrooms?|avocados?|lemons?|limes?|oranges?|apples?|bananas?|pears?|berries|strawberr(?:y|ies)|grapes|mango(?:es)?|pineapple|peach(?:es)?|ginger|herbs?|basil|parsley|cilantro|coriander|mint|dill|chives|thyme|rosemary|sage|corn|peas|squash|pumpkin|beets?|radish(?:es)?|asparagus|fennel|lemongrass|chil(?:l)?i(?:es)?|jalape[nñ]os?)\b/i
+  },
+  { aisle: 'beverages', pattern: /\b(?:wine|beer|juice|coffee|tea|soda|sparkling water|cider|rum|brandy|vodka|whiske?y|sake|mirin)\b/i }
+];
+
+// Nobody buys these for a recipe
+const NOT_BOUGHT = /^(?:(?:cold|warm|hot|boiling|iced?|lukewarm|tap) )?water$|^ice(?: cubes)?$/i;
+
+// Preparation words that do not change what is bought ("finely chopped onion" is an onion)
+const PREPARATION_WORDS = /\b(?:fresh|freshly|chopped|finely|roughly|coarsely|thinly|minced|diced|sliced|grated|shredded|peeled|softened|melted|beaten|cubed|halved|quartered|large|medium|small|optional)\b/gi;
+
+/**
+ * Which part of the store an ingredient is found in
+ */
+export function getAisle(name: string): AisleCategory {
+  return AISLE_RULES.find(rule => rule.pattern.test(name))?.aisle ?? 'other';
+}
+
+/**
+ * The name an ingredient is bought under: "Finely chopped onions, to taste" -> "onions"
+ */
+export function shoppingName(name: string): string {
+  return name
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/,.*$/, '')
+    .replace(PREPARATION_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function singular(word: string): string {
+  if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+  if (/(?:o|ch|sh|x)es$/.test(word)) return word.replace(/es$/, '');
+  if (/[^s]s$/.test(word)) return word.replace(/s$/, '');
+  return word;
+}
+
+/**
+ * Whether an ingredient is something to buy (tap water is not)
+ */
+export function needsBuying(name: string): boolean {
+  const cleaned = shoppingName(name);
+  return !!cleaned && !NOT_BOUGHT.test(cleaned);
+}
+
+/**
+ * The key two ingredients share when they are the same thing to buy
+ */
+export function shoppingKey(name: string): string {
+  return shoppingName(name).toLowerCase().split(' ').map(singular).join(' ');
+}
+
+// "3 garlic cloves" and "2 cloves garlic" are the same purchase
+const LEADING_PORTION = /^(cloves?|sprigs?|stalks?|heads?|bunch(?:es)?|cans?|tins?|sticks?)\s+(?:of\s+)?(.+)$/i;
+const TRAILING_PORTION = /^(.+?)\s+(cloves?|sprigs?|stalks?|heads?)$/i;
+
+function splitPortionWord(ingredient: Ingredient): Ingredient {
+  if (ingredient.unit.trim()) return ingredient;
+
+  const name = shoppingName(ingredient.name);
+  const leading = name.match(LEADING_PORTION);
+  if (leading) return { ...ingredient, name: leading[2], unit: leading[1] };
+
+  const trailing = name.match(TRAILING_PORTION);
+  if (trailing) return { ...ingredient, name: trailing[1], unit: trailing[2] };
+
+  return ingredient;
+}
+
+function addQuantities(a: Quantity, b: Quantity): Quantity {
+  if (a.max === undefined && b.max === undefined) return { min: a.min + b.min };
+  return { min: a.min + b.min, max: (a.max ?? a.min) + (b.max ?? b.min) };
+}
+
+interface AmountBucket {
+  dimension: UnitDimension | 'text';
+  quantity: Quantity | null;
+  unitText: string;
+  // Kept so a single, uncombined amount is shown as written
+  ingredients: Ingredient[];
+}
+
+interface ItemDraft {
+  key: string;
+  name: string;
+  buckets: Map<string, AmountBucket>;
+  recipeTitles: string[];
+}
+
+function addToBucket(draft: ItemDraft, bucketKey: string, bucket: Omit<AmountBucket, 'ingredients'>, ingredient: Ingredient) {
+  const existing = draft.buckets.get(bucketKey);
+  if (!existing) {
+    draft.buckets.set(bucketKey, { ...bucket, ingredients: [ingredient] });
+    return;
+  }
+
+  existing.ingredients.push(ingredient);
+  if (existing.quantity && bucket.quantity) {
+    existing.quantity = addQuantities(existing.quantity, bucket.quantity);
+  }
+}
+
+function addIngredient(draft: ItemDraft, ingredient: Ingredient) {
+  const measurement = parseMeasurement(ingredient.quantity, ingredient.unit);
+  const base = toBaseQuantity(measurement);
+
+  if (base) {
+    // Grams and milliliters add up across units: 2 tbsp + 1/4 cup
+    addToBucket(draft, base.dimension, { dimension: base.dimension, quantity: base.quantity, unitText: '' }, ingredient);
+  } else if (measurement.quantity) {
+    // Counted or in a unit we cannot convert: only add like to like ("2 cloves" + "3 cloves")
+    const unitText = measurement.unitText.toLowerCase();
+    addToBucket(draft, `count:${singular(unitText)}`, { dimension: 'count', quantity: measurement.quantity, unitText }, ingredient);
+  } else if (ingredient.quantity.trim() || ingredient.unit.trim()) {
+    const text = `${ingredient.quantity} ${ingredient.unit}`.trim();
+    addToBucket(draft, `text:${text.toLowerCase()}`, { dimension: 'text', quantity: null, unitText: text }, ingredient);
+  }
+}
+
+const BUCKET_ORDER: AmountBucket['dimension'][] = ['mass', 'volume', 'count', 'text'];
+
+function formatBucket(bucket: AmountBucket, target: MeasurementTarget): ShoppingAmount {
+  if (bucket.dimension === 'text' || !bucket.quantity) {
+    const [first] = bucket.ingredients;
+    return { quantity: first.quantity, unit: first.unit };
+  }
+
+  if (bucket.ingredients.length === 1) {
+    const { quantity, unit } = convertIngredient(bucket.ingredients[0], target);
+    return { quantity, unit };
+  }
+
+  if (bucket.dimension === 'count') {
+    return { quantity: formatQuantity(bucket.quantity), unit: bucket.unitText };
+  }
+
+  return formatBaseQuantity(bucket.dimension, bucket.quantity, target)
+    ?? { quantity: formatQuantity(bucket.quantity), unit: '' };
+}
+
+/**
+ * Merge the ingredients of several recipes into one shopping list. The same
+ * ingredient is listed once with its amounts added up in the chosen units;
+ * amounts that cannot be added (a volume and a count) stay separate.
+ */
+export function buildShoppingList(recipes: Recipe[], target: MeasurementTarget): ShoppingListItem[] {
+  const drafts = new Map<string, ItemDraft>();
+
+  recipes.forEach(recipe => {
+    recipe.ingredients.map(splitPortionWord).forEach(ingredient => {
+      if (!needsBuying(ingredient.name)) return;
+      const name = shoppingName(ingredient.name);
+
+      const key = shoppingKey(ingredient.name);
+      let draft = drafts.get(key);
+      if (!draft) {
+        draft = { key, name, buckets: new Map(), recipeTitles: [] };
+        drafts.set(key, draft);
+      }
+
+      addIngredient(draft, ingredient);
+      if (!draft.recipeTitles.includes(recipe.title)) {
+        draft.recipeTitles.push(recipe.title);
+      }
+    });
+  });
+
+  return [...drafts.values()].map(draft => ({
+    key: draft.key,
+    name: draft.name,
+    amounts: [...draft.buckets.values()]
+      // "1 tsp" of salt already covers "to taste"
+      .filter((bucket, _, buckets) => bucket.dimension !== 'text' || buckets.every(other => other.dimension === 'text'))
+      .sort((a, b) => BUCKET_ORDER.indexOf(a.dimension) - BUCKET_ORDER.indexOf(b.dimension))
+      .map(bucket => formatBucket(bucket, target)),
+    aisle: getAisle(draft.name),
+    recipeTitles: draft.recipeTitles
+  }));
+}
+
+/**
+ * Group list items by aisle, in store order and alphabetically within an aisle
+ */
+export function groupShoppingList(items: ShoppingListItem[]): ShoppingListSection[] {
+  return (Object.keys(AISLE_LABELS) as AisleCategory[])
+    .map(aisle => ({
+      aisle,
+      label: AISLE_LABELS[aisle],
+      items: items
+        .filter(item => item.aisle === aisle)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(section => section.items.length > 0);
+}
+
+/**
+ * "1 cup + 2" for an item's amounts
+ */
+export function formatShoppingAmounts(item: ShoppingListItem): string {
+  return item.amounts
+    .map(amount => [amount.quantity, amount.unit].filter(Boolean).join(' '))
+    .filter(Boolean)
+    .join(' + ');
+}
+
+/**
+ * One line of the list: "2 cups flour", or "salt, to taste" when the amount is not a number
+ */
+export function formatShoppingItem(item: ShoppingListItem): string {
+  const amounts = formatShoppingAmounts(item);
+  if (!amounts) return item.name;
+  return /^\d/.test(amounts) ? `${amounts} ${item.name}` : `${item.name}, ${amounts}`;
+}
+
+/**
+ * Plain-text list with check boxes, grouped by aisle
+ */
+export function formatShoppingListText(sections: ShoppingListSection[], checkedKeys: Set<string> = new Set()): string {
+  const blocks = sections.map(section => [
+    section.label,
+    ...section.items.map(item =>
+      `${checkedKeys.has(item.key) ? '[x]' : '[ ]'} ${formatShoppingItem(item)}`
+    )
+  ].join('\n'));
+
+  return ['Shopping List', ...blocks].join('\n\n') + '\n';
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with one row per item, for spreadsheets and grocery apps
+ */
+export function formatShoppingListCsv(sections: ShoppingListSection[], checkedKeys: Set<string> = new Set()): string {
+  const rows = [['Aisle', 'Item', 'Amount', 'Recipes', 'Checked']];
+
+  sections.forEach(section => {
+    section.items.forEach(item => {
+      rows.push([
+        section.label,
+        item.name,
+        formatShoppingAmounts(item),
+        item.recipeTitles.join('; '),
+        checkedKeys.has(item.key) ? 'yes' : 'no'
+      ]);
+    });
+  });
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
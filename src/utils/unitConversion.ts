@@ -0,0 +1,516 @@
+import {
+  Ingredient,
+  MeasurementProfile,
+  MeasurementTarget,
+  Recipe,
+  SmallVolumePreference,
+  StepTemperature,
+  VolumePreference,
+  WeightPreference
+} from '@/types/recipe';
+import { Measurement, Quantity, UnitDefinition, UnitDimension } from '@/types/units';
+import {
+  formatFraction,
+  formatQuantity,
+  multiplyQuantity,
+  normalizeFractions,
+  parseQuantity,
+  splitLeadingQuantity
+} from '@/utils/quantityUtils';
+import { getMeasurementProfile, getProfileUnitSystem } from '@/utils/unitUtils';
+
+// Base units: grams for mass, milliliters for volume
+export const UNIT_DEFINITIONS: UnitDefinition[] = [
+  { id: 'mg', dimension: 'mass', system: 'metric', toBase: 0.001, singular: 'mg', plural: 'mg', aliases: ['mg', 'milligram', 'milligrams', 'milligramme', 'milligrammes'] },
+  { id: 'g', dimension: 'mass', system: 'metric', toBase: 1, singular: 'g', plural: 'g', aliases: ['g', 'gr', 'gm', 'gms', 'gram', 'grams', 'gramme', 'grammes'] },
+  { id: 'kg', dimension: 'mass', system: 'metric', toBase: 1000, singular: 'kg', plural: 'kg', aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms', 'kilogramme', 'kilogrammes'] },
+  { id: 'oz', dimension: 'mass', system: 'imperial', toBase: 28.349523125, singular: 'oz', plural: 'oz', aliases: ['oz', 'ozs', 'ounce', 'ounces'] },
+  { id: 'lb', dimension: 'mass', system: 'imperial', toBase: 453.59237, singular: 'lb', plural: 'lbs', aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  { id: 'ml', dimension: 'volume', system: 'metric', toBase: 1, singular: 'ml', plural: 'ml', aliases: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres', 'cc'] },
+  { id: 'cl', dimension: 'volume', system: 'metric', toBase: 10, singular: 'cl', plural: 'cl', aliases: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { id: 'dl', dimension: 'volume', system: 'metric', toBase: 100, singular: 'dl', plural: 'dl', aliases: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { id: 'l', dimension: 'volume', system: 'metric', toBase: 1000, singular: 'L', plural: 'L', aliases: ['l', 'liter', 'liters', 'litre', 'litres', 'ltr'] },
+  { id: 'tsp', dimension: 'volume', toBase: 4.92892159375, singular: 'teaspoon', plural: 'teaspoons', aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons', 'tspn'] },
+  { id: 'tbsp', dimension: 'volume', toBase: 14.78676478125, singular: 'tablespoon', plural: 'tablespoons', aliases: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tbls', 'tablespoon', 'tablespoons'] },
+  { id: 'fl-oz', dimension: 'volume', system: 'imperial', toBase: 29.5735295625, singular: 'fl oz', plural: 'fl oz', aliases: ['fl oz', 'fl. oz', 'floz', 'fluid ounce', 'fluid ounces'] },
+  { id: 'cup', dimension: 'volume', system: 'imperial', toBase: 236.5882365, singular: 'cup', plural: 'cups', aliases: ['c', 'cup', 'cups'] },
+  { id: 'metric-cup', dimension: 'volume', system: 'metric', toBase: 250, singular: 'metric cup', plural: 'metric cups', aliases: ['metric cup', 'metric cups'] },
+  { id: 'pint', dimension: 'volume', system: 'imperial', toBase: 473.176473, singular: 'pint', plural: 'pints', aliases: ['pt', 'pts', 'pint', 'pints'] },
+  { id: 'uk-fl-oz', dimension: 'volume', system: 'imperial', toBase: 28.4130625, singular: 'UK fl oz', plural: 'UK fl oz', aliases: ['uk fl oz', 'imperial fl oz'] },
+  { id: 'uk-pint', dimension: 'volume', system: 'imperial', toBase: 568.26125, singular: 'UK pint', plural: 'UK pints', aliases: ['uk pint', 'uk pints', 'imperial pint', 'imperial pints'] },
+  { id: 'quart', dimension: 'volume', system: 'imperial', toBase: 946.352946, singular: 'quart', plural: 'quarts', aliases: ['qt', 'qts', 'quart', 'quarts'] },
+  { id: 'gallon', dimension: 'volume', system: 'imperial', toBase: 3785.411784, singular: 'gallon', plural: 'gallons', aliases: ['gal', 'gals', 'gallon', 'gallons'] }
+];
+
+const UNIT_ALIASES = new Map<string, UnitDefinition>(
+  UNIT_DEFINITIONS.flatMap(unit => unit.aliases.map(alias => [alias, unit] as [string, UnitDefinition]))
+);
+
+function getUnitById(id: string): UnitDefinition {
+  return UNIT_DEFINITIONS.find(unit => unit.id === id)!;
+}
+
+// Volumes below a quarter cup are measured with the profile's small-volume units
+export const SMALL_VOLUME_LIMIT = getUnitById('cup').toBase / 4;
+
+// Units each choice of a measurement profile leaves as written
+const WEIGHT_UNITS: Record<WeightPreference, string[]> = {
+  grams: ['mg', 'g', 'kg'],
+  ounces: ['oz', 'lb']
+};
+const VOLUME_UNITS: Record<VolumePreference, string[]> = {
+  milliliters: ['ml', 'cl', 'dl', 'l'],
+  'metric-cups': ['metric-cup', 'ml', 'l'],
+  'us-cups': ['fl-oz', 'cup', 'pint', 'quart', 'gallon'],
+  'uk-pints': ['uk-fl-oz', 'uk-pint']
+};
+const SMALL_VOLUME_UNITS: Record<SmallVolumePreference, string[]> = {
+  spoons: ['tsp', 'tbsp'],
+  milliliters: ['ml']
+};
+
+/**
+ * Whether a unit is one the profile measures in, so amounts in it need no conversion
+ */
+export function isPreferredUnit(unit: UnitDefinition, target: MeasurementTarget): boolean {
+  const profile = getMeasurementProfile(target);
+  return [
+    ...WEIGHT_UNITS[profile.weight],
+    ...VOLUME_UNITS[profile.volume],
+    ...SMALL_VOLUME_UNITS[profile.smallVolume]
+  ].includes(unit.id);
+}
+
+/**
+ * Look up a unit by any of its aliases ("Tbsp.", "cups", "fl. oz")
+ */
+export function findUnit(text: string): UnitDefinition | null {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/\bof$/, '')
+    .replace(/\.$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return UNIT_ALIASES.get(normalized) || null;
+}
+
+/**
+ * Parse an ingredient's quantity and unit strings into a structured measurement.
+ * Handles units with parenthetical hints ("cup (250ml)") and amounts that
+ * carry their own unit ("250g" with an empty unit).
+ */
+export function parseMeasurement(quantityText: string, unitText: string): Measurement {
+  let unitPart = unitText.trim();
+  let note: string | undefined;
+
+  const noteMatch = unitPart.match(/\(([^)]*)\)/);
+  if (noteMatch) {
+    note = noteMatch[1].trim();
+    unitPart = unitPart.replace(noteMatch[0], '').trim();
+  }
+
+  let quantity = parseQuantity(quantityText);
+
+  if (!quantity && !unitPart) {
+    // Amount and unit packed into the quantity field ("250g", "1 1/2 cups")
+    const split = splitLeadingQuantity(quantityText);
+    if (split) {
+      quantity = split.quantity;
+      unitPart = split.rest;
+    }
+  }
+
+  return {
+    quantity,
+    unit: unitPart ? findUnit(unitPart) : null,
+    unitText: unitPart,
+    note
+  };
+}
+
+/**
+ * Split a free-text ingredient line ("1 1/2 cups (350ml) whole milk") into
+ * quantity, unit and name. Lines without a leading amount become the name.
+ */
+export function parseIngredientLine(line: string): Ingredient {
+  const text = normalizeFractions(line).replace(/\s+/g, ' ').trim();
+  const split = splitLeadingQuantity(text);
+  if (!split) {
+    return { name: text, quantity: '', unit: '' };
+  }
+
+  const quantity = text.slice(0, text.length - split.rest.length).trim();
+  let rest = split.rest;
+  let unit = '';
+
+  // Try two-word units ("fl oz") before single words
+  const words = rest.split(' ');
+  for (const count of [2, 1]) {
+    const candidate = words.slice(0, count).join(' ');
+    if (words.length >= count && findUnit(candidate)) {
+      unit = candidate;
+      rest = words.slice(count).join(' ');
+      break;
+    }
+  }
+
+  // Keep a hint in the other system with its unit ("cup (250ml)")
+  const note = unit ? rest.match(/^\([^)]*\)/) : null;
+  if (note) {
+    unit = `${unit} ${note[0]}`;
+    rest = rest.slice(note[0].length).trim();
+  }
+
+  const name = rest.replace(/^of /i, '').trim();
+  return { name: name || split.rest, quantity, unit: name ? unit : '' };
+}
+
+/**
+ * Amount of a measurement in its dimension's base unit (grams or milliliters)
+ */
+export function toBaseQuantity(measurement: Measurement): { dimension: UnitDimension; quantity: Quantity } | null {
+  if (!measurement.quantity || !measurement.unit) return null;
+
+  return {
+    dimension: measurement.unit.dimension,
+    quantity: multiplyQuantity(measurement.quantity, measurement.unit.toBase)
+  };
+}
+
+/**
+ * Pick the unit a cook would use for an amount with the target units
+ */
+export function chooseUnit(dimension: UnitDimension, baseAmount: number, target: MeasurementTarget): UnitDefinition | null {
+  if (dimension === 'count') return null;
+  const profile = getMeasurementProfile(target);
+
+  if (dimension === 'mass') {
+    if (profile.weight === 'grams') {
+      return getUnitById(baseAmount >= 1000 ? 'kg' : 'g');
+    }
+    return getUnitById(baseAmount >= getUnitById('lb').toBase ? 'lb' : 'oz');
+  }
+
+  if (baseAmount < SMALL_VOLUME_LIMIT) {
+    if (profile.smallVolume === 'milliliters') return getUnitById('ml');
+    return getUnitById(baseAmount < getUnitById('tbsp').toBase ? 'tsp' : 'tbsp');
+  }
+
+  switch (profile.volume) {
+    case 'milliliters':
+      return getUnitById(baseAmount >= 1000 ? 'l' : 'ml');
+    case 'metric-cups':
+      return getUnitById(baseAmount >= 1000 ? 'l' : 'metric-cup');
+    case 'uk-pints':
+      return getUnitById(baseAmount >= getUnitById('uk-pint').toBase / 2 ? 'uk-pint' : 'uk-fl-oz');
+    default:
+      return getUnitById('cup');
+  }
+}
+
+/**
+ * Format an amount in a specific unit ("1 1/2" + "cups", "250" + "g")
+ */
+export function formatMeasurement(quantity: Quantity, unit: UnitDefinition): { quantity: string; unit: string } {
+  // Cups are filled in fractions, metric ones included
+  const isDecimal = unit.system === 'metric' && unit.id !== 'metric-cup';
+  const formatted = formatQuantity(quantity, isDecimal ? 'decimal' : 'fraction');
+  const isSingular = quantity.max === undefined && formatted === '1';
+
+  return {
+    quantity: formatted,
+    unit: isSingular ? unit.singular : unit.plural
+  };
+}
+
+/**
+ * Express a base amount in the best unit of the target units
+ */
+export function formatBaseQuantity(
+  dimension: UnitDimension,
+  baseQuantity: Quantity,
+  target: MeasurementTarget
+): { quantity: string; unit: string } | null {
+  const unit = chooseUnit(dimension, baseQuantity.min, target);
+  if (!unit) return null;
+
+  return formatMeasurement(multiplyQuantity(baseQuantity, 1 / unit.toBase), unit);
+}
+
+/**
+ * Convert an ingredient into the target units. Ingredients with unparseable
+ * amounts, units that are not measurements (pieces, cloves) or units the
+ * target already uses are returned unchanged.
+ */
+export function convertIngredient(ingredient: Ingredient, target: MeasurementTarget): Ingredient {
+  const measurement = parseMeasurement(ingredient.quantity, ingredient.unit);
+
+  // Prefer the model's own hint when it is already in the target units ("cup (250ml)")
+  if (measurement.note) {
+    const hint = splitLeadingQuantity(measurement.note);
+    const hintUnit = hint ? findUnit(hint.rest) : null;
+    if (hint && hintUnit && isPreferredUnit(hintUnit, target)) {
+      return { ...ingredient, ...formatMeasurement(hint.quantity, hintUnit) };
+    }
+  }
+
+  if (!measurement.unit || isPreferredUnit(measurement.unit, target)) {
+    return ingredient;
+  }
+
+  const base = toBaseQuantity(measurement);
+  const converted = base && formatBaseQuantity(base.dimension, base.quantity, target);
+
+  return converted ? { ...ingredient, ...converted } : ingredient;
+}
+
+// Scale temperatures are written in; a gas mark profile keeps Celsius next to the mark
+function temperatureScale(profile: MeasurementProfile): StepTemperature['unit'] {
+  return profile.temperature === 'fahrenheit' ? 'F' : 'C';
+}
+
+/**
+ * Convert a temperature into the scale of the target units. Oven
+ * temperatures are rounded to the steps ovens are set in (350°F <-> 180°C).
+ */
+export function convertTemperature(temperature: StepTemperature, target: MeasurementTarget): StepTemperature {
+  const unit = temperatureScale(getMeasurementProfile(target));
+  if (temperature.unit === unit) return temperature;
+
+  const value = unit === 'C' ? (temperature.value - 32) * 5 / 9 : temperature.value * 9 / 5 + 32;
+  const step = unit === 'C' ? (value >= 120 ? 10 : 5) : (value >= 250 ? 25 : 5);
+  return { value: Math.round(value / step) * step, unit };
+}
+
+// Oven settings for each gas mark
+const GAS_MARKS: Record<string, { C: number; F: number }> = {
+  '1/4': { C: 110, F: 225 },
+  '1/2': { C: 120, F: 250 },
+  '1': { C: 140, F: 275 },
+  '2': { C: 150, F: 300 },
+  '3': { C: 170, F: 325 },
+  '4': { C: 180, F: 350 },
+  '5': { C: 190, F: 375 },
+  '6': { C: 200, F: 400 },
+  '7': { C: 220, F: 425 },
+  '8': { C: 230, F: 450 },
+  '9': { C: 240, F: 475 }
+};
+
+// A number as written in a step: "2", "1.5", "1 1/2", "1/2", "1½" or "½"
+const INLINE_NUMBER = String.raw`(?:\d+(?:\.\d+)?(?:\s+\d+\/\d+|\s?[½⅓⅔¼¾⅛])?|\d+\/\d+|[½⅓⅔¼¾⅛])`;
+const INLINE_RANGE = String.raw`${INLINE_NUMBER}(?:\s*(?:-|–|to)\s*${INLINE_NUMBER})?`;
+
+const TEMPERATURE_PATTERN = new RegExp(
+  String.raw`\b(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(°|º|degrees?\b)?\s*(celsius|centigrade|fahrenheit|c|f)\b`,
+  'gi'
+);
+const LENGTH_PATTERN = new RegExp(
+  String.raw`(${INLINE_NUMBER})(?:\s*[x×]\s*(${INLINE_NUMBER}))?(?:\s*[x×]\s*(${INLINE_NUMBER}))?(\s*-?\s*)(inch(?:es)?\b|["″]|cm\b|centimet(?:er|re)s?\b|mm\b|millimet(?:er|re)s?\b)`,
+  'gi'
+);
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`(${INLINE_RANGE})\s*(fl\.?\s?oz\b|fluid\s+ounces?\b|[a-z]+\b)`,
+  'gi'
+);
+const GAS_MARK_PATTERN = /\bgas(?:\s+mark)?\s+(\d\/\d|\d|[½¼])(?!\d)/gi;
+const CELSIUS_PATTERN = /\b(\d+)\s?°C\b/g;
+const OVEN_PATTERN = /\b(?:oven|bake|baking|roast)/i;
+
+/**
+ * A measurement found in instruction text, with its text in the target units
+ */
+interface InlineMeasurement {
+  start: number;
+  end: number;
+  // Already in the target units, so it is kept as written
+  preferred: boolean;
+  replacement: string;
+}
+
+function findTemperatures(text: string, profile: MeasurementProfile): InlineMeasurement[] {
+  return [...text.matchAll(TEMPERATURE_PATTERN)].flatMap(match => {
+    const [, min, max, marker, scale] = match;
+    // Without a degree sign only "350F" or "180 C" counts; "2 c" is two cups
+    const isBareLetter = !marker && scale.length === 1;
+    if (isBareLetter && (scale !== scale.toUpperCase() || Number(min) < 100)) return [];
+
+    const unit = scale.toLowerCase().startsWith('f') ? 'F' : 'C';
+    const target = temperatureScale(profile);
+    let replacement = `${convertTemperature({ value: Number(min), unit }, profile).value}°${target}`;
+    if (max) {
+      // Oven steps would collapse a frying range, so ranges round to 5 degrees
+      const [low, high] = [min, max].map(value => {
+        const exact = unit === 'C' ? Number(value) * 9 / 5 + 32 : (Number(value) - 32) * 5 / 9;
+        return Math.round(exact / 5) * 5;
+      });
+      replacement = low === high ? `${low}°${target}` : `${low}-${high}°${target}`;
+    }
+
+    return [{
+      start: match.index!,
+      end: match.index! + match[0].length,
+      preferred: unit === target,
+      replacement
+    }];
+  });
+}
+
+function findLengths(text: string, profile: MeasurementProfile): InlineMeasurement[] {
+  const isMetric = profile.length === 'centimeters';
+  return [...text.matchAll(LENGTH_PATTERN)].flatMap(match => {
+    const [, first, second, third, joiner, unitText] = match;
+    const isInches = /^(?:inch|["″])/i.test(unitText);
+    const centimetres = isInches ? 2.54 : /^m/i.test(unitText) ? 0.1 : 1;
+
+    const sizes = [first, second, third]
+      .filter((size): size is string => !!size)
+      .map(size => (parseQuantity(size)?.min ?? 0) * centimetres);
+    if (sizes.some(size => size <= 0)) return [];
+
+    // Pan sizes in whole centimetres or inches; small cuts to the half centimetre or a kitchen fraction
+    const formatted = isMetric
+      ? sizes.map(size => `${size < 2.5 ? Math.max(0.5, Math.round(size * 2) / 2) : Math.round(size)}`)
+      : sizes.map(size => size / 2.54 >= 4 ? `${Math.round(size / 2.54)}` : formatFraction(size / 2.54));
+    const separator = /\s[x×]\s/.test(match[0]) ? ' x ' : 'x';
+    const dimensions = formatted.join(separator);
+
+    const unit = isMetric ? ' cm' : joiner.includes('-') ? '-inch' : ' inch';
+    return [{
+      start: match.index!,
+      end: match.index! + match[0].length,
+      preferred: isInches !== isMetric,
+      replacement: `${dimensions}${unit}`
+    }];
+  });
+}
+
+function findQuantities(text: string, profile: MeasurementProfile): InlineMeasurement[] {
+  return [...text.matchAll(QUANTITY_PATTERN)].flatMap(match => {
+    const [, amount, unitText] = match;
+    const unit = findUnit(unitText);
+    // A lone "c" is too often something else
+    if (!unit || unitText.toLowerCase() === 'c') return [];
+
+    const quantity = parseQuantity(amount);
+    const converted = quantity && formatBaseQuantity(unit.dimension, multiplyQuantity(quantity, unit.toBase), profile);
+    if (!converted) return [];
+
+    return [{
+      start: match.index!,
+      end: match.index! + match[0].length,
+      preferred: isPreferredUnit(unit, profile),
+      replacement: `${converted.quantity} ${converted.unit}`
+    }];
+  });
+}
+
+/**
+ * Rewrite the measurements found in text. A measurement followed by the same
+ * one in other units ("350°F (180°C)", "1 cup/240 ml") is replaced by
+ * whichever of the two is in the target units.
+ */
+function rewriteMeasurements(text: string, measurements: InlineMeasurement[]): string {
+  const sorted = measurements
+    .sort((a, b) => a.start - b.start)
+    .filter((measurement, index, all) => index === 0 || measurement.start >= all[index - 1].end);
+
+  let result = '';
+  let position = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const measurement = sorted[i];
+    const next = sorted[i + 1];
+    result += text.slice(position, measurement.start);
+
+    const between = next ? text.slice(measurement.end, next.start) : '';
+    if (next && next.preferred !== measurement.preferred && /^\s*(?:\(|\/|or)\s*$/.test(between)) {
+      const kept = measurement.preferred ? measurement : next;
+      const closing = between.includes('(') ? text.slice(next.end).match(/^\s*\)/) : null;
+      result += text.slice(kept.start, kept.end);
+      position = next.end + (closing ? closing[0].length : 0);
+      i++;
+      continue;
+    }
+
+    result += measurement.preferred ? text.slice(measurement.start, measurement.end) : measurement.replacement;
+    position = measurement.end;
+  }
+  return result + text.slice(position);
+}
+
+// Gas mark for an oven temperature in Celsius, when it is one of the marks' settings
+function findGasMark(celsius: number): string | undefined {
+  return Object.keys(GAS_MARKS).find(mark => GAS_MARKS[mark].C === celsius);
+}
+
+/**
+ * Rewrite the temperatures, lengths (pan sizes, cuts) and amounts in one
+ * instruction into the target units. Gas marks gain the matching oven
+ * temperature unless one is already next to them, and for cooks who use gas
+ * marks, oven temperatures gain their mark instead. Anything that cannot be
+ * read is left as written.
+ */
+export function convertInstructionText(text: string, target: MeasurementTarget): string {
+  const profile = getMeasurementProfile(target);
+  const converted = rewriteMeasurements(text, [
+    ...findTemperatures(text, profile),
+    ...findLengths(text, profile),
+    ...findQuantities(text, profile)
+  ]);
+
+  if (profile.temperature === 'gas-mark') {
+    // Only oven steps: a frying temperature has no gas mark
+    if (!OVEN_PATTERN.test(converted)) return converted;
+
+    return converted.replace(CELSIUS_PATTERN, (match: string, celsius: string, offset: number) => {
+      const before = converted.slice(0, offset);
+      const after = converted.slice(offset + match.length);
+      const mark = findGasMark(Number(celsius));
+      if (!mark || /\bgas(?:\s+mark)?\s+\S+\s*\(?$/i.test(before) || /^\s*\)?\s*[(/,]?\s*gas\b/i.test(after)) {
+        return match;
+      }
+      return `gas mark ${mark} (${match})`;
+    });
+  }
+
+  const scale = temperatureScale(profile);
+  return converted.replace(GAS_MARK_PATTERN, (match: string, mark: string, offset: number) => {
+    const before = converted.slice(0, offset);
+    const after = converted.slice(offset + match.length);
+    if (/°\s*[CF]\)?\s*[(/,]?\s*$/i.test(before) || /^\s*\)?\s*[(/,]?\s*\d+\s*(?:°|º|degrees)/i.test(after)) {
+      return match;
+    }
+
+    const setting = GAS_MARKS[normalizeFractions(mark)];
+    return setting ? `${setting[scale]}°${scale} (${match})` : match;
+  });
+}
+
+/**
+ * Convert the instruction text and step temperatures of a recipe into the
+ * target units, leaving the ingredients as they are
+ */
+export function convertInstructions(recipe: Recipe, target: MeasurementTarget): Recipe {
+  return {
+    ...recipe,
+    instructions: recipe.instructions.map(instruction => convertInstructionText(instruction, target)),
+    stepDetails: recipe.stepDetails?.map(details => details.temperature
+      ? { ...details, temperature: convertTemperature(details.temperature, target) }
+      : details),
+    unitSystem: getProfileUnitSystem(target)
+  };
+}
+
+/**
+ * Convert every ingredient and instruction of a recipe into the target
+ * units. Always works from the given recipe, so converting the original back
+ * and forth gives the same result every time.
+ */
+export function convertRecipe(recipe: Recipe, target: MeasurementTarget): Recipe {
+  return {
+    ...convertInstructions(recipe, target),
+    ingredients: recipe.ingredients.map(ingredient => convertIngredient(ingredient, target))
+  };
+}
@@ -1,72 +1,191 @@
-import { UnitSystem } from '@/types/recipe';
+import { MeasurementCategory, MeasurementProfile, MeasurementTarget, UnitSystem } from '@/types/recipe';
 
-export interface UnitPreference {
-  system: UnitSystem;
-  label: string;
-  description: string;
+export type MeasurementPresetId = 'us' | 'metric' | 'uk' | 'uk-imperial' | 'australia' | 'weighed';
+
+export interface MeasurementPreset {
+  id: MeasurementPresetId;
+  profile: MeasurementProfile;
 }
 
-export const UNIT_SYSTEMS: UnitPreference[] = [
+export const MEASUREMENT_PRESETS: MeasurementPreset[] = [
+  {
+    id: 'us',
+    profile: { weight: 'ounces', volume: 'us-cups', smallVolume: 'spoons', temperature: 'fahrenheit', length: 'inches', weighDryIngredients: false }
+  },
   {
-    system: 'metric',
-    label: 'Metric',
-    description: 'Celsius, grams, liters, centimeters'
+    id: 'metric',
+    profile: { weight: 'grams', volume: 'milliliters', smallVolume: 'spoons', temperature: 'celsius', length: 'centimeters', weighDryIngredients: false }
   },
   {
-    system: 'imperial',
-    label: 'Imperial (US)',
-    description: 'Fahrenheit, ounces, cups, inches'
+    id: 'uk',
+    profile: { weight: 'grams', volume: 'milliliters', smallVolume: 'spoons', temperature: 'gas-mark', length: 'centimeters', weighDryIngredients: true }
+  },
+  {
+    id: 'uk-imperial',
+    profile: { weight: 'ounces', volume: 'uk-pints', smallVolume: 'spoons', temperature: 'gas-mark', length: 'inches', weighDryIngredients: true }
+  },
+  {
+    id: 'australia',
+    profile: { weight: 'grams', volume: 'metric-cups', smallVolume: 'spoons', temperature: 'celsius', length: 'centimeters', weighDryIngredients: false }
+  },
+  {
+    id: 'weighed',
+    profile: { weight: 'grams', volume: 'milliliters', smallVolume: 'spoons', temperature: 'celsius', length: 'centimeters', weighDryIngredients: true }
   }
 ];
 
-// Common unit mappings for recipe generation prompts
-export const UNIT_EXAMPLES = {
-  metric: {
-    volume: ['ml', 'liters', 'L'],
-    weight: ['grams', 'g', 'kilograms', 'kg'],
-    temperature: ['Celsius', '°C'],
-    small_volume: ['ml', 'tablespoons', 'teaspoons']
-  },
-  imperial: {
-    volume: ['cups', 'fl oz', 'pints', 'quarts'],
-    weight: ['ounces', 'oz', 'pounds', 'lbs'],
-    temperature: ['Fahrenheit', '°F'],
-    small_volume: ['tablespoons', 'tbsp', 'teaspoons', 'tsp']
-  }
+// The choices offered for each kind of measurement, in the order the editor shows them
+export const MEASUREMENT_CHOICES: { [K in MeasurementCategory]: MeasurementProfile[K][] } = {
+  weight: ['grams', 'ounces'],
+  volume: ['milliliters', 'metric-cups', 'us-cups', 'uk-pints'],
+  smallVolume: ['spoons', 'milliliters'],
+  temperature: ['celsius', 'fahrenheit', 'gas-mark'],
+  length: ['centimeters', 'inches']
 };
 
-export function getUnitSystemPrompt(unitSystem: UnitSystem): string {
-  if (unitSystem === 'metric') {
-    return `Use METRIC units only:
-- Weights: grams (g), kilograms (kg)
-- Volumes: milliliters (ml), liters (L), tablespoons, teaspoons
-- Temperature: Celsius (°C)
-- Example: "250g flour", "500ml milk", "2 tablespoons olive oil", "180°C"`;
-  } else {
-    return `Use IMPERIAL (US) units only:
-- Weights: ounces (oz), pounds (lbs)
-- Volumes: cups, fluid ounces (fl oz), tablespoons (tbsp), teaspoons (tsp)
-- Temperature: Fahrenheit (°F)
-- Example: "2 cups flour", "1 cup milk", "2 tablespoons olive oil", "350°F"`;
+// Regions that cook in US units, and those with presets of their own; everywhere else is metric
+const REGION_PRESETS: Record<string, MeasurementPresetId> = {
+  US: 'us',
+  PR: 'us',
+  LR: 'us',
+  GB: 'uk',
+  AU: 'australia',
+  NZ: 'australia'
+};
+
+function getPreset(id: MeasurementPresetId): MeasurementProfile {
+  return MEASUREMENT_PRESETS.find(preset => preset.id === id)!.profile;
+}
+
+/**
+ * Profile for a measurement target: a unit system maps to the US or metric preset
+ */
+export function getMeasurementProfile(target: MeasurementTarget): MeasurementProfile {
+  if (typeof target !== 'string') return target;
+  return getPreset(target === 'metric' ? 'metric' : 'us');
+}
+
+/**
+ * The coarse unit system a profile belongs to, for labels and paper sizes
+ */
+export function getProfileUnitSystem(target: MeasurementTarget): UnitSystem {
+  if (typeof target === 'string') return target;
+  return target.weight === 'ounces' || target.temperature === 'fahrenheit' ? 'imperial' : 'metric';
+}
+
+/**
+ * The preset a profile matches exactly, or null for a custom profile
+ */
+export function findMeasurementPreset(profile: MeasurementProfile): MeasurementPresetId | null {
+  const preset = MEASUREMENT_PRESETS.find(({ profile: candidate }) =>
+    (Object.keys(candidate) as (keyof MeasurementProfile)[]).every(key => candidate[key] === profile[key])
+  );
+  return preset?.id ?? null;
+}
+
+/**
+ * Read a profile sent by a client. Missing or unknown choices come from the
+ * preset of the fallback unit system.
+ */
+export function parseMeasurementProfile(value: unknown, fallback: UnitSystem = 'imperial'): MeasurementProfile {
+  const preset = getMeasurementProfile(fallback);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return preset;
+
+  const input = value as Record<string, unknown>;
+  const choose = <K extends MeasurementCategory>(category: K): MeasurementProfile[K] => {
+    const choice = MEASUREMENT_CHOICES[category].find(option => option === input[category]);
+    return choice ?? preset[category];
+  };
+
+  return {
+    weight: choose('weight'),
+    volume: choose('volume'),
+    smallVolume: choose('smallVolume'),
+    temperature: choose('temperature'),
+    length: choose('length'),
+    weighDryIngredients: typeof input.weighDryIngredients === 'boolean' ? input.weighDryIngredients : preset.weighDryIngredients
+  };
+}
+
+/**
+ * Profile for a language tag's region ("en-GB" -> UK). Tags without a region
+ * use the language's most likely one, so "en" is US and "fr" is metric.
+ */
+export function measurementProfileForLocale(tag: string): MeasurementProfile {
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(tag).maximize().region;
+  } catch {
+    region = undefined;
   }
+  return getPreset(region && REGION_PRESETS[region] ? REGION_PRESETS[region] : 'metric');
+}
+
+export function detectUserMeasurementProfile(): MeasurementProfile {
+  // Default to US units when there is no browser to ask
+  if (typeof navigator === 'undefined') return getPreset('us');
+  return measurementProfileForLocale(navigator.language || 'en-US');
 }
 
 export function detectUserUnitSystem(): UnitSystem {
-  // Try to detect user's preferred unit system based on locale
-  if (typeof window !== 'undefined') {
-    const locale = navigator.language || 'en-US';
-    
-    // Countries that primarily use metric system
-    const metricCountries = ['en-GB', 'en-AU', 'en-CA', 'fr', 'de', 'es', 'it', 'pt', 'nl', 'se', 'no', 'dk', 'fi'];
-    
-    // Check if the locale matches any metric countries
-    const isMetricCountry = metricCountries.some(country => 
-      locale.toLowerCase().startsWith(country.toLowerCase())
-    );
-    
-    return isMetricCountry ? 'metric' : 'imperial';
-  }
-  
-  // Default to imperial for US-based users if detection fails
-  return 'imperial';
+  return getProfileUnitSystem(detectUserMeasurementProfile());
+}
+
+const WEIGHT_PROMPTS: Record<MeasurementProfile['weight'], string> = {
+  grams: 'grams (g), kilograms (kg)',
+  ounces: 'ounces (oz), pounds (lbs)'
+};
+
+const VOLUME_PROMPTS: Record<MeasurementProfile['volume'], string> = {
+  milliliters: 'milliliters (ml), liters (L)',
+  'metric-cups': '250 ml metric cups, written as "metric cup", and liters (L) for large amounts',
+  'us-cups': 'US cups, fluid ounces (fl oz)',
+  'uk-pints': 'UK pints (20 fl oz), written as "UK pint", and UK fluid ounces, written as "UK fl oz"'
+};
+
+const SMALL_VOLUME_PROMPTS: Record<MeasurementProfile['smallVolume'], string> = {
+  spoons: 'tablespoons (tbsp), teaspoons (tsp)',
+  milliliters: 'milliliters (ml), never spoons'
+};
+
+const TEMPERATURE_PROMPTS: Record<MeasurementProfile['temperature'], string> = {
+  celsius: 'Celsius (°C), never Fahrenheit or gas marks',
+  fahrenheit: 'Fahrenheit (°F), never Celsius or gas marks',
+  'gas-mark': 'gas marks with Celsius next to them ("gas mark 4 (180°C)"); step temperatures in °C'
+};
+
+const LENGTH_PROMPTS: Record<MeasurementProfile['length'], string> = {
+  centimeters: 'centimeters (cm)',
+  inches: 'inches'
+};
+
+const EXAMPLES: { [K in MeasurementCategory]: Record<MeasurementProfile[K], string> } = {
+  weight: { grams: '"250g flour"', ounces: '"8 oz flour"' },
+  volume: { milliliters: '"500ml milk"', 'metric-cups': '"2 metric cups milk"', 'us-cups': '"2 cups milk"', 'uk-pints': '"1 UK pint milk"' },
+  smallVolume: { spoons: '"2 tablespoons olive oil"', milliliters: '"30 ml olive oil"' },
+  temperature: { celsius: '"180°C"', fahrenheit: '"350°F"', 'gas-mark': '"gas mark 4 (180°C)"' },
+  length: { centimeters: '"a 23 cm cake tin"', inches: '"a 9-inch cake pan"' }
+};
+
+export function getUnitSystemPrompt(target: MeasurementTarget): string {
+  const profile = getMeasurementProfile(target);
+  const dryIngredients = profile.weighDryIngredients
+    ? `\n- Dry ingredients (flour, sugar, rice, oats, nuts): weigh them in ${profile.weight === 'grams' ? 'grams' : 'ounces'}, never cups`
+    : '';
+  const examples = [
+    EXAMPLES.weight[profile.weight],
+    EXAMPLES.volume[profile.volume],
+    EXAMPLES.smallVolume[profile.smallVolume],
+    EXAMPLES.temperature[profile.temperature],
+    EXAMPLES.length[profile.length]
+  ];
+
+  return `Use these units only:
+- Weights: ${WEIGHT_PROMPTS[profile.weight]}
+- Volumes: ${VOLUME_PROMPTS[profile.volume]}
+- Small amounts under 1/4 cup: ${SMALL_VOLUME_PROMPTS[profile.smallVolume]}${dryIngredients}
+- Temperature: ${TEMPERATURE_PROMPTS[profile.temperature]}
+- Lengths and pan sizes: ${LENGTH_PROMPTS[profile.length]}
+- Use these units in the instructions too, not only in the ingredients
+- Example: ${examples.join(', ')}`;
 }
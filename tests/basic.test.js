@@ -5,25 +5,34 @@
 
 import { validateImageFile } from '../src/utils/imageUtils';
 
+// Smallest JPEG the content check accepts: a 640x480 frame header and scan
+const JPEG_BYTES = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0x56,
+  0xff, 0xd9
+]);
+
 // Test image validation
-function testImageValidation() {
+async function testImageValidation() {
   console.log('Testing image validation...');
   
   // Create mock files for testing
-  const validFile = new File([''], 'test.jpg', { type: 'image/jpeg' });
+  const validFile = new File([JPEG_BYTES], 'test.jpg', { type: 'image/jpeg' });
   const invalidFile = new File([''], 'test.txt', { type: 'text/plain' });
   const largeFile = new File(['x'.repeat(11 * 1024 * 1024)], 'large.jpg', { type: 'image/jpeg' });
   
   // Test valid file
-  const validResult = validateImageFile(validFile);
+  const validResult = await validateImageFile(validFile);
   console.assert(validResult.valid === true, 'Valid JPEG should pass validation');
   
   // Test invalid file type
-  const invalidResult = validateImageFile(invalidFile);
+  const invalidResult = await validateImageFile(invalidFile);
   console.assert(invalidResult.valid === false, 'Invalid file type should fail validation');
   
   // Test large file
-  const largeResult = validateImageFile(largeFile);
+  const largeResult = await validateImageFile(largeFile);
   console.assert(largeResult.valid === false, 'Large file should fail validation');
   
   console.log('✅ Image validation tests passed');
@@ -33,6 +42,5 @@ function testImageValidation() {
 if (typeof window === 'undefined') {
   // Node.js environment
   console.log('🧪 Running basic tests...');
-  testImageValidation();
-  console.log('✅ All tests completed');
+  testImageValidation().then(() => console.log('✅ All tests completed'));
 }
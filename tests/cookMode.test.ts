@@ -0,0 +1,66 @@
+/**
+ * Tests for cook mode step timers and voice commands
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { findStepDurations, formatCountdown } from '../src/utils/durationUtils';
+import { parseVoiceCommand } from '../src/utils/cookMode';
+
+function testFindStepDurations() {
+  console.log('Testing findStepDurations...');
+
+  const simmer = findStepDurations('Cover and simmer for 15 minutes, stirring occasionally.');
+  console.assert(simmer.length === 1 && simmer[0].seconds === 900 && simmer[0].text === '15 minutes', 'Should find minutes');
+
+  const bake = findStepDurations('Bake 1 hour 30 mins until golden');
+  console.assert(bake.length === 1 && bake[0].seconds === 5400, 'Should combine hours and minutes into one timer');
+
+  const sear = findStepDurations('Sear 2-3 minutes per side, then rest 30 seconds.');
+  console.assert(sear.length === 2 && sear[0].seconds === 120 && sear[1].seconds === 30, 'Should use the lower bound of ranges');
+
+  console.assert(findStepDurations('Roast for 1 1/2 hours.')[0]?.seconds === 5400, 'Should read mixed fractions');
+  console.assert(findStepDurations('Let it rest for an hour')[0]?.seconds === 3600, 'Should read "an hour"');
+  console.assert(findStepDurations('Add 2 cups of flour and 1 tsp salt').length === 0, 'Should ignore amounts that are not times');
+
+  // Recipes generated in Spanish or French
+  const hervir = findStepDurations('Hierve durante 15 minutos y luego hornea 1 hora.');
+  console.assert(hervir.length === 2 && hervir[0].seconds === 900 && hervir[1].seconds === 3600, 'Should find Spanish minutes and hours');
+  console.assert(findStepDurations('Hornea 1 hora y 30 minutos')[0]?.seconds === 5400, 'Should combine Spanish hours and minutes');
+  console.assert(findStepDurations('Dora de 2 a 3 minutos por lado')[0]?.seconds === 120, 'Should read Spanish ranges');
+  console.assert(findStepDurations('Deja reposar una hora')[0]?.seconds === 3600, 'Should read "una hora"');
+  console.assert(findStepDurations('Laisser mijoter 1 heure et 15 minutes.')[0]?.seconds === 4500, 'Should find French durations');
+
+  console.assert(formatCountdown(75) === '1:15', 'Should format minutes and seconds');
+  console.assert(formatCountdown(3725) === '1:02:05', 'Should format hours');
+
+  console.log('✓ findStepDurations tests passed');
+}
+
+function testParseVoiceCommand() {
+  console.log('Testing parseVoiceCommand...');
+
+  console.assert(parseVoiceCommand('Next step') === 'next', 'Should recognise next');
+  console.assert(parseVoiceCommand('go back') === 'previous', 'Should recognise back');
+  console.assert(parseVoiceCommand('can you repeat that') === 'repeat', 'Should recognise repeat');
+  console.assert(parseVoiceCommand('start the timer') === 'timer', 'Should recognise timers');
+  console.assert(parseVoiceCommand('Exit.') === 'exit', 'Should recognise exit');
+  console.assert(parseVoiceCommand('the onions smell great') === null, 'Should ignore other speech');
+
+  // Commands are matched in the recipe's language, accents or not
+  console.assert(parseVoiceCommand('Siguiente paso', 'es') === 'next', 'Should recognise Spanish next');
+  console.assert(parseVoiceCommand('atrás', 'es') === 'previous', 'Should recognise Spanish back');
+  console.assert(parseVoiceCommand('pon el temporizador', 'es') === 'timer', 'Should recognise Spanish timers');
+  console.assert(parseVoiceCommand('¿Qué dijiste?', 'es') === 'repeat', 'Should recognise Spanish repeat');
+  console.assert(parseVoiceCommand('Précédent', 'fr') === 'previous', 'Should recognise French back');
+  console.assert(parseVoiceCommand('lance le minuteur', 'fr') === 'timer', 'Should recognise French timers');
+  console.assert(parseVoiceCommand('siguiente') === null, 'Should only match the given language');
+
+  console.log('✓ parseVoiceCommand tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running cook mode tests...');
+  testFindStepDurations();
+  testParseVoiceCommand();
+  console.log('✅ All tests completed');
+}
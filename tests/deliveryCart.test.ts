@@ -0,0 +1,79 @@
+/**
+ * Tests for the delivery cart builder and the mock delivery provider
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { DeliveryProduct } from '../src/types/delivery';
+import { buildCart } from '../src/lib/delivery/cart';
+import { MockDeliveryProvider } from '../src/lib/delivery/mockProvider';
+
+const CATALOG: DeliveryProduct[] = [
+  { sku: 'cheddar-200g', name: 'cheddar cheese', aliases: ['cheese'], size: { quantity: 200, unit: 'g' }, price: 3.5 },
+  { sku: 'cheddar-400g', name: 'cheddar cheese', aliases: ['cheese'], size: { quantity: 400, unit: 'g' }, price: 6 },
+  { sku: 'eggs-6', name: 'eggs', aliases: ['egg'], size: { quantity: 6, unit: '' }, price: 2.7 },
+  { sku: 'eggs-12', name: 'eggs', aliases: ['egg'], size: { quantity: 12, unit: '' }, price: 4.5 },
+  { sku: 'flour-1kg', name: 'all-purpose flour', aliases: ['flour'], size: { quantity: 1, unit: 'kg' }, price: 2.5 },
+  { sku: 'salt-500g', name: 'sea salt', aliases: ['salt'], size: { quantity: 500, unit: 'g' }, price: 1.5 }
+];
+
+// Test rounding ingredients up to packs
+function testPackRounding() {
+  console.log('Testing pack rounding...');
+
+  const cart = buildCart(
+    [
+      { name: 'cheddar cheese, grated', quantity: '150', unit: 'g' },
+      { name: 'large eggs', quantity: '4', unit: '' },
+      { name: 'egg yolks', quantity: '4', unit: '' },
+      { name: 'flour', quantity: '10', unit: 'cups' },
+      { name: 'salt', quantity: '', unit: 'to taste' },
+      { name: 'saffron', quantity: '1', unit: 'pinch' }
+    ],
+    CATALOG
+  );
+  const line = (sku: string) => cart.lines.find(cartLine => cartLine.sku === sku);
+
+  console.assert(line('cheddar-200g')?.packs === 1, '150 g cheese should round up to one 200 g pack');
+  console.assert(line('eggs-12')?.packs === 1, 'A dozen is cheaper than two half dozens');
+  console.assert(line('eggs-12')?.neededFor.join(', ') === '4 eggs, 4 egg yolks', 'Ingredients buying the same product should share a line');
+  console.assert(line('flour-1kg')?.packs === 2, 'Cups of flour should be weighed through its density');
+  console.assert(line('salt-500g')?.packs === 1, 'Unmeasured amounts should take one pack');
+  console.assert(cart.unmatched[0] === 'saffron', 'Ingredients without a product should be unmatched');
+  console.assert(cart.total === 3.5 + 4.5 + 5 + 1.5, 'The total should add up every line');
+
+  console.log('✅ Pack rounding tests passed');
+}
+
+// Test simulated substitutions and failures
+async function testMockOrders() {
+  console.log('Testing mock delivery orders...');
+
+  const provider = new MockDeliveryProvider([
+    { ...CATALOG[0], outOfStock: true, substituteSku: 'cheddar-400g' },
+    CATALOG[1],
+    { ...CATALOG[3], outOfStock: true }
+  ]);
+
+  const order = await provider.submitOrder([{ sku: 'cheddar-200g', packs: 1 }, { sku: 'eggs-12', packs: 1 }]);
+  console.assert(order.status === 'confirmed' && !!order.orderId, 'Orders with something in stock should be confirmed');
+  console.assert(order.substitutions[0]?.replacementSku === 'cheddar-400g', 'Out of stock products should be substituted');
+  console.assert(order.outOfStock[0]?.sku === 'eggs-12', 'Products without a substitute should be dropped');
+  console.assert(order.total === 6, 'The total should use the substitute price');
+
+  const failed = await provider.submitOrder([{ sku: 'eggs-12', packs: 2 }]);
+  console.assert(failed.status === 'failed' && !failed.orderId, 'Orders with nothing in stock should fail');
+
+  let rejected = false;
+  await provider.submitOrder([{ sku: 'unknown', packs: 1 }]).catch(() => { rejected = true; });
+  console.assert(rejected, 'Unknown products should be rejected');
+
+  console.log('✅ Mock delivery order tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running delivery cart tests...');
+  testPackRounding();
+  testMockOrders().then(() => console.log('✅ All tests completed'));
+}
@@ -0,0 +1,73 @@
+/**
+ * Tests for reading dish candidates from model output
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { parseDishCandidates } from '../src/lib/dishIdentification';
+
+function testConfidence() {
+  console.log('Testing confidence normalization...');
+
+  const candidates = parseDishCandidates(JSON.stringify({
+    candidates: [
+      { name: 'Tacos', confidence: 70, components: ['corn tortilla'] },
+      { name: 'Burrito', confidence: '0.2' },
+      { name: 'Nachos', confidence: -1 },
+      { name: 'Quesadilla', confidence: 'very likely' },
+      { name: 'Enchiladas', confidence: 250 }
+    ]
+  }), 5);
+
+  const byName = Object.fromEntries(candidates.map(candidate => [candidate.name, candidate.confidence]));
+  console.assert(byName.Tacos === 0.7, 'Percentages should become fractions');
+  console.assert(byName.Burrito === 0.2, 'Numeric strings should be read');
+  console.assert(byName.Nachos === 0 && byName.Quesadilla === 0, 'Negative and unreadable confidences should be 0');
+  console.assert(byName.Enchiladas === 1, 'Confidences should not go above 1');
+
+  console.log('✓ Confidence normalization tests passed');
+}
+
+function testOrderAndLimit() {
+  console.log('Testing sorting and limits...');
+
+  const content = JSON.stringify({
+    candidates: [
+      { name: 'Pad Thai', confidence: 0.1 },
+      { name: 'Ramen', confidence: 0.6, components: ['soft egg', ' noodles ', '', 3] },
+      { name: 'Pho', confidence: 0.3 }
+    ]
+  });
+
+  const candidates = parseDishCandidates(content, 2);
+  console.assert(candidates.length === 2, 'Should return at most maxCandidates');
+  console.assert(candidates[0].name === 'Ramen' && candidates[1].name === 'Pho', 'Should sort by confidence, highest first');
+  console.assert(candidates[0].components.join('|') === 'soft egg|noodles', 'Should keep only non-empty string components, trimmed');
+  console.assert(candidates[1].components.length === 0, 'Missing components should be an empty list');
+
+  console.log('✓ Sorting and limit tests passed');
+}
+
+function testMalformedOutput() {
+  console.log('Testing malformed output...');
+
+  console.assert(parseDishCandidates('I think this is lasagna.', 3).length === 0, 'Prose should give no candidates');
+  console.assert(parseDishCandidates('{"candidates": [{"name": "Lasagna"', 3).length === 0, 'Truncated JSON should give no candidates');
+  console.assert(parseDishCandidates('{"candidates": "Lasagna"}', 3).length === 0, 'A non-list should give no candidates');
+  console.assert(parseDishCandidates('{"dish": "Lasagna"}', 3).length === 0, 'A missing list should give no candidates');
+
+  const mixed = parseDishCandidates('[{"name": "  "}, null, "Lasagna", {"confidence": 0.9}, {"name": " Lasagna ", "confidence": 0.9}]', 3);
+  console.assert(mixed.length === 1 && mixed[0].name === 'Lasagna', 'Entries without a name should be skipped');
+
+  const fenced = parseDishCandidates('Here you go:\n```json\n{"candidates": [{"name": "Paella", "confidence": 0.8}]}\n```', 3);
+  console.assert(fenced.length === 1 && fenced[0].name === 'Paella', 'JSON inside markdown should be read');
+
+  console.log('✓ Malformed output tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running dish identification tests...');
+  testConfidence();
+  testOrderAndLimit();
+  testMalformedOutput();
+  console.log('✅ All tests completed');
+}
@@ -0,0 +1,48 @@
+/**
+ * Tests for locale detection, translation and locale-aware generation
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { localizeNumbers, parseLocale, translate } from '../src/lib/i18n';
+import { generateRecipePrompt } from '../src/lib/recipeGeneration';
+
+function testParseLocale() {
+  console.log('Testing parseLocale...');
+
+  console.assert(parseLocale('es-MX') === 'es', 'Should match the language of a regional tag');
+  console.assert(parseLocale('FR') === 'fr', 'Should ignore case');
+  console.assert(parseLocale('de') === 'en', 'Should fall back to English');
+  console.assert(parseLocale(undefined) === 'en', 'Should default to English');
+
+  console.log('✓ parseLocale tests passed');
+}
+
+function testTranslate() {
+  console.log('Testing translate...');
+
+  console.assert(translate('es', 'recipe.step', { number: 2 }) === 'Paso 2', 'Should fill in placeholders');
+  console.assert(translate('en', 'recipe.servings', { count: 1 }) === '1 serving', 'Should use the singular form');
+  console.assert(translate('fr', 'recipe.servings', { count: 4 }) === '4 portions', 'Should use the plural form');
+  console.assert(/^1\s500 /.test(translate('fr', 'recipe.servings', { count: 1500 })), 'Should group digits for the locale');
+  console.assert(localizeNumbers('1.5 kg', 'fr') === '1,5 kg', 'Should localize decimals');
+  console.assert(localizeNumbers('1 1/2', 'es') === '1 1/2', 'Should leave fractions alone');
+
+  console.log('✓ translate tests passed');
+}
+
+function testRecipePrompt() {
+  console.log('Testing localized recipe prompt...');
+
+  console.assert(generateRecipePrompt('metric', 1, undefined, 'es').includes('in Spanish'), 'Should ask for the chosen language');
+  console.assert(!generateRecipePrompt('metric', 1).includes('Spanish'), 'Should not mention a language for English');
+
+  console.log('✓ localized recipe prompt tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running i18n tests...');
+  testParseLocale();
+  testTranslate();
+  testRecipePrompt();
+  console.log('✅ All tests completed');
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for image validation shared by the upload form and the API
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { MAX_IMAGE_BYTES, validateImageBytes } from '../src/utils/imageValidation';
+import { RecipeRequestError, getRequestImages } from '../src/lib/recipeGeneration';
+
+function png(width: number, height: number, complete = true): Uint8Array {
+  const bytes = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  const uint32 = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  const chunk = (type: string, data: number[]) => [...uint32(data.length), ...Buffer.from(type), ...data, 0, 0, 0, 0];
+  bytes.push(...chunk('IHDR', [...uint32(width), ...uint32(height), 8, 2, 0, 0, 0]));
+  bytes.push(...chunk('IDAT', [1, 2, 3]));
+  if (complete) bytes.push(...chunk('IEND', []));
+  return new Uint8Array(bytes);
+}
+
+function jpeg(width: number, height: number, complete = true): Uint8Array {
+  const bytes = [
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00,
+    0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0x56
+  ];
+  if (complete) bytes.push(0xff, 0xd9);
+  return new Uint8Array(bytes);
+}
+
+function testValidateImageBytes() {
+  console.log('Testing validateImageBytes...');
+
+  const photo = validateImageBytes(jpeg(640, 480));
+  console.assert(photo.valid && photo.image.mimeType === 'image/jpeg' && photo.image.width === 640 && photo.image.height === 480, 'Should read JPEG dimensions');
+
+  const screenshot = validateImageBytes(png(800, 600));
+  console.assert(screenshot.valid && screenshot.image.mimeType === 'image/png' && screenshot.image.width === 800, 'Should read PNG dimensions');
+
+  const webp = new Uint8Array(30);
+  webp.set(Buffer.from('RIFF'), 0);
+  webp.set([22, 0, 0, 0], 4);
+  webp.set(Buffer.from('WEBPVP8X'), 8);
+  webp.set([0x3f, 0x01, 0x00, 0xef, 0x00, 0x00], 24);
+  const webpResult = validateImageBytes(webp);
+  console.assert(webpResult.valid && webpResult.image.width === 320 && webpResult.image.height === 240, 'Should read WebP dimensions');
+
+  const invalid = (bytes: Uint8Array) => {
+    const result = validateImageBytes(bytes);
+    return result.valid ? null : result.code;
+  };
+  console.assert(invalid(new Uint8Array(Buffer.from('hello world, not a photo'))) === 'not-an-image', 'Should reject non-images');
+  console.assert(invalid(new Uint8Array(Buffer.from('GIF89a......'))) === 'unsupported-type', 'Should name unsupported formats');
+  console.assert(invalid(jpeg(640, 480, false)) === 'corrupt', 'Should reject truncated JPEGs');
+  console.assert(invalid(png(800, 600, false)) === 'corrupt', 'Should reject truncated PNGs');
+  console.assert(invalid(png(16, 16)) === 'bad-dimensions', 'Should reject tiny images');
+  console.assert(invalid(png(9000, 100)) === 'bad-dimensions', 'Should reject huge images');
+  console.assert(invalid(new Uint8Array(MAX_IMAGE_BYTES + 1)) === 'too-large', 'Should reject oversized files');
+
+  console.log('✓ validateImageBytes tests passed');
+}
+
+function testGetRequestImages() {
+  console.log('Testing getRequestImages...');
+
+  const base64 = Buffer.from(png(800, 600)).toString('base64');
+  const [image] = getRequestImages({ imageBase64: `data:image/jpeg;base64,${base64}` });
+  console.assert(image.base64 === base64 && image.mimeType === 'image/png', 'Should strip data URLs and use the sniffed type');
+
+  const status = (images: string[]) => {
+    try {
+      getRequestImages({ images });
+      return 200;
+    } catch (error) {
+      return error instanceof RecipeRequestError ? error.status : 500;
+    }
+  };
+  console.assert(status([base64, 'not base64!']) === 400, 'Should reject invalid base64');
+  console.assert(status([Buffer.from('plain text').toString('base64')]) === 415, 'Should reject non-images');
+  console.assert(status([Buffer.from(jpeg(640, 480, false)).toString('base64')]) === 422, 'Should reject corrupt images');
+
+  console.log('✓ getRequestImages tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running image validation tests...');
+  testValidateImageBytes();
+  testGetRequestImages();
+  console.log('✅ All tests completed');
+}
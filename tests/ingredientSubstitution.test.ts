@@ -0,0 +1,98 @@
+/**
+ * Tests for rule-based recipe adaptation
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { Recipe } from '../src/types/recipe';
+import { adaptRecipeWithRules, findSubstitution, mentionsIngredient } from '../src/utils/ingredientSubstitution';
+
+const RECIPE: Recipe = {
+  title: 'Creamy Chicken Pasta',
+  ingredients: [
+    { name: 'chicken breasts, diced', quantity: '2', unit: '' },
+    { name: 'spaghetti', quantity: '8', unit: 'oz' },
+    { name: 'chicken stock', quantity: '1', unit: 'cup' },
+    { name: 'heavy cream', quantity: '1/2', unit: 'cup' },
+    { name: 'peanut butter', quantity: '1', unit: 'tbsp' },
+    { name: 'fresh basil', quantity: '3', unit: 'tbsp' },
+    { name: 'saffron', quantity: '1', unit: 'pinch' }
+  ],
+  instructions: [
+    'Brown the chicken in a large pan.',
+    'Add the chicken stock and heavy cream and simmer for 10 minutes.',
+    'Toss with the spaghetti and basil.'
+  ],
+  servings: 4
+};
+
+// Test dietary substitutions
+function testDietarySubstitutions() {
+  console.log('Testing dietary substitutions...');
+
+  const vegan = adaptRecipeWithRules(RECIPE, ['vegan']);
+  const names = vegan.recipe.ingredients.map(ingredient => ingredient.name);
+  console.assert(names[0] === 'extra-firm tofu', 'Chicken should be swapped for tofu');
+  console.assert(names[2] === 'vegetable stock', 'Chicken stock should become vegetable stock, not tofu');
+  console.assert(names[3] === 'coconut cream', 'Cream should be swapped for a dairy-free cream');
+  console.assert(names[4] === 'peanut butter', 'Peanut butter is not dairy and should be kept');
+  console.assert(vegan.substitutions.length === 3, 'Only conflicting ingredients should be swapped');
+  console.assert(vegan.recipe.ingredients[2].quantity === '1' && vegan.recipe.ingredients[2].unit === 'cup', 'Amounts should be kept');
+
+  console.assert(
+    vegan.recipe.instructions[1] === 'Add the vegetable stock and coconut cream and simmer for 10 minutes.',
+    'Longer names should be replaced before shorter ones in the steps'
+  );
+  console.assert(vegan.recipe.instructions[0] === 'Brown the extra-firm tofu in a large pan.', 'Steps should use the substitute');
+  console.assert(vegan.instructionChanges.length === 2, 'Unchanged steps should not be reported');
+
+  // Seitan replaces beef but is wheat, so the second constraint swaps it again
+  const steak = findSubstitution({ name: 'beef steak', quantity: '1', unit: 'lb' }, ['vegan', 'gluten-free']);
+  console.assert(steak?.replacement?.name === 'extra-firm tofu', 'Substitutes should satisfy every constraint');
+
+  const soy = findSubstitution({ name: 'soy sauce', quantity: '2', unit: 'tbsp' }, ['gluten-free', 'low-sodium']);
+  console.assert(soy?.replacement?.name === 'low-sodium tamari', 'Constraints should combine');
+
+  console.assert(findSubstitution({ name: 'olive oil', quantity: '1', unit: 'tbsp' }, ['vegan']) === undefined, 'Compatible ingredients should be left alone');
+
+  const noodles = findSubstitution({ name: 'egg noodles', quantity: '200', unit: 'g' }, ['vegan']);
+  console.assert(noodles?.replacement?.name === 'egg-free noodles', 'Egg noodles should stay noodles');
+  const glutenFreeNoodles = findSubstitution({ name: 'egg noodles', quantity: '200', unit: 'g' }, ['vegan', 'gluten-free']);
+  console.assert(glutenFreeNoodles?.replacement?.name === 'gluten-free egg-free noodles', 'Egg noodles should also lose their gluten');
+
+  console.log('✅ Dietary substitution tests passed');
+}
+
+// Test "I don't have X"
+function testUnavailableIngredients() {
+  console.log('Testing unavailable ingredients...');
+
+  console.assert(mentionsIngredient('large eggs', 'egg'), 'Singular terms should match plural names');
+  console.assert(!mentionsIngredient('eggplant', 'egg'), 'Terms should match whole words only');
+
+  const adapted = adaptRecipeWithRules(RECIPE, [], ['basil', 'saffron', 'truffle']);
+  const basil = adapted.recipe.ingredients.find(ingredient => ingredient.name === 'dried basil');
+  console.assert(basil?.quantity === '1', 'Dried herbs should use a third of the fresh amount');
+
+  const saffron = adapted.substitutions.find(substitution => substitution.original.name === 'saffron');
+  console.assert(saffron?.replacement === null && saffron.ingredientIndex === undefined, 'Ingredients without a substitute should be left out');
+  console.assert(adapted.recipe.ingredients.length === RECIPE.ingredients.length - 1, 'Left out ingredients should be removed');
+  console.assert(adapted.notes.some(note => note.includes('"truffle"')), 'Terms that match nothing should be reported');
+
+  const dairyFree = adaptRecipeWithRules(
+    { ...RECIPE, ingredients: [{ name: 'buttermilk', quantity: '1', unit: 'cup' }], instructions: ['Add the buttermilk.'] },
+    ['dairy-free'],
+    ['buttermilk']
+  );
+  console.assert(dairyFree.recipe.ingredients[0].name.startsWith('oat milk'), 'Missing ingredients should still respect the diet');
+
+  console.log('✅ Unavailable ingredient tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running ingredient substitution tests...');
+  testDietarySubstitutions();
+  testUnavailableIngredients();
+  console.log('✅ All tests completed');
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for recipe interchange formats
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { gzipSync } from 'zlib';
+import { Recipe } from '../src/types/recipe';
+import { exportRecipe, importRecipes, RecipeImportError } from '../src/lib/interchange';
+import { parseCooklang } from '../src/lib/interchange/cooklang';
+import { parseSchemaOrgRecipes } from '../src/lib/interchange/schemaOrg';
+import { createZipArchive, readZipArchive } from '../src/lib/interchange/zipArchive';
+import { parseDurationText, parseIsoDuration, toIsoDuration } from '../src/utils/durationUtils';
+import { parseIngredientLine } from '../src/utils/unitConversion';
+
+const recipe: Recipe = {
+  title: 'Tomato Soup',
+  description: 'A quick weeknight soup',
+  ingredients: [
+    { name: 'olive oil', quantity: '2', unit: 'tablespoons' },
+    { name: 'onion', quantity: '1', unit: '' },
+    { name: 'canned tomatoes', quantity: '800', unit: 'g' },
+    { name: 'vegetable stock', quantity: '2', unit: 'cups (500ml)' },
+    { name: 'salt', quantity: '', unit: '' }
+  ],
+  instructions: [
+    'Warm the olive oil in a large pot and soften the onion for 5 minutes.',
+    'Add the canned tomatoes and vegetable stock, then simmer for 20 minutes.',
+    'Blend until smooth and season to taste.'
+  ],
+  cookingTime: 90,
+  servings: 4
+};
+
+function decode(content: Uint8Array): string {
+  return new TextDecoder().decode(content);
+}
+
+function sortedIngredients(value: Recipe): string {
+  return JSON.stringify([...value.ingredients].sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+function assertSameRecipe(actual: Recipe, format: string, options: { ingredientOrder?: boolean } = {}) {
+  console.assert(actual.title === recipe.title, `${format}: title should round-trip`);
+  console.assert(actual.description === recipe.description, `${format}: description should round-trip`);
+  console.assert(actual.servings === recipe.servings, `${format}: servings should round-trip`);
+  console.assert(actual.cookingTime === recipe.cookingTime, `${format}: cooking time should round-trip`);
+  console.assert(
+    JSON.stringify(actual.instructions) === JSON.stringify(recipe.instructions),
+    `${format}: instructions should round-trip`
+  );
+  console.assert(
+    options.ingredientOrder === false
+      ? sortedIngredients(actual) === sortedIngredients(recipe)
+      : JSON.stringify(actual.ingredients) === JSON.stringify(recipe.ingredients),
+    `${format}: ingredients should round-trip`
+  );
+}
+
+// Test helpers shared by the formats
+function testHelpers() {
+  console.log('Testing interchange helpers...');
+
+  console.assert(parseIsoDuration('PT1H30M') === 90, 'ISO durations should be read as minutes');
+  console.assert(toIsoDuration(90) === 'PT1H30M', 'Minutes should be written as ISO durations');
+  console.assert(parseDurationText('1 hr 30 mins') === 90, 'Text durations should be read as minutes');
+  console.assert(parseDurationText('45') === 45, 'Bare numbers should be read as minutes');
+
+  const milk = parseIngredientLine('1 1/2 cups (350ml) whole milk');
+  console.assert(milk.quantity === '1 1/2' && milk.unit === 'cups (350ml)' && milk.name === 'whole milk', 'Lines should split into fields');
+  const cream = parseIngredientLine('8 fl oz heavy cream');
+  console.assert(cream.unit === 'fl oz' && cream.name === 'heavy cream', 'Two-word units should be recognised');
+  console.assert(parseIngredientLine('2 eggs').name === 'eggs', 'Counted items should keep their name');
+
+  console.log('✅ Interchange helper tests passed');
+}
+
+// Test schema.org JSON-LD
+function testSchemaOrg() {
+  console.log('Testing schema.org JSON-LD...');
+
+  const exported = exportRecipe(recipe, 'json-ld');
+  console.assert(exported.fileName === 'tomato-soup.jsonld', 'JSON-LD files should use the .jsonld extension');
+  assertSameRecipe(importRecipes(exported.fileName, exported.content)[0], 'JSON-LD');
+
+  const html = `<html><head><script type="application/ld+json">${JSON.stringify({
+    '@context': 'https://schema.org',
+    '@graph': [
+      { '@type': 'WebPage', name: 'Blog' },
+      {
+        '@type': ['Recipe'],
+        name: 'Pancakes',
+        recipeYield: ['8', '8 pancakes'],
+        cookTime: 'PT20M',
+        recipeIngredient: ['2 cups flour', '2 eggs'],
+        recipeInstructions: [{ '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', text: 'Mix.' }, 'Fry.'] }]
+      }
+    ]
+  })}</script></head></html>`;
+  const [pancakes] = parseSchemaOrgRecipes(html);
+  console.assert(pancakes.title === 'Pancakes' && pancakes.servings === 8, 'Recipes in @graph should be found');
+  console.assert(pancakes.cookingTime === 20, 'cookTime should be used without totalTime');
+  console.assert(pancakes.instructions.join(' ') === 'Mix. Fry.', 'HowToSections should be flattened');
+
+  console.log('✅ schema.org JSON-LD tests passed');
+}
+
+// Test Cooklang
+function testCooklang() {
+  console.log('Testing Cooklang...');
+
+  const exported = exportRecipe(recipe, 'cooklang');
+  const text = decode(exported.content);
+  console.assert(text.includes('@olive oil{2%tablespoons}'), 'Ingredients should be marked up where they are mentioned');
+  console.assert(text.includes('Ingredients: @salt{}'), 'Unmentioned ingredients should be listed up front');
+  assertSameRecipe(importRecipes(exported.fileName, exported.content)[0], 'Cooklang', { ingredientOrder: false });
+
+  const parsed = parseCooklang([
+    '---',
+    'title: Eggs',
+    'servings: 2 people',
+    '---',
+    '-- a comment',
+    'Crack @eggs{3} into a #frying pan{} and cook for ~{4%minutes}.',
+    '',
+    '> Best with toast',
+    'Season with @salt and @black pepper{}(freshly ground).'
+  ].join('\n'));
+  console.assert(parsed.title === 'Eggs' && parsed.servings === 2, 'Front matter should be read');
+  console.assert(parsed.instructions[0] === 'Crack eggs into a frying pan and cook for 4 minutes.', 'Markup should become plain text');
+  console.assert(parsed.ingredients.length === 3 && parsed.ingredients[0].quantity === '3', 'Ingredients should be collected');
+  console.assert(parsed.ingredients[2].name === 'black pepper, freshly ground', 'Ingredient notes should be kept');
+  console.assert(parsed.description === 'Best with toast', 'Notes should become the description');
+
+  console.log('✅ Cooklang tests passed');
+}
+
+// Test Paprika
+function testPaprika() {
+  console.log('Testing Paprika...');
+
+  const exported = exportRecipe(recipe, 'paprika');
+  console.assert(exported.content[0] === 0x50 && exported.content[1] === 0x4b, 'Paprika exports should be zip archives');
+  assertSameRecipe(importRecipes('export.zip', exported.content)[0], 'Paprika');
+
+  // Archives from Paprika hold one gzipped JSON file per recipe
+  const archive = createZipArchive(['Soup', 'Bread'].map(name => ({
+    name: `${name}.paprikarecipe`,
+    data: new Uint8Array(gzipSync(JSON.stringify({
+      name,
+      ingredients: 'For the dough:\n500 g flour\n\n1 tsp salt',
+      directions: 'Mix everything.\nBake.',
+      servings: '6 slices',
+      cook_time: '1 hr'
+    })))
+  })));
+  const imported = importRecipes('My Recipes.paprikarecipes', archive);
+  console.assert(imported.length === 2 && imported[1].title === 'Bread', 'Every recipe in the archive should be read');
+  console.assert(imported[0].ingredients.length === 2, 'Section headings and blank lines should be skipped');
+  console.assert(imported[0].servings === 6 && imported[0].cookingTime === 60, 'Servings and times should be parsed');
+
+  console.log('✅ Paprika tests passed');
+}
+
+// Test that archives cannot unpack to more than the import budget
+function testArchiveLimits() {
+  console.log('Testing archive limits...');
+
+  const importError = (run: () => unknown): unknown => {
+    try {
+      run();
+    } catch (error) {
+      return error;
+    }
+    return null;
+  };
+
+  // 60MB of zeros gzips to about 60KB
+  const bomb = new Uint8Array(gzipSync(Buffer.alloc(60 * 1024 * 1024)));
+  const gzipError = importError(() => importRecipes('bomb.paprikarecipe', bomb));
+  console.assert(gzipError instanceof RecipeImportError, 'A gzip bomb should be rejected');
+  console.assert((gzipError as Error).message.includes('50MB'), 'The error should name the limit');
+
+  // The budget covers all entries together, not each one on its own
+  const padded = Buffer.concat([Buffer.alloc(30 * 1024 * 1024, ' '), Buffer.from(JSON.stringify({ name: 'Soup' }))]);
+  const halfBomb = new Uint8Array(gzipSync(padded));
+  console.assert(importRecipes('soup.paprikarecipe', halfBomb)[0].title === 'Soup', 'One entry under the budget should be read');
+  const archive = createZipArchive([1, 2].map(index => ({ name: `${index}.paprikarecipe`, data: halfBomb })));
+  const archiveError = importError(() => importRecipes('bombs.paprikarecipes', archive));
+  console.assert(archiveError instanceof RecipeImportError, 'Entries should share one budget');
+
+  const entries = Array.from({ length: 5 }, (_, index) => ({ name: `${index}.txt`, data: new Uint8Array(100) }));
+  console.assert(readZipArchive(createZipArchive(entries)).length === 5, 'Small archives should be read');
+  console.assert(importError(() => readZipArchive(createZipArchive(entries), { maxEntries: 4, maxTotalBytes: 1000 })) instanceof RecipeImportError, 'Too many entries should be rejected');
+  console.assert(importError(() => readZipArchive(createZipArchive(entries), { maxEntries: 5, maxTotalBytes: 450 })) instanceof RecipeImportError, 'Stored entries should count towards the budget');
+
+  console.log('✅ Archive limit tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running interchange tests...');
+  testHelpers();
+  testSchemaOrg();
+  testCooklang();
+  testPaprika();
+  testArchiveLimits();
+  console.log('✅ All tests completed');
+}
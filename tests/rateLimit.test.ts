@@ -0,0 +1,91 @@
+/**
+ * Tests for per-client rate limiting and daily token quotas
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { RecipeVisionProvider } from '../src/lib/vision';
+import { ANONYMOUS_CLIENT_ID, checkRateLimit, getClientId, trackUsage } from '../src/lib/rateLimit';
+import { MemoryRateLimitStore } from '../src/lib/rateLimit/memoryStore';
+import { takeToken } from '../src/lib/rateLimit/tokenBucket';
+
+const NOON = Date.UTC(2024, 4, 31, 12, 0, 0);
+const BEHIND_PROXY = { apiKeys: ['secret'], trustProxy: true };
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/generate-recipe', { method: 'POST', headers });
+}
+
+function testTokenBucket() {
+  console.log('Testing takeToken...');
+
+  const limit = { capacity: 2, refillPerMinute: 6 };
+  const first = takeToken(undefined, limit, NOON);
+  const second = takeToken(first.state, limit, NOON);
+  const third = takeToken(second.state, limit, NOON);
+  console.assert(first.allowed && second.allowed, 'Should allow a full burst');
+  console.assert(!third.allowed && third.retryAfterSeconds === 10, 'Should refuse until a token has refilled');
+  console.assert(takeToken(third.state, limit, NOON + 10000).allowed, 'Should allow again after the refill');
+
+  console.log('✓ takeToken tests passed');
+}
+
+function testClientId() {
+  console.log('Testing getClientId...');
+
+  console.assert(getClientId(request({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1' }), BEHIND_PROXY) === 'ip:1.2.3.4', 'Should use the first forwarded IP');
+  const keyed = getClientId(request({ 'x-api-key': 'secret', 'x-forwarded-for': '1.2.3.4' }), BEHIND_PROXY);
+  console.assert(keyed.startsWith('key:') && !keyed.includes('secret'), 'Should prefer a hashed API key');
+  console.assert(getClientId(request({ authorization: 'Bearer secret' }), BEHIND_PROXY) === keyed, 'Should accept bearer tokens');
+  console.assert(getClientId(request({ 'x-api-key': 'made-up', 'x-forwarded-for': '1.2.3.4' }), BEHIND_PROXY) === 'ip:1.2.3.4', 'Should ignore unknown keys');
+
+  const direct = { apiKeys: [], trustProxy: false };
+  console.assert(getClientId(request({ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '5.6.7.8' }), direct) === 'ip:unknown', 'Should ignore forwarding headers without a trusted proxy');
+  console.assert(getClientId(request({}), BEHIND_PROXY) === ANONYMOUS_CLIENT_ID, 'Should count requests without an address as anonymous');
+
+  console.log('✓ getClientId tests passed');
+}
+
+async function testLimits() {
+  console.log('Testing checkRateLimit...');
+
+  const store = new MemoryRateLimitStore();
+  const config = { burst: 1, perMinute: 1, dailyTokenQuota: 1000, anonymous: { burst: 2, perMinute: 1, dailyTokenQuota: 1000 }, ...BEHIND_PROXY };
+  const client = request({ 'x-forwarded-for': '1.2.3.4' });
+
+  console.assert((await checkRateLimit(client, store, config, NOON)).allowed, 'Should allow the first request');
+  const limited = await checkRateLimit(client, store, config, NOON + 1000);
+  console.assert(!limited.allowed && limited.details.reason === 'rate' && limited.details.retryAfterSeconds === 59, 'Should limit the request rate');
+  console.assert((await checkRateLimit(request({ 'x-forwarded-for': '5.6.7.8' }), store, config, NOON + 1000)).allowed, 'Should limit clients separately');
+
+  // Random keys and spoofed forwarding headers all land in the one anonymous bucket, which has its own limits
+  const direct = { ...config, trustProxy: false };
+  console.assert((await checkRateLimit(request({ 'x-api-key': 'random-1', 'x-forwarded-for': '9.9.9.1' }), store, direct, NOON)).allowed, 'Should allow the first anonymous request');
+  console.assert((await checkRateLimit(request({}), store, direct, NOON)).allowed, 'Should use the anonymous burst');
+  const spoofed = await checkRateLimit(request({ 'x-api-key': 'random-2', 'x-forwarded-for': '9.9.9.2' }), store, direct, NOON + 1000);
+  console.assert(!spoofed.allowed && spoofed.clientId === 'ip:unknown', 'Should not give a fresh bucket for a new key or address');
+  const unknownKey = await checkRateLimit(request({ authorization: 'Bearer random-3' }), store, direct, NOON + 1000);
+  console.assert(!unknownKey.allowed, 'Should count unknown bearer tokens as anonymous');
+
+  const provider: RecipeVisionProvider = {
+    name: 'fake',
+    async complete() {
+      return { content: '{}', usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200 } };
+    },
+    async *stream() {
+      yield { text: '{}', usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200 } };
+    }
+  };
+  await trackUsage(provider, 'ip:1.2.3.4', store).complete({ task: 'generate-recipe', prompt: '' });
+
+  const overQuota = await checkRateLimit(client, store, config, Date.now());
+  console.assert(!overQuota.allowed && overQuota.details.reason === 'quota', 'Should refuse clients over their daily quota');
+
+  console.log('✓ checkRateLimit tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running rate limit tests...');
+  testTokenBucket();
+  testClientId();
+  testLimits().then(() => console.log('✅ All tests completed'));
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for the generated recipe cache
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { RecipeGenerationResult } from '../src/lib/recipeGeneration';
+import { readRecipeCache, recipeCacheKey, writeRecipeCache } from '../src/lib/cache';
+import { MemoryRecipeCacheStore } from '../src/lib/cache/memoryStore';
+import { parseMeasurementProfile } from '../src/utils/unitUtils';
+
+const IMAGE = Buffer.from('not really a photo').toString('base64');
+
+function result(title: string, source: RecipeGenerationResult['source'] = 'model'): RecipeGenerationResult {
+  return {
+    recipe: { title, description: '', ingredients: [], instructions: ['Cook'], cookingTime: 10, servings: 2 },
+    source,
+    issues: []
+  };
+}
+
+function testRecipeCacheKey() {
+  console.log('Testing recipeCacheKey...');
+
+  const key = recipeCacheKey({ images: [IMAGE], unitSystem: 'metric', provider: 'fixture' });
+  const wrapped = recipeCacheKey({
+    images: [`data:image/jpeg;base64,${IMAGE.slice(0, 8)}\n${IMAGE.slice(8)}`],
+    unitSystem: 'metric',
+    provider: 'fixture'
+  });
+  console.assert(key === wrapped, 'Should hash the decoded image bytes');
+  console.assert(key !== recipeCacheKey({ images: [IMAGE], unitSystem: 'imperial', provider: 'fixture' }), 'Should depend on the unit system');
+  console.assert(key !== recipeCacheKey({ images: [IMAGE], unitSystem: 'metric', dishHint: 'Soup', provider: 'fixture' }), 'Should depend on the dish hint');
+  console.assert(key !== recipeCacheKey({ images: [IMAGE], unitSystem: 'metric', locale: 'fr', provider: 'fixture' }), 'Should depend on the language');
+  console.assert(
+    key !== recipeCacheKey({ images: [IMAGE], unitSystem: 'metric', measurementProfile: parseMeasurementProfile({ volume: 'metric-cups' }, 'metric'), provider: 'fixture' }),
+    'Should depend on the measurement profile'
+  );
+  console.assert(key !== recipeCacheKey({ images: [IMAGE, IMAGE], unitSystem: 'metric', provider: 'fixture' }), 'Should depend on every image');
+
+  console.log('✓ recipeCacheKey tests passed');
+}
+
+async function testMemoryStore() {
+  console.log('Testing MemoryRecipeCacheStore...');
+
+  const store = new MemoryRecipeCacheStore(2);
+  await writeRecipeCache('a', result('A'), store, 1);
+  await writeRecipeCache('b', result('B'), store, 1);
+  await readRecipeCache('a', false, store);
+  await writeRecipeCache('c', result('C'), store, 1);
+
+  console.assert((await readRecipeCache('a', false, store)).status === 'HIT', 'Should keep the recently used entry');
+  console.assert((await readRecipeCache('b', false, store)).status === 'MISS', 'Should evict the least recently used entry');
+
+  const hit = await readRecipeCache('c', false, store);
+  console.assert(hit.result?.recipe.title === 'C', 'Should return the cached recipe');
+  hit.result!.recipe.title = 'Changed';
+  console.assert((await readRecipeCache('c', false, store)).result?.recipe.title === 'C', 'Should not share cached objects');
+
+  console.assert((await readRecipeCache('c', true, store)).status === 'BYPASS', 'Should skip the lookup when bypassed');
+  console.assert((await readRecipeCache('c', false, null)).status === 'OFF', 'Should report a disabled cache');
+
+  await writeRecipeCache('d', result('D', 'text-fallback'), store, 1);
+  console.assert((await readRecipeCache('d', false, store)).status === 'MISS', 'Should not cache text fallbacks');
+
+  await store.set({ key: 'e', result: result('E'), createdAt: 0, expiresAt: Date.now() - 1 });
+  console.assert((await readRecipeCache('e', false, store)).status === 'MISS', 'Should drop expired entries');
+
+  console.log('✓ MemoryRecipeCacheStore tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running recipe cache tests...');
+  testRecipeCacheKey();
+  testMemoryStore().then(() => console.log('✅ All tests completed'));
+}
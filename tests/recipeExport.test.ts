@@ -0,0 +1,82 @@
+/**
+ * Tests for recipe export formats
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { formatRecipeMarkdown, formatRecipeText, getRecipeFileName } from '../src/utils/recipeExport';
+import { encodeWinAnsi } from '../src/lib/pdf/pdfDocument';
+import { renderRecipePdf } from '../src/lib/recipePdf';
+import { Recipe } from '../src/types/recipe';
+
+const recipe: Recipe = {
+  title: 'Crème Brûlée',
+  description: 'Rich *baked* custard',
+  ingredients: [
+    { name: 'heavy cream', quantity: '2', unit: 'cups' },
+    { name: 'salt', quantity: '', unit: '' }
+  ],
+  instructions: ['Heat the cream (do not boil)', 'Bake at 325°F for 40 minutes'],
+  cookingTime: 60,
+  servings: 4,
+  unitSystem: 'imperial'
+};
+
+// Test text and Markdown output
+function testTextFormats() {
+  console.log('Testing text and Markdown export...');
+
+  const text = formatRecipeText(recipe);
+  console.assert(text.includes('• salt\n'), 'Empty quantity and unit should not leave extra spaces');
+  console.assert(text.includes('Servings: 4'), 'Details should be included');
+
+  const markdown = formatRecipeMarkdown(recipe);
+  console.assert(markdown.startsWith('# Crème Brûlée\n'), 'Title should be a level 1 heading');
+  console.assert(markdown.includes('Rich \\*baked\\* custard'), 'Markdown characters should be escaped');
+  console.assert(markdown.includes('- 2 cups heavy cream'), 'Ingredients should be a bullet list');
+  console.assert(markdown.includes('2. Bake at 325°F for 40 minutes'), 'Instructions should be numbered');
+
+  console.assert(getRecipeFileName(recipe, 'md') === 'creme-brulee.md', 'File names should be ASCII slugs');
+  console.assert(getRecipeFileName({ ...recipe, title: '???' }, 'pdf') === 'recipe.pdf', 'Empty slugs should fall back');
+
+  console.log('✅ Text and Markdown export tests passed');
+}
+
+// Test PDF output
+function testPdf() {
+  console.log('Testing PDF export...');
+
+  const encoded = encodeWinAnsi('° • ⅓ 中');
+  console.assert(
+    Array.from(encoded).join(',') === '176,32,149,32,49,47,51,32,63',
+    'Text should be encoded as WinAnsi with fallbacks'
+  );
+
+  const pdf = Buffer.from(renderRecipePdf(recipe)).toString('latin1');
+  console.assert(pdf.startsWith('%PDF-1.4'), 'PDF should start with a header');
+  console.assert(pdf.trimEnd().endsWith('%%EOF'), 'PDF should end with an EOF marker');
+  console.assert(pdf.includes('/MediaBox [0 0 612 792]'), 'Imperial recipes should use US Letter');
+  console.assert(pdf.includes('(Heat the cream \\(do not boil\\))'), 'Parentheses should be escaped');
+
+  // Every xref entry must point at the start of its object
+  const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+  const offsets = pdf.slice(xrefStart).split('\n').slice(3).filter(line => / n $/.test(line));
+  offsets.forEach((line, index) => {
+    const offset = Number(line.slice(0, 10));
+    console.assert(pdf.startsWith(`${index + 1} 0 obj`, offset), `xref offset for object ${index + 1} should be exact`);
+  });
+
+  const longRecipe = { ...recipe, instructions: Array.from({ length: 80 }, (_, i) => `Step number ${i + 1} of a very long recipe`) };
+  const longPdf = Buffer.from(renderRecipePdf(longRecipe)).toString('latin1');
+  console.assert(/\/Count [2-9]/.test(longPdf), 'Long recipes should span several pages');
+
+  console.log('✅ PDF export tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running export tests...');
+  testTextFormats();
+  testPdf();
+  console.log('✅ All tests completed');
+}
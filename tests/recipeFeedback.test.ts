@@ -0,0 +1,131 @@
+/**
+ * Tests for recipe feedback validation and aggregation
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerationRecord, RecipeFeedback } from '../src/types/feedback';
+import { FileFeedbackRepository } from '../src/lib/storage/feedbackRepository';
+import { parseFeedbackInput, summarizeFeedback } from '../src/lib/recipeFeedback';
+import { RecipeRequestError } from '../src/lib/recipeGeneration';
+
+function generation(recipeId: string, overrides: Partial<GenerationRecord> = {}): GenerationRecord {
+  return {
+    recipeId,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    title: `Recipe ${recipeId}`,
+    source: 'model',
+    provider: 'fixture',
+    imageCount: 1,
+    imageBytes: 50 * 1024,
+    dishHint: false,
+    unitSystem: 'metric',
+    instructionCount: 3,
+    issueCount: 0,
+    ...overrides
+  };
+}
+
+function feedback(recipeId: string, overrides: Partial<RecipeFeedback> = {}): RecipeFeedback {
+  return { recipeId, id: `${recipeId}-feedback`, createdAt: '2024-01-02T00:00:00.000Z', ...overrides };
+}
+
+function rejects(body: Record<string, unknown>): boolean {
+  try {
+    parseFeedbackInput(body, generation('a'));
+    return false;
+  } catch (error) {
+    return error instanceof RecipeRequestError && error.status === 400;
+  }
+}
+
+function testParseFeedbackInput() {
+  console.log('Testing parseFeedbackInput...');
+
+  const parsed = parseFeedbackInput({
+    rating: 2,
+    wrongDish: true,
+    correctDish: '  Moussaka ',
+    stepComments: [{ step: 1, comment: 'Too salty' }, { step: 2, comment: '  ' }],
+    comment: ''
+  }, generation('a'));
+  console.assert(parsed.rating === 2, 'Should keep the rating');
+  console.assert(parsed.correctDish === 'Moussaka', 'Should trim the correct dish');
+  console.assert(parsed.stepComments?.length === 1 && parsed.stepComments[0].step === 1, 'Should drop empty step comments');
+  console.assert(!('comment' in parsed), 'Should drop an empty comment');
+
+  console.assert(rejects({ rating: 6 }), 'Should reject ratings above 5');
+  console.assert(rejects({ rating: 3.5 }), 'Should reject fractional ratings');
+  console.assert(rejects({ stepComments: [{ step: 3, comment: 'x' }] }), 'Should reject steps the recipe does not have');
+  console.assert(rejects({ wrongDish: false, comment: ' ' }), 'Should reject feedback with nothing in it');
+
+  console.log('✓ parseFeedbackInput tests passed');
+}
+
+function testSummarizeFeedback() {
+  console.log('Testing summarizeFeedback...');
+
+  const generations = [
+    generation('a'),
+    generation('b', { imageCount: 3, dishHint: true }),
+    generation('c', { dishHint: true })
+  ];
+  const summary = summarizeFeedback(generations, [
+    feedback('a', { rating: 1, comment: 'Not edible' }),
+    feedback('a', { wrongDish: true, correctDish: 'Lasagna' }),
+    feedback('b', { rating: 5 })
+  ]);
+
+  console.assert(summary.overall.generations === 3, 'Should count every generation');
+  console.assert(summary.overall.reviewed === 2, 'Should count reviewed recipes once');
+  console.assert(summary.overall.averageRating === 3, 'Should average all ratings');
+
+  const dishHint = summary.dimensions.find(dimension => dimension.key === 'dishHint');
+  const unconfirmed = dishHint?.buckets.find(bucket => bucket.key === 'none');
+  const confirmed = dishHint?.buckets.find(bucket => bucket.key === 'confirmed');
+  console.assert(unconfirmed?.lowRatings === 1 && unconfirmed.wrongDish === 1, 'Should attribute bad feedback to its bucket');
+  console.assert(confirmed?.generations === 2 && confirmed.averageRating === 5, 'Should keep buckets apart');
+
+  const imageCount = summary.dimensions.find(dimension => dimension.key === 'imageCount');
+  console.assert(imageCount?.buckets.some(bucket => bucket.key === '3+'), 'Should group three or more photos');
+
+  console.assert(summary.lowRated.length === 1 && summary.lowRated[0].recipeId === 'a', 'Should list only the bad recipe');
+  console.assert(summary.lowRated[0].comments.includes('Actually: Lasagna'), 'Should include the correct dish');
+
+  console.log('✓ summarizeFeedback tests passed');
+}
+
+async function testFileFeedbackRepository() {
+  console.log('Testing FileFeedbackRepository...');
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'recipe-feedback-'));
+  process.env.RECIPE_DATA_DIR = directory;
+  try {
+    const repository = new FileFeedbackRepository();
+    await Promise.all(['a', 'b', 'c'].map(id => repository.recordGeneration(generation(id))));
+
+    const lines = (await fs.readFile(path.join(directory, 'generations.jsonl'), 'utf8')).trim().split('\n');
+    console.assert(lines.length === 3, 'Should append one line per generation');
+    console.assert((await repository.listGenerations()).length === 3, 'Should read every appended generation');
+    console.assert((await repository.getGeneration('b'))?.title === 'Recipe b', 'Should find a generation by recipe ID');
+
+    // A line cut short by a crash loses only that record
+    await fs.appendFile(path.join(directory, 'generations.jsonl'), '{"recipeId": "torn"\n');
+    await repository.recordGeneration(generation('d'));
+    console.assert((await repository.getGeneration('d')) !== null, 'Should keep appending after a damaged line');
+    console.assert((await repository.listGenerations()).length === 4, 'Should skip the damaged line');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  console.log('✓ FileFeedbackRepository tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running recipe feedback tests...');
+  testParseFeedbackInput();
+  testSummarizeFeedback();
+  testFileFeedbackRepository().then(() => console.log('✅ All tests completed'));
+}
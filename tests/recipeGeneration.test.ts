@@ -0,0 +1,88 @@
+/**
+ * Tests for turning model output into recipes
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { parseRecipeWithRepair, RECIPE_MAX_TOKENS } from '../src/lib/recipeGeneration';
+import { RecipeVisionProvider, VisionRequest } from '../src/lib/vision';
+
+const VALID_RECIPE = JSON.stringify({
+  title: 'Tomato Soup',
+  description: 'A simple soup',
+  ingredients: [{ name: 'tomatoes', quantity: '4', unit: '' }],
+  instructions: ['Chop the tomatoes', 'Simmer for 20 minutes'],
+  cookingTime: 30,
+  servings: 2
+});
+
+// Answers repair requests with the given responses in turn, and keeps the requests
+function stubProvider(responses: string[]): RecipeVisionProvider & { requests: VisionRequest[] } {
+  const requests: VisionRequest[] = [];
+  return {
+    name: 'stub',
+    requests,
+    async complete(request) {
+      requests.push(request);
+      const content = responses.shift();
+      if (content === undefined) throw new Error('No response left');
+      return { content };
+    },
+    async *stream() {
+      throw new Error('Not used');
+    }
+  };
+}
+
+async function testValidFirstTime() {
+  console.log('Testing valid JSON...');
+
+  const provider = stubProvider([]);
+  const result = await parseRecipeWithRepair(`Here is your recipe:\n\`\`\`json\n${VALID_RECIPE}\n\`\`\``, provider);
+  console.assert(result.source === 'model', 'Valid JSON should be used as-is');
+  console.assert(result.recipe.title === 'Tomato Soup', 'Should keep the title');
+  console.assert(provider.requests.length === 0, 'Should not ask for a repair');
+
+  console.log('✓ Valid JSON tests passed');
+}
+
+async function testRepaired() {
+  console.log('Testing repaired JSON...');
+
+  const broken = '{"title": "Tomato Soup", "ingredients": [{"name": "tomatoes",}';
+  const provider = stubProvider([VALID_RECIPE]);
+  const result = await parseRecipeWithRepair(broken, provider);
+  console.assert(result.source === 'repaired', 'Should use the repaired recipe');
+  console.assert(result.recipe.ingredients[0].name === 'tomatoes', 'Should read the repaired ingredients');
+  console.assert(provider.requests.length === 1, 'Should ask for exactly one repair');
+  console.assert(provider.requests[0].task === 'repair-recipe', 'Should send a repair request');
+  console.assert(provider.requests[0].maxTokens === RECIPE_MAX_TOKENS, 'Should leave room for the whole recipe');
+  console.assert(provider.requests[0].prompt.includes(broken), 'Should show the model its broken output');
+
+  console.log('✓ Repaired JSON tests passed');
+}
+
+async function testTextFallback() {
+  console.log('Testing text fallback...');
+
+  const content = 'Tomato Soup\n\nIngredients:\n- 4 tomatoes\n- 1 onion\n\nInstructions:\n1. Chop everything\n2. Simmer for 20 minutes';
+  const provider = stubProvider(['Sorry, I cannot help with that.']);
+  const result = await parseRecipeWithRepair(content, provider);
+  console.assert(result.source === 'text-fallback', 'Should fall back to text extraction when the repair fails');
+  console.assert(provider.requests.length === 1, 'Should not ask for a second repair');
+  console.assert(result.issues.some(issue => issue.severity === 'error'), 'Should report why the JSON was rejected');
+  console.assert(result.recipe.ingredients.length > 0 && result.recipe.instructions.length > 0, 'Should still return a usable recipe');
+
+  // A failing repair request ends the same way
+  const failing = await parseRecipeWithRepair(content, stubProvider([]));
+  console.assert(failing.source === 'text-fallback', 'Should fall back when the repair request throws');
+
+  console.log('✓ Text fallback tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running recipe generation tests...');
+  testValidFirstTime()
+    .then(testRepaired)
+    .then(testTextFallback)
+    .then(() => console.log('✅ All tests completed'));
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for the file-backed recipe repository
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Recipe } from '../src/types/recipe';
+import { FileRecipeRepository } from '../src/lib/storage/recipeRepository';
+import { readJsonFile, writeJsonFile } from '../src/lib/storage/jsonFileStore';
+
+function recipe(title: string): Recipe {
+  return { title, description: '', ingredients: [], instructions: ['Cook'], cookingTime: 10, servings: 2 };
+}
+
+async function leftoverTempFiles(directory: string): Promise<string[]> {
+  return (await fs.readdir(directory)).filter(name => name.endsWith('.tmp'));
+}
+
+async function testConcurrentWrites(directory: string) {
+  console.log('Testing concurrent saves and deletes...');
+
+  const repository = new FileRecipeRepository();
+  const initial = await Promise.all(Array.from({ length: 10 }, (_, index) => repository.create(recipe(`Initial ${index}`))));
+  console.assert((await repository.list()).length === 10, 'Every concurrent save should be kept');
+
+  // Delete half of them while saving and updating others at the same time
+  await Promise.all([
+    ...initial.slice(0, 5).map(saved => repository.delete(saved.id)),
+    ...Array.from({ length: 10 }, (_, index) => repository.create(recipe(`Later ${index}`))),
+    ...initial.slice(5).map(saved => repository.update(saved.id, recipe(`${saved.title} (edited)`)))
+  ]);
+
+  const recipes = await repository.list();
+  const titles = recipes.map(saved => saved.title);
+  console.assert(recipes.length === 15, 'No save or delete should be lost');
+  console.assert(initial.slice(0, 5).every(saved => !recipes.some(kept => kept.id === saved.id)), 'Deleted recipes should stay deleted');
+  console.assert(titles.filter(title => title.endsWith('(edited)')).length === 5, 'Every update should be kept');
+  console.assert(titles.filter(title => title.startsWith('Later')).length === 10, 'Every later save should be kept');
+  console.assert((await leftoverTempFiles(directory)).length === 0, 'No temp files should be left behind');
+
+  // Imports save a whole archive at once, alongside other writes
+  const [imported] = await Promise.all([
+    repository.createMany([recipe('Imported 1'), recipe('Imported 2'), recipe('Imported 3')]),
+    repository.create(recipe('Saved meanwhile'))
+  ]);
+  console.assert(imported.length === 3 && new Set(imported.map(saved => saved.id)).size === 3, 'Every imported recipe should get its own ID');
+  console.assert((await repository.list()).length === 19, 'Bulk saves should not lose other writes');
+
+  console.log('✓ Concurrent write tests passed');
+}
+
+async function testJsonFileStore(directory: string) {
+  console.log('Testing writeJsonFile...');
+
+  console.assert((await readJsonFile('missing.json', 'fallback')) === 'fallback', 'Missing files should return the fallback');
+
+  // Unqueued writers racing on one file must not trip over each other's temp files
+  await Promise.all(Array.from({ length: 10 }, (_, index) => writeJsonFile('nested/race.json', { index })));
+  const written = await readJsonFile<{ index: number } | null>('nested/race.json', null);
+  console.assert(written !== null && written.index >= 0 && written.index < 10, 'One of the writes should win whole');
+  console.assert((await leftoverTempFiles(path.join(directory, 'nested'))).length === 0, 'No temp files should be left behind');
+
+  console.log('✓ writeJsonFile tests passed');
+}
+
+if (typeof window === 'undefined') {
+  console.log('🧪 Running recipe repository tests...');
+  fs.mkdtemp(path.join(os.tmpdir(), 'recipe-repository-')).then(async directory => {
+    process.env.RECIPE_DATA_DIR = directory;
+    try {
+      await testConcurrentWrites(directory);
+      await testJsonFileStore(directory);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+    console.log('✅ All tests completed');
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for extracting recipes from free-form text
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { extractRecipeFromText } from '../src/utils/recipeTextParser';
+
+// Test text with section headings
+function testSectionedText() {
+  console.log('Testing sectioned recipe text...');
+
+  const recipe = extractRecipeFromText(`## Grandma's Banana Bread
+
+The moistest banana bread you will ever bake, straight from my grandmother's kitchen.
+
+Prep Time: 15 minutes
+Cook Time: 1 hr
+Serves: 8
+
+**Ingredients:**
+- 3 ripe bananas, mashed
+- 1 1/2 cups all-purpose flour
+- 1/2 cup (115g) butter, melted
+- 1 tsp baking soda
+For the topping:
+- 2 tbsp brown sugar
+
+**Instructions:**
+1. Preheat the oven to 350°F and grease a loaf pan.
+2. Mix the bananas and butter, then stir in the
+   flour and baking soda.
+3. Bake for 60 minutes.
+Step 4: Cool before slicing.
+
+Notes:
+Freezes well for up to 3 months.`);
+
+  console.assert(recipe.title === "Grandma's Banana Bread", 'Markdown headings should become the title');
+  console.assert(recipe.description?.startsWith('The moistest'), 'Intro prose should become the description');
+  console.assert(recipe.servings === 8, 'Servings should be read');
+  console.assert(recipe.cookingTime === 75, 'Prep and cook time should add up when there is no total');
+  console.assert(recipe.ingredients.length === 5, 'Sub-headings should not become ingredients');
+  console.assert(recipe.ingredients[1].quantity === '1 1/2' && recipe.ingredients[1].unit === 'cups', 'Amounts should be split out');
+  console.assert(recipe.ingredients[2].unit === 'cup (115g)', 'Metric hints should stay with the unit');
+  console.assert(recipe.instructions.length === 4, 'Numbered steps should be grouped');
+  console.assert(recipe.instructions[1] === 'Mix the bananas and butter, then stir in the flour and baking soda.', 'Wrapped lines should join their step');
+  console.assert(recipe.instructions[3] === 'Cool before slicing.', '"Step 4:" prefixes should be removed');
+  console.assert(!recipe.instructions.some(step => step.includes('Freezes')), 'Notes should not become steps');
+
+  console.log('✅ Sectioned recipe text tests passed');
+}
+
+// Test text without headings
+function testUnstructuredText() {
+  console.log('Testing unstructured recipe text...');
+
+  const recipe = extractRecipeFromText(`Quick garlic pasta
+200g spaghetti
+3 cloves garlic
+2 tbsp olive oil
+Boil the spaghetti in salted water.
+Fry the garlic in the olive oil and toss with the pasta.`);
+
+  console.assert(recipe.title === 'Quick garlic pasta', 'The first line should become the title');
+  console.assert(recipe.ingredients.length === 3, 'Lines with amounts should become ingredients');
+  console.assert(recipe.ingredients[0].quantity === '200' && recipe.ingredients[0].unit === 'g', 'Packed amounts should be split');
+  console.assert(recipe.instructions.length === 2, 'Lines with cooking verbs should become steps');
+
+  const inline = extractRecipeFromText('Title: Salad\nIngredients: lettuce, tomato, cucumber\nMethod: Chop and toss everything.');
+  console.assert(inline.title === 'Salad', 'Labelled titles should be used');
+  console.assert(inline.ingredients.length === 3, 'Comma-separated ingredient lists should be split');
+  console.assert(inline.instructions[0] === 'Chop and toss everything.', 'Text after a heading colon should be kept');
+
+  const empty = extractRecipeFromText('Just some thoughts about dinner');
+  console.assert(empty.ingredients.length === 0 && empty.instructions.length === 0, 'Missing sections should stay empty');
+
+  console.log('✅ Unstructured recipe text tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running text parser tests...');
+  testSectionedText();
+  testUnstructuredText();
+  console.log('✅ All tests completed');
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for store availability lookup
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { Store, StoreInventoryItem } from '../src/types/stores';
+import { StoreInventoryProvider } from '../src/lib/stores/types';
+import { findProduct, findStoreAvailability } from '../src/lib/stores/availability';
+import { distanceKm } from '../src/lib/stores/geo';
+
+const INVENTORY: StoreInventoryItem[] = [
+  { name: 'whole chicken', aliases: ['chicken'], inStock: true },
+  { name: 'chicken stock', aliases: ['chicken broth'], inStock: true, price: 2.5 },
+  { name: 'unsalted butter', aliases: ['butter'], inStock: false },
+  { name: 'eggs', inStock: true }
+];
+
+const HOME = { latitude: 37.77, longitude: -122.42 };
+
+class MemoryStoreProvider implements StoreInventoryProvider {
+  readonly name = 'memory';
+
+  constructor(private readonly stores: (Store & { inventory: StoreInventoryItem[] })[]) {}
+
+  async findStores(): Promise<Store[]> {
+    return this.stores;
+  }
+
+  async getInventory(storeId: string): Promise<StoreInventoryItem[]> {
+    return this.stores.find(store => store.id === storeId)?.inventory ?? [];
+  }
+}
+
+// Test matching ingredients to products
+function testProductMatching() {
+  console.log('Testing product matching...');
+
+  console.assert(findProduct('chicken broth', INVENTORY)?.name === 'chicken stock', 'The longest product name should win');
+  console.assert(findProduct('2 chicken thighs', INVENTORY)?.name === 'whole chicken', 'Aliases should match');
+  console.assert(findProduct('large eggs, beaten', INVENTORY)?.name === 'eggs', 'Preparation words should be ignored');
+  console.assert(findProduct('saffron', INVENTORY) === null, 'Unknown ingredients should not match');
+
+  const distance = distanceKm(HOME, { latitude: 37.8044, longitude: -122.2712 });
+  console.assert(Math.abs(distance - 13.5) < 0.5, 'Distances should follow the great circle');
+
+  console.log('✅ Product matching tests passed');
+}
+
+// Test ranking stores
+async function testStoreAvailability() {
+  console.log('Testing store availability...');
+
+  const provider = new MemoryStoreProvider([
+    { id: 'far', name: 'Far Market', address: '', location: { latitude: 37.8, longitude: -122.42 }, inventory: INVENTORY },
+    { id: 'near', name: 'Near Market', address: '', location: HOME, inventory: INVENTORY.slice(0, 2) },
+    { id: 'full', name: 'Full Market', address: '', location: { latitude: 37.78, longitude: -122.42 }, inventory: [...INVENTORY, { name: 'butter', inStock: true }] }
+  ]);
+
+  const stores = await findStoreAvailability(
+    [
+      { name: 'butter', quantity: '2', unit: 'tbsp' },
+      { name: 'eggs', quantity: '2', unit: '' },
+      { name: 'egg', quantity: '1', unit: '' },
+      { name: 'water', quantity: '1', unit: 'cup' }
+    ],
+    HOME,
+    10,
+    provider
+  );
+
+  console.assert(stores[0].store.id === 'full' && stores[0].missing.length === 0, 'Stores with everything should come first');
+  console.assert(stores[1].store.id === 'far' && stores[1].missing[0] === 'butter', 'Out of stock products should be missing');
+  console.assert(stores[2].missing.length === 2, 'Unlisted products should be missing');
+  console.assert(stores[0].inStock.length === 2, 'Repeated ingredients and water should be checked once or not at all');
+
+  console.log('✅ Store availability tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running store availability tests...');
+  testProductMatching();
+  testStoreAvailability().then(() => console.log('✅ All tests completed'));
+}
@@ -0,0 +1,203 @@
+/**
+ * Tests for quantity parsing, unit conversion, measurement profiles and servings scaling
+ * Run with: npm test (after setting up a test runner)
+ */
+
+import { parseQuantity, formatQuantity } from '../src/utils/quantityUtils';
+import { convertIngredient, convertInstructionText, convertRecipe, parseMeasurement } from '../src/utils/unitConversion';
+import { scaleRecipe } from '../src/utils/recipeScaling';
+import { weighDryIngredients } from '../src/utils/nutrition';
+import {
+  MEASUREMENT_PRESETS,
+  findMeasurementPreset,
+  getUnitSystemPrompt,
+  measurementProfileForLocale,
+  parseMeasurementProfile
+} from '../src/utils/unitUtils';
+import { Recipe } from '../src/types/recipe';
+
+// Test quantity parsing
+function testQuantityParsing() {
+  console.log('Testing quantity parsing...');
+
+  console.assert(parseQuantity('1 1/2')?.min === 1.5, 'Mixed numbers should parse');
+  console.assert(parseQuantity('½')?.min === 0.5, 'Unicode fractions should parse');
+  console.assert(parseQuantity('1½')?.min === 1.5, 'Attached unicode fractions should parse');
+  console.assert(parseQuantity('0.25')?.min === 0.25, 'Decimals should parse');
+
+  const range = parseQuantity('2-3');
+  console.assert(range?.min === 2 && range?.max === 3, 'Ranges should keep both ends');
+
+  const reversed = parseQuantity('3-2');
+  console.assert(reversed?.min === 2 && reversed?.max === 3, 'Reversed ranges should be put in order');
+  const same = parseQuantity('2 to 2');
+  console.assert(same?.min === 2 && same?.max === undefined, 'Ranges with equal ends should be a single amount');
+  const hyphenated = parseQuantity('1-1/2');
+  console.assert(hyphenated?.min === 1.5 && hyphenated?.max === undefined, 'Hyphenated mixed numbers should not be ranges');
+  const fractionRange = parseQuantity('1/2-3/4');
+  console.assert(fractionRange?.min === 0.5 && fractionRange?.max === 0.75, 'Ranges of fractions should keep both ends');
+  const wholeRange = parseQuantity('1-3/2');
+  console.assert(wholeRange?.min === 1 && wholeRange?.max === 1.5, 'Improper fractions after a hyphen should stay ranges');
+
+  console.assert(parseQuantity('to taste') === null, 'Non-numeric amounts should not parse');
+  console.assert(formatQuantity({ min: 1.5 }) === '1 1/2', 'Fractions should render as kitchen fractions');
+  console.assert(formatQuantity({ min: 0.33 }) === '1/3', 'Thirds should render as 1/3');
+
+  console.log('✅ Quantity parsing tests passed');
+}
+
+// Test unit aliases and conversion
+function testUnitConversion() {
+  console.log('Testing unit conversion...');
+
+  const measurement = parseMeasurement('1', 'cup (250ml)');
+  console.assert(measurement.unit?.id === 'cup', 'Unit with a parenthetical hint should resolve');
+  console.assert(measurement.note === '250ml', 'Parenthetical hint should be kept as a note');
+  console.assert(parseMeasurement('2', 'Tbsp.').unit?.id === 'tbsp', 'Unit aliases should be case and period insensitive');
+  console.assert(parseMeasurement('250g', '').unit?.id === 'g', 'Units packed into the quantity should parse');
+
+  const flour = convertIngredient({ name: 'flour', quantity: '2', unit: 'cups' }, 'metric');
+  console.assert(flour.quantity === '470' && flour.unit === 'ml', 'Cups should convert to milliliters');
+
+  const butter = convertIngredient({ name: 'butter', quantity: '227', unit: 'g' }, 'imperial');
+  console.assert(butter.quantity === '8' && butter.unit === 'oz', 'Grams should convert to ounces');
+
+  const hinted = convertIngredient({ name: 'milk', quantity: '1', unit: 'cup (250ml)' }, 'metric');
+  console.assert(hinted.quantity === '250' && hinted.unit === 'ml', 'Metric hints should be preferred');
+
+  const salt = convertIngredient({ name: 'salt', quantity: 'to taste', unit: '' }, 'metric');
+  console.assert(salt.quantity === 'to taste', 'Unparseable quantities should be unchanged');
+
+  const spoon = convertIngredient({ name: 'oil', quantity: '2', unit: 'tablespoons' }, 'metric');
+  console.assert(spoon.unit === 'tablespoons', 'Spoons are valid in both systems');
+
+  const recipe: Recipe = {
+    title: 'Pancakes',
+    ingredients: [{ name: 'milk', quantity: '1 1/2', unit: 'cups' }],
+    instructions: ['Mix'],
+    unitSystem: 'imperial'
+  };
+  const metric = convertRecipe(recipe, 'metric');
+  const again = convertRecipe(recipe, 'metric');
+  console.assert(metric.unitSystem === 'metric', 'Converted recipe should carry the new unit system');
+  console.assert(JSON.stringify(metric) === JSON.stringify(again), 'Conversion should be deterministic');
+
+  console.log('✅ Unit conversion tests passed');
+}
+
+// Test conversion inside instruction text
+function testInstructionConversion() {
+  console.log('Testing instruction conversion...');
+
+  console.assert(
+    convertInstructionText('Preheat the oven to 350°F and grease a 9x13-inch pan.', 'metric') === 'Preheat the oven to 180°C and grease a 23x33 cm pan.',
+    'Should convert temperatures and pan sizes'
+  );
+  console.assert(
+    convertInstructionText('Bake at 350 degrees F (180°C).', 'metric') === 'Bake at 180°C.',
+    'Should keep the target half of a dual measurement'
+  );
+  console.assert(
+    convertInstructionText('Whisk in 2 cups of milk and 1 tbsp sugar.', 'metric') === 'Whisk in 470 ml of milk and 1 tbsp sugar.',
+    'Should convert amounts but not spoons'
+  );
+  console.assert(convertInstructionText('Heat the oven to gas 6.', 'metric') === 'Heat the oven to 200°C (gas 6).', 'Should add a temperature to gas marks');
+  console.assert(convertInstructionText('Preheat to 180°C/gas mark 4.', 'imperial') === 'Preheat to 350°F/gas mark 4.', 'Should not repeat a gas mark temperature');
+  console.assert(convertInstructionText('Fry at 170-180°C with 2 c flour', 'imperial') === 'Fry at 340-355°F with 2 c flour', 'Should convert ranges and skip a bare "c"');
+  console.assert(convertInstructionText('Roll to 5mm thick', 'imperial') === 'Roll to 1/4 inch thick', 'Should convert small lengths to fractions');
+
+  console.log('✅ Instruction conversion tests passed');
+}
+
+// Test per-category unit choices and region presets
+function testMeasurementProfiles() {
+  console.log('Testing measurement profiles...');
+
+  const [us, metric, uk, ukImperial, australia, weighed] = MEASUREMENT_PRESETS.map(preset => preset.profile);
+
+  const cups = convertIngredient({ name: 'milk', quantity: '2', unit: 'cups' }, australia);
+  console.assert(cups.quantity === '1 7/8' && cups.unit === 'metric cups', 'Should convert to 250 ml metric cups');
+
+  const pints = convertIngredient({ name: 'milk', quantity: '500', unit: 'ml' }, ukImperial);
+  console.assert(pints.quantity === '7/8' && pints.unit === 'UK pints', 'Should convert to UK pints');
+
+  const spoons = convertIngredient({ name: 'oil', quantity: '2', unit: 'tbsp' }, { ...metric, smallVolume: 'milliliters' });
+  console.assert(spoons.quantity === '30' && spoons.unit === 'ml', 'Should measure small amounts in milliliters when asked');
+  console.assert(convertIngredient({ name: 'oil', quantity: '1/8', unit: 'cup' }, 'metric').unit === 'tablespoons', 'Should use spoons for small amounts');
+
+  const recipe: Recipe = {
+    title: 'Cake',
+    ingredients: [
+      { name: 'all-purpose flour', quantity: '2', unit: 'cups' },
+      { name: 'milk', quantity: '1', unit: 'cup' },
+      { name: 'sugar', quantity: '2', unit: 'tbsp' }
+    ],
+    instructions: ['Preheat the oven to 350°F.', 'Fry the crumbs at 180°C.']
+  };
+  const converted = weighDryIngredients(convertRecipe(recipe, weighed), weighed);
+  console.assert(converted.ingredients[0].quantity === '250' && converted.ingredients[0].unit === 'g', 'Should weigh dry ingredients');
+  console.assert(converted.ingredients[1].unit === 'ml', 'Should keep liquids by volume');
+  console.assert(converted.ingredients[2].unit === 'tbsp', 'Should keep spoonfuls of dry ingredients');
+
+  const gas = convertRecipe(recipe, uk);
+  console.assert(gas.instructions[0] === 'Preheat the oven to gas mark 4 (180°C).', 'Should add gas marks to oven temperatures');
+  console.assert(gas.instructions[1] === 'Fry the crumbs at 180°C.', 'Should not add gas marks outside the oven');
+  console.assert(gas.unitSystem === 'metric' && convertRecipe(recipe, ukImperial).unitSystem === 'imperial', 'Should label the recipe with the closest unit system');
+
+  console.assert(findMeasurementPreset(measurementProfileForLocale('en-GB')) === 'uk', 'Should detect the UK');
+  console.assert(findMeasurementPreset(measurementProfileForLocale('sv-SE')) === 'metric', 'Should detect metric countries by region');
+  console.assert(findMeasurementPreset(measurementProfileForLocale('en-IN')) === 'metric', 'Should not treat every English locale as US');
+  console.assert(findMeasurementPreset(measurementProfileForLocale('es-US')) === 'us', 'Should detect the US whatever the language');
+  console.assert(findMeasurementPreset(measurementProfileForLocale('en')) === 'us', 'Should use the likely region of a bare language');
+  console.assert(findMeasurementPreset(measurementProfileForLocale('en-AU')) === 'australia', 'Should detect Australia');
+
+  const parsed = parseMeasurementProfile({ volume: 'uk-pints', weight: 'stone' }, 'metric');
+  console.assert(parsed.volume === 'uk-pints' && parsed.weight === 'grams', 'Should keep valid choices and fill in the rest');
+  console.assert(parseMeasurementProfile(undefined) === us, 'Should default to US units');
+  console.assert(findMeasurementPreset(parsed) === null, 'Mixed choices should not match a preset');
+
+  console.assert(getUnitSystemPrompt(ukImperial).includes('UK pint'), 'Prompt should name the chosen volume units');
+  console.assert(getUnitSystemPrompt(uk).includes('weigh them in grams'), 'Prompt should ask to weigh dry ingredients');
+
+  console.log('✅ Measurement profile tests passed');
+}
+
+// Test servings scaling
+function testRecipeScaling() {
+  console.log('Testing servings scaling...');
+
+  const recipe: Recipe = {
+    title: 'Soup',
+    ingredients: [
+      { name: 'stock', quantity: '1', unit: 'cup (250ml)' },
+      { name: 'garlic', quantity: '2', unit: 'cloves' },
+      { name: 'butter', quantity: '1/2', unit: 'tablespoon' },
+      { name: 'salt', quantity: 'to taste', unit: '' }
+    ],
+    instructions: ['Simmer'],
+    servings: 4
+  };
+
+  const doubled = scaleRecipe(recipe, 8);
+  console.assert(doubled.servings === 8, 'Scaled recipe should carry the new servings');
+  console.assert(doubled.ingredients[0].quantity === '2' && doubled.ingredients[0].unit === 'cups (500 ml)', 'Units and hints should scale together');
+  console.assert(doubled.ingredients[1].quantity === '4' && doubled.ingredients[1].unit === 'cloves', 'Unknown units should be kept');
+  console.assert(doubled.ingredients[3].quantity === 'to taste', 'Unparseable quantities should be unchanged');
+
+  const reduced = scaleRecipe(recipe, 3);
+  console.assert(reduced.ingredients[2].quantity === '3/8', 'Scaled amounts should render as kitchen fractions');
+
+  console.log('✅ Servings scaling tests passed');
+}
+
+// Run tests
+if (typeof window === 'undefined') {
+  // Node.js environment
+  console.log('🧪 Running unit conversion tests...');
+  testQuantityParsing();
+  testUnitConversion();
+  testInstructionConversion();
+  testMeasurementProfiles();
+  testRecipeScaling();
+  console.log('✅ All tests completed');
+}